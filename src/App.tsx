@@ -1,12 +1,29 @@
 import { QueryClientProvider } from '@tanstack/react-query';
+import { BrowserRouter } from 'react-router';
 import { queryClient } from './app/queryClient';
-import LoginPage from './pages/LoginPage';
+import { AuthProvider } from './app/AuthProvider';
+import { AppRoutes } from './app/AppRoutes';
+import { DevInbox } from './components/DevInbox';
+import { DevScenarioPanel } from './components/DevScenarioPanel';
+import { LocaleSwitcher } from './components/LocaleSwitcher';
+import { I18nProvider } from './i18n';
 
 function App() {
   return (
-    <QueryClientProvider client={queryClient}>
-      <LoginPage />
-    </QueryClientProvider>
+    <I18nProvider>
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <AuthProvider>
+            <AppRoutes />
+          </AuthProvider>
+          <LocaleSwitcher />
+          {/* Mock SMS/email delivery */}
+          {import.meta.env.DEV && <DevInbox />}
+          {/* Mock backend responses and request log */}
+          {import.meta.env.DEV && <DevScenarioPanel />}
+        </BrowserRouter>
+      </QueryClientProvider>
+    </I18nProvider>
   );
 }
 
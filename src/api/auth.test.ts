@@ -0,0 +1,473 @@
+import { afterEach, describe, expect, it, onTestFinished, vi } from 'vitest';
+import { http, HttpResponse, delay } from 'msw';
+import { server } from '../mocks/node';
+import { MOCK_TRUSTED_DEVICE_CONFIG, TEST_USERS } from '../mocks/handlers';
+import { clearDevInbox, getDevInboxMessages } from '../mocks/devInbox';
+import { generateTotp } from '../mocks/totp';
+import {
+  discoverLoginMethod,
+  getCurrentUser,
+  getTrustedDevices,
+  login,
+  regenerateRecoveryCodes,
+  register,
+  removeToken,
+  requestPasswordReset,
+  resetPassword,
+  revokeTrustedDevice,
+  saveTokens,
+  send2FACode,
+  setStepUpHandler,
+  verify2FA,
+  verifyEmail,
+  verifyStepUp,
+  type StepUpHandler,
+} from './auth';
+import { getDeviceToken, saveDeviceToken } from './deviceTokens';
+import { ApiClientError, normalizeApiError } from './errors';
+import type { ApiError } from './types';
+
+const CREDENTIALS = { email: 'test@example.com', password: 'password123' };
+
+// Answer the next login with the given response
+const respondToLogin = (resolver: () => Response | Promise<Response>) => {
+  server.use(http.post('/api/auth/login', resolver, { once: true }));
+};
+
+// The rejection of the next login
+const loginError = async (): Promise<ApiClientError> => {
+  const error = await login(CREDENTIALS).catch((reason: unknown) => reason);
+  expect(error).toBeInstanceOf(ApiClientError);
+  return error as ApiClientError;
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('API error mapping', () => {
+  it('keeps the code and message of an error body', async () => {
+    respondToLogin(() =>
+      HttpResponse.json<ApiError>({ error: 'invalid_credentials', message: 'Email or password is incorrect' }, { status: 401 })
+    );
+
+    const error = await loginError();
+    expect(error).toMatchObject({
+      status: 401,
+      code: 'invalid_credentials',
+      rawCode: 'invalid_credentials',
+      message: 'Email or password is incorrect',
+      retryable: false,
+    });
+  });
+
+  it('maps codes the client does not know to unknown_error', async () => {
+    respondToLogin(() => HttpResponse.json({ error: 'account_suspended', message: 'Account suspended' }, { status: 403 }));
+
+    const error = await loginError();
+    expect(error.code).toBe('unknown_error');
+    expect(error.rawCode).toBe('account_suspended');
+    expect(error.message).toBe('Account suspended');
+  });
+
+  it.each([
+    [401, 'unauthorized', false],
+    [404, 'unknown_error', false],
+    [422, 'validation_failed', false],
+    [429, 'rate_limited', true],
+    [500, 'server_error', true],
+    [503, 'server_error', true],
+  ])('falls back to a code for a %i without an error body', async (status, code, retryable) => {
+    respondToLogin(() => new HttpResponse('<html>Bad gateway</html>', { status }));
+
+    const error = await loginError();
+    expect(error).toMatchObject({ status, code, retryable });
+  });
+
+  it('reads Retry-After in seconds', async () => {
+    respondToLogin(() =>
+      HttpResponse.json<ApiError>(
+        { error: 'too_many_attempts', message: 'Too many attempts', retryAfter: 99 },
+        { status: 429, headers: { 'Retry-After': '30' } }
+      )
+    );
+
+    const error = await loginError();
+    expect(error.retryAfter).toBe(30);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('reads Retry-After as an HTTP date', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T12:00:00Z'), shouldAdvanceTime: true });
+    respondToLogin(() =>
+      HttpResponse.json<ApiError>(
+        { error: 'rate_limited', message: 'Slow down' },
+        { status: 429, headers: { 'Retry-After': 'Thu, 01 Jan 2026 12:01:30 GMT' } }
+      )
+    );
+
+    const error = await loginError();
+    expect(error.retryAfter).toBe(90);
+  });
+
+  it('falls back to retryAfter from the body', async () => {
+    respondToLogin(() =>
+      HttpResponse.json<ApiError>({ error: 'account_locked', message: 'Locked', retryAfter: 900 }, { status: 423 })
+    );
+
+    expect((await loginError()).retryAfter).toBe(900);
+  });
+
+  it('keeps brute-force protection state and the request id', async () => {
+    respondToLogin(() =>
+      HttpResponse.json<ApiError>(
+        { error: 'invalid_credentials', message: 'Wrong password', attemptsRemaining: 2, challengeRequired: true },
+        { status: 401, headers: { 'X-Request-Id': 'req-123' } }
+      )
+    );
+
+    const error = await loginError();
+    expect(error.attemptsRemaining).toBe(2);
+    expect(error.challengeRequired).toBe(true);
+    expect(error.requestId).toBe('req-123');
+  });
+
+  it('keeps only well-formed field errors', async () => {
+    respondToLogin(() =>
+      HttpResponse.json(
+        {
+          error: 'validation_failed',
+          message: 'Invalid input',
+          fields: { email: ['Disposable email addresses are not allowed.'], password: [], name: 'Required', age: [42] },
+        },
+        { status: 422 }
+      )
+    );
+
+    const error = await loginError();
+    expect(error.fieldErrors).toEqual({ email: ['Disposable email addresses are not allowed.'] });
+  });
+
+  it('drops field errors when none are well-formed', async () => {
+    respondToLogin(() =>
+      HttpResponse.json({ error: 'validation_failed', message: 'Invalid input', fields: 'email' }, { status: 422 })
+    );
+
+    expect((await loginError()).fieldErrors).toBeUndefined();
+  });
+
+  it('maps a failed connection to network_error', async () => {
+    respondToLogin(() => HttpResponse.error());
+
+    const error = await loginError();
+    expect(error).toMatchObject({ status: 0, code: 'network_error', retryable: true });
+  });
+
+  it('maps a request that outlives the client timeout to timeout_error', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    respondToLogin(async () => {
+      await delay(30_000);
+      return HttpResponse.json({});
+    });
+
+    const pending = loginError();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(await pending).toMatchObject({ status: 0, code: 'timeout_error', retryable: true });
+  });
+});
+
+describe('silent refresh', () => {
+  it('refreshes once and rejects when the retried request is still unauthorized', async () => {
+    const pending = await login(CREDENTIALS);
+    if (!pending.requires2FA) throw new Error('Expected a 2FA step');
+    const code = await generateTotp(TEST_USERS.valid.totp.secret);
+    saveTokens(await verify2FA({ tempToken: pending.tempToken, code }));
+    onTestFinished(removeToken);
+
+    let refreshes = 0;
+    server.use(
+      http.get('/api/auth/me', () =>
+        HttpResponse.json<ApiError>({ error: 'token_expired', message: 'Access token expired' }, { status: 401 })
+      ),
+      // Counted, then answered by the mock API
+      http.post('/api/auth/refresh', () => {
+        refreshes += 1;
+      })
+    );
+
+    await expect(getCurrentUser()).rejects.toMatchObject({ status: 401, code: 'token_expired' });
+    expect(refreshes).toBe(1);
+  });
+});
+
+describe('normalizeApiError', () => {
+  it('passes ApiClientErrors through', () => {
+    const error = new ApiClientError({ status: 401, rawCode: 'token_expired', message: 'Expired' });
+
+    expect(normalizeApiError(error)).toBe(error);
+  });
+
+  it('wraps anything else as unknown_error', () => {
+    const cause = new TypeError('Cannot read properties of undefined');
+    const error = normalizeApiError(cause);
+
+    expect(error).toMatchObject({ status: 0, code: 'unknown_error', retryable: false });
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe('2FA session expiry', () => {
+  // A signed-in 2FA step for the mock's test user
+  const startTwoFactor = async () => {
+    const response = await login(CREDENTIALS);
+    if (!response.requires2FA) throw new Error('Expected a 2FA step');
+    return response;
+  };
+
+  it('accepts the temp token until tempTokenExpiresAt', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const { tempToken, tempTokenExpiresAt } = await startTwoFactor();
+    vi.setSystemTime(Date.parse(tempTokenExpiresAt) - 1000);
+
+    const error = await verify2FA({ tempToken, code: '123456' }).catch((reason: unknown) => reason);
+    expect(error).toMatchObject({ code: 'invalid_2fa_code' });
+  });
+
+  it('rejects the temp token after tempTokenExpiresAt with 2fa_expired', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const { tempToken, tempTokenExpiresAt } = await startTwoFactor();
+    vi.setSystemTime(Date.parse(tempTokenExpiresAt));
+
+    const error = await verify2FA({ tempToken, code: '123456' }).catch((reason: unknown) => reason);
+    expect(error).toMatchObject({ status: 401, code: '2fa_expired' });
+  });
+});
+
+describe('email addresses', () => {
+  it('match accounts whatever their case', async () => {
+    const response = await login({ ...CREDENTIALS, email: 'Test@Example.COM' });
+    expect(response).toMatchObject({ requires2FA: true, user: { email: CREDENTIALS.email } });
+
+    const error = await register({ email: ' Test@Example.com ', password: 'Correct horse battery staple 42' })
+      .catch((reason: unknown) => reason);
+    expect(error).toMatchObject({ status: 409, code: 'email_taken' });
+  });
+});
+
+describe('authenticator enrollment', () => {
+  it('cannot be skipped with a code sent by email', async () => {
+    const response = await login({ email: TEST_USERS.enrollment.email, password: TEST_USERS.enrollment.password });
+    if (!response.requires2FA) throw new Error('Expected a 2FA step');
+    expect(response).toMatchObject({ enrollmentRequired: true, twoFactorMethods: [] });
+    const { tempToken } = response;
+
+    await expect(send2FACode({ tempToken, method: 'email' })).rejects.toMatchObject({ code: 'method_unavailable' });
+    await expect(verify2FA({ tempToken, method: 'email', code: '123456', trustDevice: true })).rejects.toMatchObject({
+      status: 403,
+      code: 'enrollment_required',
+    });
+  });
+});
+
+describe('2FA attempt limit', () => {
+  it('keeps counting failed codes when the user signs in again', { timeout: 20_000 }, async () => {
+    const startTwoFactor = async () => {
+      const response = await login(CREDENTIALS);
+      if (!response.requires2FA) throw new Error('Expected a 2FA step');
+      return response.tempToken;
+    };
+    const verifyCode = async (tempToken: string, code?: string) =>
+      verify2FA({ tempToken, code: code ?? (await generateTotp(TEST_USERS.valid.totp.secret)) })
+        .catch((reason: unknown) => reason);
+
+    // A successful verification resets the count
+    await verifyCode(await startTwoFactor());
+
+    expect(await verifyCode(await startTwoFactor(), '000000')).toMatchObject({
+      code: 'invalid_2fa_code',
+      attemptsRemaining: 4,
+    });
+    const tempToken = await startTwoFactor();
+    expect(await verifyCode(tempToken, '000000')).toMatchObject({ code: 'invalid_2fa_code', attemptsRemaining: 3 });
+
+    await verifyCode(tempToken);
+  });
+});
+
+describe('sign-up verification attempt limit', () => {
+  it('keeps counting wrong codes when the user signs up again', { timeout: 20_000 }, async () => {
+    const credentials = { email: 'limit@example.com', password: 'Correct horse battery staple 42' };
+    const verifyCode = (verificationId: string) =>
+      verifyEmail({ verificationId, code: '000000' }).catch((reason: unknown) => reason);
+
+    const first = await register(credentials);
+    expect(await verifyCode(first.verificationId)).toMatchObject({
+      code: 'invalid_verification_code',
+      attemptsRemaining: 4,
+    });
+    expect(await verifyCode(first.verificationId)).toMatchObject({ attemptsRemaining: 3 });
+
+    const { verificationId } = await register(credentials);
+    expect(await verifyCode(verificationId)).toMatchObject({ attemptsRemaining: 2, challengeRequired: true });
+    expect(await verifyCode(verificationId)).toMatchObject({ status: 400, code: 'challenge_required' });
+  });
+});
+
+describe('identifier-first sign-in', () => {
+  it('ties the password step to the discovered email', async () => {
+    const discovery = await discoverLoginMethod({ email: 'test@example.com' });
+    if (discovery.method !== 'password') throw new Error('Expected the password method');
+
+    const response = await login({ ...CREDENTIALS, discoveryToken: discovery.discoveryToken });
+    expect(response.requires2FA).toBe(true);
+
+    const error = await login({ ...CREDENTIALS, email: 'new@example.com', discoveryToken: discovery.discoveryToken })
+      .catch((reason: unknown) => reason);
+    expect(error).toMatchObject({ status: 400, code: 'discovery_expired' });
+  });
+
+  it('refuses passwords for SSO domains', async () => {
+    const discovery = await discoverLoginMethod({ email: 'alex@acme.test' });
+    expect(discovery).toMatchObject({ method: 'sso', connection: { protocol: 'oidc', provider: { id: 'okta' } } });
+
+    const error = await login({ email: 'alex@acme.test', password: 'password123' }).catch((reason: unknown) => reason);
+    expect(error).toMatchObject({ status: 403, code: 'sso_required' });
+  });
+});
+
+describe('trusted devices', () => {
+  // Password and authenticator code, trusting this device if asked
+  const signInWithTwoFactor = async (trustDevice: boolean) => {
+    const pending = await login(CREDENTIALS);
+    if (!pending.requires2FA) throw new Error('Expected a 2FA step');
+    const code = await generateTotp(TEST_USERS.valid.totp.secret);
+    const response = await verify2FA({ tempToken: pending.tempToken, code, trustDevice });
+    saveTokens(response);
+    return response;
+  };
+
+  afterEach(() => {
+    MOCK_TRUSTED_DEVICE_CONFIG.ttlDays = 30;
+  });
+
+  it('only trusts a device when asked', async () => {
+    const response = await signInWithTwoFactor(false);
+    expect(response.deviceToken).toBeUndefined();
+    expect((await login(CREDENTIALS)).requires2FA).toBe(true);
+  });
+
+  it('skips 2FA on a trusted device until it is revoked', async () => {
+    const { deviceToken } = await signInWithTwoFactor(true);
+    expect(getDeviceToken(CREDENTIALS.email)).toBe(deviceToken);
+    expect((await login(CREDENTIALS)).requires2FA).toBe(false);
+
+    const { devices } = await getTrustedDevices(CREDENTIALS.email);
+    const current = devices.find((device) => device.current);
+    expect(current).toBeDefined();
+    await revokeTrustedDevice(current!.id);
+
+    expect((await login(CREDENTIALS)).requires2FA).toBe(true);
+    // The token the server stopped honouring is forgotten
+    expect(getDeviceToken(CREDENTIALS.email)).toBeUndefined();
+  });
+
+  it('refuses a device token that was tampered with or has expired', async () => {
+    const { deviceToken } = await signInWithTwoFactor(true);
+    saveDeviceToken(CREDENTIALS.email, `${deviceToken}x`);
+    expect((await login(CREDENTIALS)).requires2FA).toBe(true);
+
+    MOCK_TRUSTED_DEVICE_CONFIG.ttlDays = -1;
+    await signInWithTwoFactor(true);
+    expect((await login(CREDENTIALS)).requires2FA).toBe(true);
+  });
+
+  it('stops trusting every device when the password is reset', async () => {
+    await signInWithTwoFactor(true);
+    clearDevInbox();
+    await requestPasswordReset({ email: CREDENTIALS.email });
+    const [message] = getDevInboxMessages();
+    const token = new URLSearchParams(message.link?.split('?')[1]).get('token') ?? '';
+
+    const password = 'Correct horse battery staple 42';
+    onTestFinished(() => {
+      TEST_USERS.valid.password = CREDENTIALS.password;
+    });
+    await resetPassword({ token, password });
+
+    expect((await login({ ...CREDENTIALS, password })).requires2FA).toBe(true);
+  });
+});
+
+describe('step-up', () => {
+  // Signed in with password and authenticator code
+  const signIn = async () => {
+    const pending = await login(CREDENTIALS);
+    if (!pending.requires2FA) throw new Error('Expected a 2FA step');
+    const code = await generateTotp(TEST_USERS.valid.totp.secret);
+    saveTokens(await verify2FA({ tempToken: pending.tempToken, code }));
+  };
+
+  // Stand in for the dialog until the test ends
+  const useStepUpHandler = (handler: StepUpHandler) => {
+    const handle = vi.fn(handler);
+    onTestFinished(setStepUpHandler(handle));
+    return handle;
+  };
+
+  afterEach(() => {
+    removeToken();
+  });
+
+  it('fails with step_up_required when nothing handles it', async () => {
+    await signIn();
+    const error = await regenerateRecoveryCodes().catch((reason: unknown) => reason);
+    expect(error).toMatchObject({ status: 403, code: 'step_up_required', stepUpMethods: ['totp', 'password'] });
+  });
+
+  it('retries the request once the challenge is passed, and reuses the elevated token', async () => {
+    await signIn();
+    const handler = useStepUpHandler(() => verifyStepUp({ method: 'password', password: CREDENTIALS.password }));
+
+    const { recoveryCodes } = await regenerateRecoveryCodes();
+    expect(recoveryCodes).toHaveLength(10);
+    expect(handler).toHaveBeenCalledWith(['totp', 'password']);
+
+    await regenerateRecoveryCodes();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails with the original error when the challenge is cancelled', async () => {
+    await signIn();
+    useStepUpHandler(() => Promise.reject(new Error('Step-up cancelled')));
+
+    const error = await regenerateRecoveryCodes().catch((reason: unknown) => reason);
+    expect(error).toMatchObject({ status: 403, code: 'step_up_required' });
+  });
+
+  it('passes on a second step_up_required instead of asking again', async () => {
+    await signIn();
+    const handler = useStepUpHandler(() => verifyStepUp({ method: 'password', password: CREDENTIALS.password }));
+    server.use(
+      http.post('/api/auth/2fa/recovery-codes', () =>
+        HttpResponse.json<ApiError>(
+          { error: 'step_up_required', message: 'Confirm your identity to continue.', stepUpMethods: ['password'] },
+          { status: 403 }
+        )
+      )
+    );
+
+    await expect(regenerateRecoveryCodes()).rejects.toMatchObject({ status: 403, code: 'step_up_required' });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a wrong password or code', async () => {
+    await signIn();
+    await expect(verifyStepUp({ method: 'password', password: 'wrong-password' })).rejects.toMatchObject({
+      code: 'invalid_credentials',
+    });
+    await expect(verifyStepUp({ method: 'totp', code: '000000' })).rejects.toMatchObject({
+      code: 'invalid_2fa_code',
+    });
+  });
+});
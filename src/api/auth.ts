@@ -1,8 +1,60 @@
-import axios, { AxiosError } from 'axios';
-import type { LoginCredentials, LoginResponse, ApiError, Verify2FACredentials, Verify2FAResponse } from './types';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import type {
+  LoginCredentials,
+  LoginResponse,
+  DiscoverLoginRequest,
+  DiscoverLoginResponse,
+  OidcLoginRequest,
+  OidcLoginResult,
+  Verify2FACredentials,
+  Verify2FAResponse,
+  VerifyRecoveryCodeCredentials,
+  Send2FACodeRequest,
+  Send2FACodeResponse,
+  Start2FAEnrollmentRequest,
+  Start2FAEnrollmentResponse,
+  Confirm2FAEnrollmentCredentials,
+  Confirm2FAEnrollmentResponse,
+  PasskeyAuthenticationOptions,
+  PasskeyLoginRequest,
+  PasskeyRegistrationOptions,
+  PasskeyRegistrationRequest,
+  PasskeyRegistrationResponse,
+  AuthTokens,
+  RefreshTokenRequest,
+  CurrentUserResponse,
+  LogoutRequest,
+  RegisterRequest,
+  RegisterResponse,
+  VerifyEmailRequest,
+  VerifyEmailResponse,
+  ResendVerificationEmailRequest,
+  RequestPasswordResetRequest,
+  RequestPasswordResetResponse,
+  ResetPasswordRequest,
+  LocalChallengeResponse,
+  TrustedDevicesResponse,
+  StepUpMethod,
+  StepUpRequest,
+  StepUpResponse,
+  RegenerateRecoveryCodesResponse,
+} from './types';
+import { ApiClientError, normalizeApiError } from './errors';
+import { createPasskeyCredential, getPasskeyAssertion } from './webauthn';
+import {
+  createAuthorizationUrl,
+  handleAuthorizationResponse,
+  type OidcAuthorizationOptions,
+  type OidcProvider,
+} from './oidc';
+import { createTokenStore, type TokenStorageMode, type TokenStore } from './tokenStore';
+import { getDeviceToken, removeDeviceToken, saveDeviceToken } from './deviceTokens';
 
 const API_BASE_URL = '/api';
 
+// Where tokens are kept - replaced at startup by configureTokenStorage
+let tokenStore: TokenStore = createTokenStore('localStorage');
+
 // Create axios instance with default config
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
@@ -12,116 +64,441 @@ const apiClient = axios.create({
   },
 });
 
-// Login API function
-export const login = async (credentials: LoginCredentials): Promise<LoginResponse> => {
-  try {
-    const response = await apiClient.post<LoginResponse>('/auth/login', credentials);
-    return response.data;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError<ApiError>;
-      
-      // Network error (no response)
-      if (!axiosError.response) {
-        if (axiosError.code === 'ECONNABORTED') {
-          throw {
-            status: 0,
-            data: {
-              error: 'timeout_error',
-              message: 'Request timed out',
-            },
-          };
-        }
-        throw {
-          status: 0,
-          data: {
-            error: 'network_error',
-            message: 'Network error occurred',
-          },
-        };
+// Separate instance for token refresh so it bypasses the refresh interceptor
+const refreshClient = axios.create({
+  baseURL: API_BASE_URL,
+  timeout: 10000,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Choose the token store. Call once before rendering the app.
+export const configureTokenStorage = (mode: TokenStorageMode): void => {
+  tokenStore = createTokenStore(mode);
+
+  // Cookie mode: ask the server to set httpOnly cookies instead of returning tokens
+  for (const client of [apiClient, refreshClient]) {
+    client.defaults.withCredentials = tokenStore.serverManaged;
+    if (tokenStore.serverManaged) {
+      client.defaults.headers.common['X-Token-Delivery'] = 'cookie';
+    } else {
+      delete client.defaults.headers.common['X-Token-Delivery'];
+    }
+  }
+};
+
+export const getTokenStorage = (): TokenStore => tokenStore;
+
+// Runs the step-up challenge in the UI. Resolves with an elevated token, or
+// rejects when the user cancels.
+export type StepUpHandler = (methods: StepUpMethod[]) => Promise<StepUpResponse>;
+
+let stepUpHandler: StepUpHandler | null = null;
+
+// Elevated token from the last step-up, sent until it expires
+let stepUpToken: { token: string; expiresAt: number } | null = null;
+
+// Attach the access token (and a live step-up token) to authenticated requests
+apiClient.interceptors.request.use((config) => {
+  const token = getToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  if (stepUpToken && stepUpToken.expiresAt > Date.now()) {
+    config.headers['X-Step-Up-Token'] = stepUpToken.token;
+  }
+  return config;
+});
+
+// Retry marks live on the request config. axios copies the config for a retry,
+// so the retried request carries the mark along - its object identity does not.
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  // Already retried after a refresh - never refresh twice for one request
+  _retry?: boolean;
+  // Already retried after a step-up - a second 403 is passed on
+  _steppedUp?: boolean;
+}
+
+// In-flight refresh shared by all requests that hit a 401 at the same time
+let refreshPromise: Promise<AuthTokens> | null = null;
+
+// Exchange the refresh token for a new token pair (single-flight)
+const refreshTokens = (): Promise<AuthTokens> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken && !tokenStore.serverManaged) {
+        throw new ApiClientError({ status: 401, rawCode: 'invalid_refresh_token', message: 'No refresh token' });
       }
-      
-      // Server responded with error
-      throw {
-        status: axiosError.response.status,
-        data: axiosError.response.data,
-      };
+      try {
+        const request: RefreshTokenRequest = refreshToken ? { refreshToken } : {};
+        const response = await refreshClient.post<AuthTokens>('/auth/refresh', request);
+        // Keep the tokens wherever the current session lives
+        tokenStore.save(response.data);
+        return response.data;
+      } catch (error) {
+        throw normalizeApiError(error);
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Challenge shared by all requests that hit a 403 step_up_required at the same time
+let stepUpPromise: Promise<void> | null = null;
+
+// Ask the registered handler for an elevated token (single-flight)
+const stepUp = (methods: StepUpMethod[]): Promise<void> => {
+  if (!stepUpPromise) {
+    const handler = stepUpHandler;
+    if (!handler) {
+      return Promise.reject(new Error('No step-up handler is registered'));
     }
-    
-    // Unknown error
-    throw {
-      status: 0,
-      data: {
-        error: 'unknown_error',
-        message: 'An unexpected error occurred',
-      },
-    };
+    stepUpPromise = handler(methods)
+      .then((response) => {
+        stepUpToken = { token: response.stepUpToken, expiresAt: Date.now() + response.expiresIn * 1000 };
+      })
+      .finally(() => {
+        stepUpPromise = null;
+      });
   }
+  return stepUpPromise;
 };
 
-// Verify 2FA code API function
-export const verify2FA = async (credentials: Verify2FACredentials): Promise<Verify2FAResponse> => {
-  try {
-    const response = await apiClient.post<Verify2FAResponse>('/auth/verify-2fa', credentials);
-    return response.data;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError<ApiError>;
-      
-      // Network error (no response)
-      if (!axiosError.response) {
-        if (axiosError.code === 'ECONNABORTED') {
-          throw {
-            status: 0,
-            data: {
-              error: 'timeout_error',
-              message: 'Request timed out',
-            },
-          };
-        }
-        throw {
-          status: 0,
-          data: {
-            error: 'network_error',
-            message: 'Network error occurred',
-          },
-        };
+// Every failed request rejects with an ApiClientError.
+// A 401 while signed in triggers a silent refresh and one retry; a 403
+// step_up_required runs the step-up challenge and retries once.
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const apiError = normalizeApiError(error);
+    const config: RetryableRequestConfig | undefined = axios.isAxiosError(error) ? error.config : undefined;
+
+    if (apiError.code === 'step_up_required' && config && stepUpHandler && !config._steppedUp) {
+      config._steppedUp = true;
+      try {
+        await stepUp(apiError.stepUpMethods ?? ['password']);
+      } catch {
+        // Cancelled - the request fails with the original error
+        throw apiError;
       }
-      
-      // Server responded with error
-      throw {
-        status: axiosError.response.status,
-        data: axiosError.response.data,
-      };
+      // The request interceptor attaches the elevated token
+      return apiClient(config);
+    }
+
+    const isSessionError = apiError.code === 'token_expired' || apiError.code === 'unauthorized';
+    if (!config || !isSessionError || !tokenStore.hasSession() || config._retry) {
+      throw apiError;
+    }
+
+    config._retry = true;
+    try {
+      await refreshTokens();
+    } catch (refreshError) {
+      // Refresh failed - the session is over
+      removeToken();
+      notifySessionExpired();
+      throw normalizeApiError(refreshError);
     }
-    
-    // Unknown error
-    throw {
-      status: 0,
-      data: {
-        error: 'unknown_error',
-        message: 'An unexpected error occurred',
-      },
-    };
+    // The request interceptor attaches the new access token
+    return apiClient(config);
   }
+);
+
+// "Remember me" from the last sign-in attempt, applied when its tokens arrive
+let pendingRememberMe: boolean | undefined;
+
+// Identifier-first sign-in: ask how an email address signs in
+export const discoverLoginMethod = async (request: DiscoverLoginRequest): Promise<DiscoverLoginResponse> => {
+  const response = await apiClient.post<DiscoverLoginResponse>('/auth/discover', request);
+  return response.data;
+};
+
+// Login API function. A trusted device's token is sent along so the server can skip 2FA.
+export const login = async (credentials: LoginCredentials): Promise<LoginResponse> => {
+  pendingRememberMe = credentials.rememberMe;
+  const deviceToken = credentials.deviceToken ?? getDeviceToken(credentials.email);
+  const response = await apiClient.post<LoginResponse>('/auth/login', { ...credentials, deviceToken });
+  // Asked for 2FA anyway - the device was revoked or its trust ran out
+  if (deviceToken && response.data.requires2FA) {
+    removeDeviceToken(credentials.email);
+  }
+  return response.data;
+};
+
+// Create an account - it stays pending until the emailed code is confirmed
+export const register = async (request: RegisterRequest): Promise<RegisterResponse> => {
+  const response = await apiClient.post<RegisterResponse>('/auth/register', request);
+  return response.data;
+};
+
+// Confirm the sign-up email with the code (or link) from the verification email
+export const verifyEmail = async (request: VerifyEmailRequest): Promise<VerifyEmailResponse> => {
+  const response = await apiClient.post<VerifyEmailResponse>('/auth/register/verify', request);
+  return response.data;
+};
+
+// Send the verification email again - invalidates the previous code
+export const resendVerificationEmail = async (
+  request: ResendVerificationEmailRequest
+): Promise<RegisterResponse> => {
+  const response = await apiClient.post<RegisterResponse>('/auth/register/resend', request);
+  return response.data;
+};
+
+// Email a password reset link. Succeeds whether or not the email has an account.
+export const requestPasswordReset = async (
+  request: RequestPasswordResetRequest
+): Promise<RequestPasswordResetResponse> => {
+  const response = await apiClient.post<RequestPasswordResetResponse>('/auth/password/forgot', request);
+  return response.data;
 };
 
-// Save token to localStorage
-export const saveToken = (token: string): void => {
-  localStorage.setItem('auth_token', token);
+// Set a new password with the token from the reset link.
+// The server revokes every session of the account.
+export const resetPassword = async (request: ResetPasswordRequest): Promise<void> => {
+  await apiClient.post('/auth/password/reset', request);
+};
+
+// Token for the local test challenge widget - stands in for a CAPTCHA provider
+export const getLocalChallengeToken = async (): Promise<LocalChallengeResponse> => {
+  const response = await apiClient.post<LocalChallengeResponse>('/auth/challenge/local');
+  return response.data;
+};
+
+// Get the signed-in user - used to restore the session on page load
+export const getCurrentUser = async (): Promise<CurrentUserResponse> => {
+  const response = await apiClient.get<CurrentUserResponse>('/auth/me');
+  return response.data;
+};
+
+// Revoke the session on the server and sign out every tab.
+// Never rejects - the local sign-out happens even if the server can't be reached.
+export const logout = async (): Promise<void> => {
+  const request: LogoutRequest = { refreshToken: getRefreshToken() ?? undefined };
+  try {
+    await apiClient.post('/auth/logout', request);
+  } catch {
+    // The session ends here either way; the server's copy expires on its own
+  } finally {
+    signOut();
+  }
 };
 
-// Get token from localStorage
+// Verify 2FA code API function
+export const verify2FA = async (credentials: Verify2FACredentials): Promise<Verify2FAResponse> => {
+  const response = await apiClient.post<Verify2FAResponse>('/auth/verify-2fa', credentials);
+  if (response.data.deviceToken) {
+    saveDeviceToken(response.data.user.email, response.data.deviceToken);
+  }
+  return response.data;
+};
+
+// Verify a one-time recovery code instead of a TOTP code
+export const verifyRecoveryCode = async (credentials: VerifyRecoveryCodeCredentials): Promise<Verify2FAResponse> => {
+  const response = await apiClient.post<Verify2FAResponse>('/auth/verify-recovery', credentials);
+  return response.data;
+};
+
+// Send a 2FA code by SMS or email
+export const send2FACode = async (request: Send2FACodeRequest): Promise<Send2FACodeResponse> => {
+  const response = await apiClient.post<Send2FACodeResponse>('/auth/2fa/send', request);
+  return response.data;
+};
+
+// Start authenticator enrollment - returns a fresh TOTP secret for the QR code
+export const start2FAEnrollment = async (
+  request: Start2FAEnrollmentRequest
+): Promise<Start2FAEnrollmentResponse> => {
+  const response = await apiClient.post<Start2FAEnrollmentResponse>('/auth/2fa/enroll', request);
+  return response.data;
+};
+
+// Confirm authenticator enrollment with a first code - returns recovery codes
+export const confirm2FAEnrollment = async (
+  credentials: Confirm2FAEnrollmentCredentials
+): Promise<Confirm2FAEnrollmentResponse> => {
+  const response = await apiClient.post<Confirm2FAEnrollmentResponse>('/auth/2fa/enroll/confirm', credentials);
+  return response.data;
+};
+
+// Get a WebAuthn challenge for passkey sign-in
+export const getPasskeyLoginOptions = async (): Promise<PasskeyAuthenticationOptions> => {
+  const response = await apiClient.post<PasskeyAuthenticationOptions>('/auth/passkey/login/options');
+  return response.data;
+};
+
+// Verify a passkey assertion - completes sign-in without password or 2FA
+export const verifyPasskeyLogin = async (request: PasskeyLoginRequest): Promise<LoginResponse> => {
+  const response = await apiClient.post<LoginResponse>('/auth/passkey/login', request);
+  return response.data;
+};
+
+// Get WebAuthn creation options for the signed-in user
+export const getPasskeyRegistrationOptions = async (): Promise<PasskeyRegistrationOptions> => {
+  const response = await apiClient.post<PasskeyRegistrationOptions>('/auth/passkey/register/options');
+  return response.data;
+};
+
+// Store a newly created passkey for the signed-in user
+export const verifyPasskeyRegistration = async (
+  request: PasskeyRegistrationRequest
+): Promise<PasskeyRegistrationResponse> => {
+  const response = await apiClient.post<PasskeyRegistrationResponse>('/auth/passkey/register', request);
+  return response.data;
+};
+
+// Full passkey sign-in ceremony (navigator.credentials.get)
+export const loginWithPasskey = async (rememberMe?: boolean): Promise<LoginResponse> => {
+  pendingRememberMe = rememberMe;
+  const options = await getPasskeyLoginOptions();
+  const credential = await getPasskeyAssertion(options);
+  return verifyPasskeyLogin({ challengeId: options.challengeId, credential, rememberMe });
+};
+
+// Full passkey registration ceremony (navigator.credentials.create)
+export const registerPasskey = async (): Promise<PasskeyRegistrationResponse> => {
+  const options = await getPasskeyRegistrationOptions();
+  const credential = await createPasskeyCredential(options);
+  return verifyPasskeyRegistration({ challengeId: options.challengeId, credential });
+};
+
+// Confirm the signed-in user's identity again for a short-lived elevated token
+export const verifyStepUp = async (request: StepUpRequest): Promise<StepUpResponse> => {
+  const response = await apiClient.post<StepUpResponse>('/auth/step-up', request);
+  return response.data;
+};
+
+// Register the UI that runs step-up challenges - returns an unregister function
+export const setStepUpHandler = (handler: StepUpHandler): (() => void) => {
+  stepUpHandler = handler;
+  return () => {
+    if (stepUpHandler === handler) stepUpHandler = null;
+  };
+};
+
+// Replace the signed-in user's recovery codes. Requires a step-up.
+export const regenerateRecoveryCodes = async (): Promise<RegenerateRecoveryCodesResponse> => {
+  const response = await apiClient.post<RegenerateRecoveryCodesResponse>('/auth/2fa/recovery-codes');
+  return response.data;
+};
+
+// Devices of the signed-in user that skip 2FA. This browser's token, if any,
+// lets the server mark the current device.
+export const getTrustedDevices = async (email: string): Promise<TrustedDevicesResponse> => {
+  const deviceToken = getDeviceToken(email);
+  const response = await apiClient.get<TrustedDevicesResponse>('/auth/devices', {
+    headers: deviceToken ? { 'X-Device-Token': deviceToken } : undefined,
+  });
+  return response.data;
+};
+
+// Stop trusting a device - it needs 2FA on its next sign-in
+export const revokeTrustedDevice = async (deviceId: string): Promise<void> => {
+  await apiClient.delete(`/auth/devices/${encodeURIComponent(deviceId)}`);
+};
+
+// Start OpenID Connect sign-in. Resolves with the provider's authorization URL,
+// which the caller opens with a full-page redirect.
+export const startOidcLogin = (provider: OidcProvider, options: OidcAuthorizationOptions): Promise<string> => {
+  return createAuthorizationUrl(provider, options);
+};
+
+// Finish OpenID Connect sign-in on the callback route: check the provider's
+// response, then exchange the verified ID token for a session
+export const completeOidcLogin = async (params: URLSearchParams): Promise<OidcLoginResult> => {
+  const { provider, idToken, returnTo, rememberMe } = await handleAuthorizationResponse(params);
+  pendingRememberMe = rememberMe;
+  const request: OidcLoginRequest = { provider: provider.id, idToken, rememberMe };
+  const response = await apiClient.post<LoginResponse>('/auth/oidc/login', request);
+  return { response: response.data, returnTo };
+};
+
+// Save tokens from a completed sign-in
+export const saveTokens = (tokens: AuthTokens): void => {
+  tokenStore.save(tokens, pendingRememberMe ?? false);
+  pendingRememberMe = undefined;
+  // An elevated token belongs to the session it was issued in
+  stepUpToken = null;
+};
+
+// Get access token (null in cookie mode)
 export const getToken = (): string | null => {
-  return localStorage.getItem('auth_token');
+  return tokenStore.getAccessToken();
 };
 
-// Remove token from localStorage
+// Get refresh token (null in cookie mode)
+export const getRefreshToken = (): string | null => {
+  return tokenStore.getRefreshToken();
+};
+
+// Forget the session in this tab, along with any step-up
 export const removeToken = (): void => {
-  localStorage.removeItem('auth_token');
+  tokenStore.clear();
+  stepUpToken = null;
 };
 
 // Check if user is authenticated
 export const isAuthenticated = (): boolean => {
-  return !!getToken();
+  return tokenStore.hasSession();
+};
+
+// Listeners for a session that ended because the refresh token was rejected
+const sessionExpiredListeners = new Set<() => void>();
+
+const notifySessionExpired = () => {
+  sessionExpiredListeners.forEach((listener) => listener());
+};
+
+// Subscribe to session expiry - returns an unsubscribe function
+export const onSessionExpired = (listener: () => void): (() => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+// Cross-tab sign-out. BroadcastChannel reaches every tab whatever the storage
+// mode; browsers without it fall back to the `storage` event on a marker key.
+const SIGN_OUT_CHANNEL = 'auth';
+const SIGN_OUT_KEY = 'auth_signed_out_at';
+
+const signOutChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SIGN_OUT_CHANNEL) : null;
+
+const signedOutElsewhereListeners = new Set<() => void>();
+
+const handleSignedOutElsewhere = () => {
+  removeToken();
+  signedOutElsewhereListeners.forEach((listener) => listener());
+};
+
+if (signOutChannel) {
+  signOutChannel.addEventListener('message', (event: MessageEvent) => {
+    if (event.data === 'signed-out') handleSignedOutElsewhere();
+  });
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === SIGN_OUT_KEY && event.newValue) handleSignedOutElsewhere();
+  });
+}
+
+// Sign out of this tab and every other open tab
+export const signOut = (): void => {
+  removeToken();
+  if (signOutChannel) {
+    signOutChannel.postMessage('signed-out');
+  } else {
+    localStorage.setItem(SIGN_OUT_KEY, String(Date.now()));
+  }
+};
+
+// Subscribe to sign-outs from other tabs - returns an unsubscribe function
+export const onSignedOutElsewhere = (listener: () => void): (() => void) => {
+  signedOutElsewhereListeners.add(listener);
+  return () => {
+    signedOutElsewhereListeners.delete(listener);
+  };
 };
@@ -0,0 +1,38 @@
+// Device tokens from "Trust this device" on the 2FA step, keyed by email so
+// several accounts can share a browser. They outlive sessions, so they stay in
+// localStorage whatever the token storage mode.
+const STORAGE_KEY = 'trusted_device_tokens';
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const loadDeviceTokens = (): Record<string, string> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveDeviceTokens = (tokens: Record<string, string>) => {
+  if (Object.keys(tokens).length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+  }
+};
+
+export const getDeviceToken = (email: string): string | undefined => {
+  return loadDeviceTokens()[normalizeEmail(email)];
+};
+
+export const saveDeviceToken = (email: string, token: string): void => {
+  saveDeviceTokens({ ...loadDeviceTokens(), [normalizeEmail(email)]: token });
+};
+
+// Forget a token the server no longer honours, or a device that was revoked
+export const removeDeviceToken = (email: string): void => {
+  const tokens = loadDeviceTokens();
+  delete tokens[normalizeEmail(email)];
+  saveDeviceTokens(tokens);
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { formatMessage, MESSAGES, type Translate } from '../i18n';
+import { getErrorMessage } from './errorMessages';
+import { ApiClientError } from './errors';
+
+const t: Translate = (id, values) => formatMessage('en', MESSAGES.en[id], values).join('');
+
+describe('getErrorMessage', () => {
+  it('uses the message for the code', () => {
+    const error = new ApiClientError({ status: 404, rawCode: 'user_not_found', message: 'User does not exist' });
+
+    expect(getErrorMessage(error, 'login', t)).toBe('User not found.');
+  });
+
+  it('prefers a message for the screen', () => {
+    const error = new ApiClientError({ status: 401, rawCode: 'unauthorized', message: 'Unauthorized' });
+
+    expect(getErrorMessage(error, 'login', t)).toBe('Incorrect email or password.');
+    expect(getErrorMessage(error, 'twoFactor', t)).toBe(t('error.unauthorized'));
+  });
+
+  it('includes the wait', () => {
+    const error = new ApiClientError({ status: 429, rawCode: 'rate_limited', message: 'Slow down', retryAfter: 27 });
+
+    expect(getErrorMessage(error, 'twoFactor', t)).toBe('Too many code requests. Please try again in 27s.');
+    expect(getErrorMessage(error, 'passwordReset', t)).toBe('Too many email requests. Please try again in 27s.');
+  });
+
+  it('shows the server message for codes the client does not know', () => {
+    const error = new ApiClientError({ status: 403, rawCode: 'account_suspended', message: 'Account suspended' });
+
+    expect(getErrorMessage(error, 'login', t)).toBe('Account suspended');
+  });
+
+  it('falls back to a generic message without a response', () => {
+    const error = new ApiClientError({ status: 0, rawCode: 'unknown_error', message: 'An unexpected error occurred' });
+
+    expect(getErrorMessage(error, 'login', t)).toBe('An unexpected error occurred. Please try again.');
+  });
+});
@@ -0,0 +1,29 @@
+import type { ApiClientError } from './errors';
+import { isMessageId, type Translate } from '../i18n';
+
+// Where the error is shown - some codes read differently per screen
+export type ErrorMessageContext =
+  | 'login'
+  | 'twoFactor'
+  | 'enrollment'
+  | 'passkeyRegistration'
+  | 'trustedDevices'
+  | 'recoveryCodes'
+  | 'stepUp'
+  | 'oidc'
+  | 'signUp'
+  | 'emailVerification'
+  | 'passwordReset';
+
+// User-facing message for an API error, from the `error.*` catalog messages.
+// A `error.<code>.<context>` message overrides `error.<code>` on that screen.
+export const getErrorMessage = (error: ApiClientError, context: ErrorMessageContext, t: Translate): string => {
+  // Unrecognized codes keep the server's message
+  if (error.code === 'unknown_error' && error.status !== 0 && error.message) {
+    return error.message;
+  }
+
+  const contextId = `error.${error.code}.${context}`;
+  const values = { retryAfter: error.retryAfter ?? 0 };
+  return isMessageId(contextId) ? t(contextId, values) : t(`error.${error.code}`, values);
+};
@@ -0,0 +1,207 @@
+import axios, { AxiosError } from 'axios';
+import type { ApiError, ApiErrorCode, ApiFieldErrors, StepUpMethod } from './types';
+
+// Every known error code - the Record type makes the compiler flag missing entries
+const KNOWN_ERROR_CODES: Record<ApiErrorCode, true> = {
+  invalid_credentials: true,
+  user_not_found: true,
+  server_error: true,
+  network_error: true,
+  timeout_error: true,
+  unknown_error: true,
+  invalid_2fa_code: true,
+  '2fa_expired': true,
+  already_enrolled: true,
+  enrollment_not_started: true,
+  enrollment_required: true,
+  invalid_recovery_code: true,
+  code_expired: true,
+  rate_limited: true,
+  method_unavailable: true,
+  unauthorized: true,
+  token_expired: true,
+  invalid_refresh_token: true,
+  passkey_challenge_expired: true,
+  passkey_invalid: true,
+  passkey_not_found: true,
+  passkey_cancelled: true,
+  passkey_already_registered: true,
+  passkey_not_supported: true,
+  passkey_failed: true,
+  oidc_cancelled: true,
+  oidc_state_mismatch: true,
+  oidc_invalid_token: true,
+  oidc_failed: true,
+  sso_required: true,
+  discovery_expired: true,
+  email_taken: true,
+  weak_password: true,
+  invalid_verification_code: true,
+  verification_expired: true,
+  reset_token_invalid: true,
+  reset_token_expired: true,
+  too_many_attempts: true,
+  account_locked: true,
+  challenge_required: true,
+  step_up_required: true,
+  validation_failed: true,
+};
+
+export const isApiErrorCode = (value: string): value is ApiErrorCode => {
+  return Object.hasOwn(KNOWN_ERROR_CODES, value);
+};
+
+// Errors worth retrying without user changes
+const RETRYABLE_CODES: ApiErrorCode[] = [
+  'network_error',
+  'timeout_error',
+  'server_error',
+  'rate_limited',
+  'too_many_attempts',
+];
+
+interface ApiClientErrorOptions {
+  status: number;
+  // Code as sent by the server, preserved even when the client doesn't know it
+  rawCode: string;
+  message: string;
+  retryAfter?: number;
+  attemptsRemaining?: number;
+  challengeRequired?: boolean;
+  fieldErrors?: ApiFieldErrors;
+  stepUpMethods?: StepUpMethod[];
+  requestId?: string;
+  cause?: unknown;
+}
+
+// Single error type thrown by every API function
+export class ApiClientError extends Error {
+  // HTTP status, 0 when no response was received
+  readonly status: number;
+  // Known error code, 'unknown_error' when the server sent an unrecognized one
+  readonly code: ApiErrorCode;
+  readonly rawCode: string;
+  readonly retryable: boolean;
+  // Seconds to wait before retrying, from Retry-After or the response body
+  readonly retryAfter?: number;
+  // Brute-force protection state sent with failed sign-in attempts
+  readonly attemptsRemaining?: number;
+  readonly challengeRequired?: boolean;
+  // Per-field messages from server-side validation
+  readonly fieldErrors?: ApiFieldErrors;
+  // Ways to confirm identity offered with step_up_required
+  readonly stepUpMethods?: StepUpMethod[];
+  readonly requestId?: string;
+
+  constructor({
+    status,
+    rawCode,
+    message,
+    retryAfter,
+    attemptsRemaining,
+    challengeRequired,
+    fieldErrors,
+    stepUpMethods,
+    requestId,
+    cause,
+  }: ApiClientErrorOptions) {
+    super(message, { cause });
+    this.name = 'ApiClientError';
+    this.status = status;
+    this.rawCode = rawCode;
+    this.code = isApiErrorCode(rawCode) ? rawCode : 'unknown_error';
+    this.retryable = RETRYABLE_CODES.includes(this.code) || status >= 500;
+    this.retryAfter = retryAfter;
+    this.attemptsRemaining = attemptsRemaining;
+    this.challengeRequired = challengeRequired;
+    this.fieldErrors = fieldErrors;
+    this.stepUpMethods = stepUpMethods;
+    this.requestId = requestId;
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (header: unknown, body?: number): number | undefined => {
+  if (typeof header === 'string' && header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+  return body;
+};
+
+// Keep only well-formed entries of a `fields` body: field name -> list of messages
+const parseFieldErrors = (fields: unknown): ApiFieldErrors | undefined => {
+  if (!fields || typeof fields !== 'object') return undefined;
+
+  const entries = Object.entries(fields).filter(
+    (entry): entry is [string, string[]] =>
+      Array.isArray(entry[1]) && entry[1].length > 0 && entry[1].every((message) => typeof message === 'string')
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const STEP_UP_METHODS: StepUpMethod[] = ['password', 'totp'];
+
+// Keep only the step-up methods this client can run, in the server's order of preference
+const parseStepUpMethods = (methods: unknown): StepUpMethod[] | undefined => {
+  if (!Array.isArray(methods)) return undefined;
+  const known = methods.filter((method): method is StepUpMethod => STEP_UP_METHODS.includes(method));
+  return known.length > 0 ? known : undefined;
+};
+
+// Fallback codes for responses without a recognizable error body
+const codeForStatus = (status: number): string => {
+  if (status === 401) return 'unauthorized';
+  if (status === 422) return 'validation_failed';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  return 'unknown_error';
+};
+
+// Convert anything thrown by axios (or elsewhere) into an ApiClientError
+export const normalizeApiError = (error: unknown): ApiClientError => {
+  if (error instanceof ApiClientError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError<Partial<ApiError>>;
+
+    // Network error (no response)
+    if (!axiosError.response) {
+      const isTimeout = axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT';
+      return new ApiClientError({
+        status: 0,
+        rawCode: isTimeout ? 'timeout_error' : 'network_error',
+        message: isTimeout ? 'Request timed out' : 'Network error occurred',
+        cause: error,
+      });
+    }
+
+    // Server responded with error
+    const { status, data, headers } = axiosError.response;
+    const body = data && typeof data === 'object' ? data : {};
+    return new ApiClientError({
+      status,
+      rawCode: typeof body.error === 'string' ? body.error : codeForStatus(status),
+      message: body.message ?? axiosError.message,
+      retryAfter: parseRetryAfter(headers['retry-after'], body.retryAfter),
+      attemptsRemaining: typeof body.attemptsRemaining === 'number' ? body.attemptsRemaining : undefined,
+      challengeRequired: typeof body.challengeRequired === 'boolean' ? body.challengeRequired : undefined,
+      fieldErrors: parseFieldErrors(body.fields),
+      stepUpMethods: parseStepUpMethods(body.stepUpMethods),
+      requestId: typeof headers['x-request-id'] === 'string' ? headers['x-request-id'] : undefined,
+      cause: error,
+    });
+  }
+
+  // Unknown error
+  return new ApiClientError({
+    status: 0,
+    rawCode: 'unknown_error',
+    message: 'An unexpected error occurred',
+    cause: error,
+  });
+};
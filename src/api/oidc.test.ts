@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import axios from 'axios';
+import { http, HttpResponse } from 'msw';
+import { server } from '../mocks/node';
+import { completeOidcLogin, startOidcLogin } from './auth';
+import { ApiClientError } from './errors';
+import type { OidcProvider } from './oidc';
+import {
+  MOCK_IDP_CLIENT,
+  MOCK_IDP_CONFIG,
+  MOCK_IDP_USERS,
+  type MockAuthorizeRequest,
+  type MockAuthorizeResponse,
+} from '../mocks/identityProvider';
+
+const PROVIDER: OidcProvider = {
+  id: 'google',
+  name: 'Google',
+  issuer: `${window.location.origin}/mock-idp/google`,
+  clientId: MOCK_IDP_CLIENT.clientId,
+};
+
+const REDIRECT_URI = `${window.location.origin}${MOCK_IDP_CLIENT.redirectPath}`;
+
+const [APP_USER, STRANGER] = MOCK_IDP_USERS;
+
+// Stand-in for the provider's login page: choose an account (or cancel) and
+// return the query string the provider sends the browser back with
+const authorize = async (authorizationUrl: string, sub?: string): Promise<URLSearchParams> => {
+  const url = new URL(authorizationUrl);
+  const request: MockAuthorizeRequest = { params: Object.fromEntries(url.searchParams), sub };
+  const response = await axios.post<MockAuthorizeResponse>(url.href, request);
+  return new URL(response.data.redirectTo).searchParams;
+};
+
+const callbackError = async (params: URLSearchParams): Promise<ApiClientError> => {
+  const error = await completeOidcLogin(params).catch((reason: unknown) => reason);
+  expect(error).toBeInstanceOf(ApiClientError);
+  return error as ApiClientError;
+};
+
+afterEach(() => {
+  MOCK_IDP_CONFIG.idTokenTtl = 5 * 60;
+});
+
+describe('OpenID Connect sign-in', () => {
+  it('signs in with a PKCE authorization code and a verified ID token', async () => {
+    const authorizationUrl = await startOidcLogin(PROVIDER, { redirectUri: REDIRECT_URI, returnTo: '/account?tab=security' });
+    const url = new URL(authorizationUrl);
+    expect(url.pathname).toBe('/mock-idp/google/authorize');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('state')).toBeTruthy();
+    expect(url.searchParams.get('nonce')).toBeTruthy();
+
+    const result = await completeOidcLogin(await authorize(authorizationUrl, APP_USER.sub));
+    expect(result.response.user.email).toBe('test@example.com');
+    expect(result.response.requires2FA).toBe(false);
+    expect(result.returnTo).toBe('/account?tab=security');
+  });
+
+  it('rejects a callback whose state does not match the sign-in', async () => {
+    const params = await authorize(await startOidcLogin(PROVIDER, { redirectUri: REDIRECT_URI }), APP_USER.sub);
+    params.set('state', 'forged');
+
+    const error = await callbackError(params);
+    expect(error.code).toBe('oidc_state_mismatch');
+  });
+
+  it('accepts a callback only once', async () => {
+    const params = await authorize(await startOidcLogin(PROVIDER, { redirectUri: REDIRECT_URI }), APP_USER.sub);
+    await completeOidcLogin(params);
+
+    const error = await callbackError(params);
+    expect(error.code).toBe('oidc_state_mismatch');
+  });
+
+  it('reports a sign-in cancelled at the provider', async () => {
+    const params = await authorize(await startOidcLogin(PROVIDER, { redirectUri: REDIRECT_URI }));
+
+    const error = await callbackError(params);
+    expect(error.code).toBe('oidc_cancelled');
+  });
+
+  it('rejects an ID token issued for another sign-in', async () => {
+    const params = await authorize(await startOidcLogin(PROVIDER, { redirectUri: REDIRECT_URI }), APP_USER.sub);
+    // The stored nonce no longer matches the one the provider put in the token
+    const transaction = JSON.parse(sessionStorage.getItem('oidc_transaction') ?? '{}');
+    sessionStorage.setItem('oidc_transaction', JSON.stringify({ ...transaction, nonce: 'replayed' }));
+
+    const error = await callbackError(params);
+    expect(error.code).toBe('oidc_invalid_token');
+    expect(error.message).toMatch(/nonce/);
+  });
+
+  it('rejects an expired ID token', async () => {
+    MOCK_IDP_CONFIG.idTokenTtl = -5 * 60;
+    const params = await authorize(await startOidcLogin(PROVIDER, { redirectUri: REDIRECT_URI }), APP_USER.sub);
+
+    const error = await callbackError(params);
+    expect(error.code).toBe('oidc_invalid_token');
+    expect(error.message).toMatch(/expired/);
+  });
+
+  it('rejects an ID token when the provider publishes a broken key', async () => {
+    const params = await authorize(await startOidcLogin(PROVIDER, { redirectUri: REDIRECT_URI }), APP_USER.sub);
+    server.use(
+      http.get('/mock-idp/:provider/jwks', () =>
+        HttpResponse.json({ keys: [{ kty: 'RSA', n: 'AQAB', kid: 'mock-idp-key-1' }] })
+      )
+    );
+
+    const error = await callbackError(params);
+    expect(error.code).toBe('oidc_invalid_token');
+    expect(error.message).toMatch(/could not be checked/);
+  });
+
+  it('reports a provider account with no app account', async () => {
+    const params = await authorize(await startOidcLogin(PROVIDER, { redirectUri: REDIRECT_URI }), STRANGER.sub);
+
+    const error = await callbackError(params);
+    expect(error.status).toBe(404);
+    expect(error.code).toBe('user_not_found');
+  });
+});
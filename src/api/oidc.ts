@@ -0,0 +1,314 @@
+import axios from 'axios';
+import { ApiClientError, normalizeApiError } from './errors';
+import { base64UrlDecode, base64UrlEncode } from './webauthn';
+import type { ApiErrorCode } from './types';
+
+// OpenID Connect client for browser sign-in: authorization code flow with PKCE,
+// state and nonce. The ID token is checked here before it is sent to the API.
+
+// An identity provider offered on the login card
+export interface OidcProvider {
+  // Stable id, sent to the API along with the ID token
+  id: string;
+  // Shown as "Continue with {name}"
+  name: string;
+  // The discovery document is read from {issuer}/.well-known/openid-configuration
+  issuer: string;
+  clientId: string;
+  // Space-separated, "openid email profile" by default
+  scope?: string;
+}
+
+// Discovery document fields this client uses
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  code_challenge_methods_supported?: string[];
+  id_token_signing_alg_values_supported?: string[];
+}
+
+export interface OidcTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  id_token?: string;
+}
+
+export interface OidcJsonWebKeySet {
+  keys: (JsonWebKey & { kid?: string })[];
+}
+
+// ID token claims checked or used by the app
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+export interface OidcAuthorizationOptions {
+  // Absolute URL of the callback route, registered with the provider
+  redirectUri: string;
+  // Where to go once signed in
+  returnTo?: string;
+  rememberMe?: boolean;
+  // Email already entered, so the provider can skip asking for it
+  loginHint?: string;
+}
+
+// Verified outcome of the provider's redirect back to the app
+export interface OidcAuthorizationResult {
+  provider: OidcProvider;
+  idToken: string;
+  claims: IdTokenClaims;
+  returnTo?: string;
+  rememberMe?: boolean;
+}
+
+// Sign-in in progress, kept in sessionStorage across the redirect to the provider
+interface OidcTransaction extends OidcAuthorizationOptions {
+  provider: OidcProvider;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  createdAt: number;
+}
+
+const DEFAULT_SCOPE = 'openid email profile';
+const TRANSACTION_KEY = 'oidc_transaction';
+// A sign-in left at the provider longer than this has to start over
+const TRANSACTION_TTL = 10 * 60 * 1000;
+// Seconds of clock difference tolerated when checking exp and iat
+const CLOCK_SKEW = 60;
+
+// Provider endpoints are absolute URLs outside the API
+const providerClient = axios.create({ timeout: 10000 });
+
+const oidcError = (rawCode: ApiErrorCode, message: string, cause?: unknown): ApiClientError => {
+  return new ApiClientError({ status: 0, rawCode, message, cause });
+};
+
+// Network problems keep their codes; OAuth error bodies ({ error, error_description }) become oidc_failed
+const toProviderError = (error: unknown): ApiClientError => {
+  const apiError = normalizeApiError(error);
+  if (apiError.status === 0) return apiError;
+  return new ApiClientError({
+    status: apiError.status,
+    rawCode: 'oidc_failed',
+    message: `Identity provider error: ${apiError.rawCode}`,
+    cause: error,
+  });
+};
+
+const randomValue = (): string => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+// S256 PKCE challenge for a code verifier (RFC 7636)
+export const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(digest);
+};
+
+const discoveryCache = new Map<string, Promise<OidcDiscoveryDocument>>();
+
+// Provider metadata, fetched once per issuer
+export const getDiscoveryDocument = (issuer: string): Promise<OidcDiscoveryDocument> => {
+  let discovery = discoveryCache.get(issuer);
+  if (!discovery) {
+    discovery = (async () => {
+      let document: OidcDiscoveryDocument;
+      try {
+        const response = await providerClient.get<OidcDiscoveryDocument>(
+          `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+        );
+        document = response.data;
+      } catch (error) {
+        throw toProviderError(error);
+      }
+      // The document must describe the issuer it was fetched for
+      if (document.issuer !== issuer) {
+        throw oidcError('oidc_failed', `Discovery document is for ${document.issuer}, expected ${issuer}`);
+      }
+      return document;
+    })();
+    discoveryCache.set(issuer, discovery);
+    // Try again on the next sign-in rather than caching a failure
+    discovery.catch(() => discoveryCache.delete(issuer));
+  }
+  return discovery;
+};
+
+// The stored sign-in, removed as it is read - a callback URL works once
+const takeTransaction = (): OidcTransaction | null => {
+  const stored = sessionStorage.getItem(TRANSACTION_KEY);
+  sessionStorage.removeItem(TRANSACTION_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as OidcTransaction;
+  } catch {
+    return null;
+  }
+};
+
+// Remember a new sign-in and build the provider's authorization URL
+export const createAuthorizationUrl = async (
+  provider: OidcProvider,
+  options: OidcAuthorizationOptions
+): Promise<string> => {
+  const discovery = await getDiscoveryDocument(provider.issuer);
+  const methods = discovery.code_challenge_methods_supported;
+  if (methods && !methods.includes('S256')) {
+    throw oidcError('oidc_failed', `${provider.name} does not support PKCE with S256`);
+  }
+
+  const transaction: OidcTransaction = {
+    ...options,
+    provider,
+    state: randomValue(),
+    nonce: randomValue(),
+    codeVerifier: randomValue(),
+    createdAt: Date.now(),
+  };
+  sessionStorage.setItem(TRANSACTION_KEY, JSON.stringify(transaction));
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: options.redirectUri,
+    scope: provider.scope ?? DEFAULT_SCOPE,
+    state: transaction.state,
+    nonce: transaction.nonce,
+    code_challenge: await createCodeChallenge(transaction.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+  if (options.loginHint) {
+    url.searchParams.set('login_hint', options.loginHint);
+  }
+  return url.href;
+};
+
+const decodeJson = <T>(segment: string): T => JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+
+interface ExpectedIdToken {
+  issuer: string;
+  clientId: string;
+  nonce: string;
+  jwksUri: string;
+}
+
+// Check an RS256 ID token's signature against the provider's keys and its claims
+// against this sign-in (OpenID Connect Core 3.1.3.7)
+export const verifyIdToken = async (idToken: string, expected: ExpectedIdToken): Promise<IdTokenClaims> => {
+  const [encodedHeader, encodedClaims, encodedSignature] = idToken.split('.');
+  let header: { alg?: string; kid?: string };
+  let claims: IdTokenClaims;
+  try {
+    header = decodeJson(encodedHeader);
+    claims = decodeJson(encodedClaims);
+  } catch (error) {
+    throw oidcError('oidc_invalid_token', 'ID token is malformed', error);
+  }
+  if (!encodedSignature || header.alg !== 'RS256') {
+    throw oidcError('oidc_invalid_token', `Unsupported ID token algorithm: ${header.alg}`);
+  }
+
+  let jwks: OidcJsonWebKeySet;
+  try {
+    jwks = (await providerClient.get<OidcJsonWebKeySet>(expected.jwksUri)).data;
+  } catch (error) {
+    throw toProviderError(error);
+  }
+  const jwk = jwks.keys.find((key) => key.kty === 'RSA' && (!header.kid || key.kid === header.kid));
+  if (!jwk) {
+    throw oidcError('oidc_invalid_token', `No signing key ${header.kid} in the provider's key set`);
+  }
+
+  const algorithm = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+  const signed = new TextEncoder().encode(`${encodedHeader}.${encodedClaims}`);
+  let valid: boolean;
+  try {
+    const key = await crypto.subtle.importKey('jwk', jwk, algorithm, false, ['verify']);
+    valid = await crypto.subtle.verify(algorithm, key, base64UrlDecode(encodedSignature), signed);
+  } catch (error) {
+    throw oidcError('oidc_invalid_token', 'ID token signature could not be checked', error);
+  }
+  if (!valid) {
+    throw oidcError('oidc_invalid_token', 'ID token signature is invalid');
+  }
+
+  const now = Date.now() / 1000;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const checks: [passed: boolean, problem: string][] = [
+    [claims.iss === expected.issuer, `unexpected issuer ${claims.iss}`],
+    [audiences.includes(expected.clientId), `unexpected audience ${audiences.join(', ')}`],
+    [audiences.length === 1 || claims.azp === expected.clientId, `unexpected authorized party ${claims.azp}`],
+    [claims.exp > now - CLOCK_SKEW, 'expired'],
+    [claims.iat < now + CLOCK_SKEW, 'issued in the future'],
+    [claims.nonce === expected.nonce, 'nonce does not match this sign-in'],
+  ];
+  const failed = checks.find(([passed]) => !passed);
+  if (failed) {
+    throw oidcError('oidc_invalid_token', `ID token rejected: ${failed[1]}`);
+  }
+  return claims;
+};
+
+// Check the provider's redirect back to the app, redeem the code and verify the ID token
+export const handleAuthorizationResponse = async (params: URLSearchParams): Promise<OidcAuthorizationResult> => {
+  const transaction = takeTransaction();
+  // A missing or different state means a stale, replayed or forged callback
+  if (!transaction || params.get('state') !== transaction.state || Date.now() - transaction.createdAt > TRANSACTION_TTL) {
+    throw oidcError('oidc_state_mismatch', 'No sign-in in progress matches this callback');
+  }
+
+  const { provider } = transaction;
+  const providerError = params.get('error');
+  if (providerError) {
+    const message = params.get('error_description') ?? providerError;
+    throw oidcError(providerError === 'access_denied' ? 'oidc_cancelled' : 'oidc_failed', message);
+  }
+  const code = params.get('code');
+  if (!code) {
+    throw oidcError('oidc_failed', 'The callback has no authorization code');
+  }
+
+  const discovery = await getDiscoveryDocument(provider.issuer);
+  let tokens: OidcTokenResponse;
+  try {
+    const request = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: transaction.redirectUri,
+      client_id: provider.clientId,
+      code_verifier: transaction.codeVerifier,
+    });
+    tokens = (await providerClient.post<OidcTokenResponse>(discovery.token_endpoint, request)).data;
+  } catch (error) {
+    throw toProviderError(error);
+  }
+  if (!tokens.id_token) {
+    throw oidcError('oidc_invalid_token', 'The token response has no ID token');
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, {
+    issuer: discovery.issuer,
+    clientId: provider.clientId,
+    nonce: transaction.nonce,
+    jwksUri: discovery.jwks_uri,
+  });
+  return {
+    provider,
+    idToken: tokens.id_token,
+    claims,
+    returnTo: transaction.returnTo,
+    rememberMe: transaction.rememberMe,
+  };
+};
@@ -0,0 +1,133 @@
+import type { AuthTokens } from './types';
+
+// Where session tokens are kept, chosen once at app startup
+export type TokenStorageMode = 'memory' | 'sessionStorage' | 'localStorage' | 'cookie';
+
+export const TOKEN_STORAGE_MODES: TokenStorageMode[] = ['memory', 'sessionStorage', 'localStorage', 'cookie'];
+
+export interface TokenStore {
+  readonly mode: TokenStorageMode;
+  // Whether "Remember me" changes how long the session survives
+  readonly supportsRememberMe: boolean;
+  // Tokens live in httpOnly cookies set by the server - JS never sees them
+  readonly serverManaged: boolean;
+  getAccessToken(): string | null;
+  getRefreshToken(): string | null;
+  // Whether a signed-in session is believed to exist
+  hasSession(): boolean;
+  // `remember` is only passed on sign-in; refreshes keep the current choice
+  save(tokens: AuthTokens, remember?: boolean): void;
+  clear(): void;
+}
+
+// Storage keys
+const ACCESS_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
+// Cookie mode: marks that the server holds a session, without exposing tokens
+const SESSION_MARKER_KEY = 'auth_session';
+
+// Tokens in JS memory only - lost on reload, never readable by other scripts via storage
+export const createMemoryTokenStore = (): TokenStore => {
+  let tokens: AuthTokens | null = null;
+
+  return {
+    mode: 'memory',
+    supportsRememberMe: false,
+    serverManaged: false,
+    getAccessToken: () => tokens?.accessToken ?? null,
+    getRefreshToken: () => tokens?.refreshToken ?? null,
+    hasSession: () => !!tokens?.accessToken,
+    save: (next) => {
+      tokens = next;
+    },
+    clear: () => {
+      tokens = null;
+    },
+  };
+};
+
+// Tokens in Web Storage. Sessions without "Remember me" stay in sessionStorage
+// (closed with the tab); remembered sessions go to `rememberedStorage`.
+const createWebStorageTokenStore = (
+  mode: 'sessionStorage' | 'localStorage',
+  rememberedStorage: Storage
+): TokenStore => {
+  // Storage currently holding the session
+  const findStorage = (): Storage | undefined =>
+    [sessionStorage, rememberedStorage].find((storage) => storage.getItem(ACCESS_TOKEN_KEY) !== null);
+
+  const clear = () => {
+    for (const storage of [sessionStorage, rememberedStorage]) {
+      storage.removeItem(ACCESS_TOKEN_KEY);
+      storage.removeItem(REFRESH_TOKEN_KEY);
+    }
+  };
+
+  return {
+    mode,
+    supportsRememberMe: rememberedStorage !== sessionStorage,
+    serverManaged: false,
+    getAccessToken: () => findStorage()?.getItem(ACCESS_TOKEN_KEY) ?? null,
+    getRefreshToken: () => findStorage()?.getItem(REFRESH_TOKEN_KEY) ?? null,
+    hasSession: () => !!findStorage(),
+    save: (tokens, remember) => {
+      const storage =
+        remember === undefined ? (findStorage() ?? sessionStorage) : remember ? rememberedStorage : sessionStorage;
+      clear();
+      if (tokens.accessToken) storage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+      if (tokens.refreshToken) storage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    },
+    clear,
+  };
+};
+
+export const createSessionStorageTokenStore = (): TokenStore =>
+  createWebStorageTokenStore('sessionStorage', sessionStorage);
+
+export const createLocalStorageTokenStore = (): TokenStore =>
+  createWebStorageTokenStore('localStorage', localStorage);
+
+// httpOnly cookies managed by the server. The client only keeps a marker so it
+// knows a session exists; "Remember me" is sent to the server, which picks the
+// cookie lifetime.
+export const createCookieTokenStore = (): TokenStore => {
+  const findStorage = (): Storage | undefined =>
+    [sessionStorage, localStorage].find((storage) => storage.getItem(SESSION_MARKER_KEY) !== null);
+
+  const clear = () => {
+    sessionStorage.removeItem(SESSION_MARKER_KEY);
+    localStorage.removeItem(SESSION_MARKER_KEY);
+  };
+
+  return {
+    mode: 'cookie',
+    supportsRememberMe: true,
+    serverManaged: true,
+    getAccessToken: () => null,
+    getRefreshToken: () => null,
+    hasSession: () => !!findStorage(),
+    save: (_tokens, remember) => {
+      const storage = remember === undefined ? (findStorage() ?? sessionStorage) : remember ? localStorage : sessionStorage;
+      clear();
+      storage.setItem(SESSION_MARKER_KEY, '1');
+    },
+    clear,
+  };
+};
+
+// Build the store for a storage mode
+export const createTokenStore = (mode: TokenStorageMode): TokenStore => {
+  switch (mode) {
+    case 'memory':
+      return createMemoryTokenStore();
+    case 'sessionStorage':
+      return createSessionStorageTokenStore();
+    case 'localStorage':
+      return createLocalStorageTokenStore();
+    case 'cookie':
+      return createCookieTokenStore();
+  }
+};
+
+export const isTokenStorageMode = (value: unknown): value is TokenStorageMode =>
+  TOKEN_STORAGE_MODES.includes(value as TokenStorageMode);
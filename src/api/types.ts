@@ -1,35 +1,341 @@
+import type { OidcProvider } from './oidc';
+
 // API Response Types
 export interface User {
   id: number;
   email: string;
 }
 
-export interface LoginResponse {
-  token: string;
+// Second-factor methods a user can verify with
+export type TwoFactorMethod = 'totp' | 'sms' | 'email';
+
+// Issued once the user is fully authenticated
+// Token fields are omitted when the server keeps the session in an httpOnly cookie
+export interface AuthTokens {
+  // Short-lived bearer token for API requests
+  accessToken?: string;
+  // Long-lived token used to obtain a new access token
+  refreshToken?: string;
+  // Access token lifetime in seconds
+  expiresIn: number;
+}
+
+// Password accepted, second factor still required
+export interface Pending2FALoginResponse {
   user: User;
-  requires2FA: boolean;
-  tempToken?: string;
+  requires2FA: true;
+  tempToken: string;
+  // When the temp token stops being accepted (ISO timestamp)
+  tempTokenExpiresAt: string;
+  // User has no authenticator yet and must enroll before finishing sign-in
+  enrollmentRequired?: boolean;
+  // Methods available for the 2FA step (defaults to ['totp'])
+  twoFactorMethods?: TwoFactorMethod[];
 }
 
-export interface Verify2FAResponse {
-  token: string;
+// Signed in without a 2FA step (e.g. passkey)
+export interface CompletedLoginResponse extends AuthTokens {
   user: User;
+  requires2FA: false;
+}
+
+export type LoginResponse = Pending2FALoginResponse | CompletedLoginResponse;
+
+export interface Verify2FAResponse extends AuthTokens {
+  user: User;
+  // Unused recovery codes left (only returned for recovery-code sign-in)
+  recoveryCodesRemaining?: number;
+  // Signed token that skips 2FA on this device (only returned when trustDevice was set)
+  deviceToken?: string;
+}
+
+// Empty in cookie mode - the server reads the session cookie
+export interface RefreshTokenRequest {
+  refreshToken?: string;
+}
+
+export interface CurrentUserResponse {
+  user: User;
+}
+
+// Refresh token to revoke along with the access token (omitted in cookie mode)
+export interface LogoutRequest {
+  refreshToken?: string;
 }
 
 export interface LoginCredentials {
   email: string;
   password: string;
+  // Keep the session after the browser is closed
+  rememberMe?: boolean;
+  // Token from the challenge widget, required after repeated failures
+  challengeToken?: string;
+  // From /auth/discover - ties the password to the email that was looked up.
+  // A stale one is refused with discovery_expired.
+  discoveryToken?: string;
+  // From a 2FA verification with trustDevice - skips 2FA while it is valid
+  deviceToken?: string;
+}
+
+// Identifier-first sign-in: how an email address signs in
+export interface DiscoverLoginRequest {
+  email: string;
+  // Where to go after single sign-on, passed through the identity provider
+  returnTo?: string;
 }
 
+// Identity provider an organization's users must sign in with
+export type SsoConnection =
+  | { protocol: 'oidc'; provider: OidcProvider }
+  // The server is the SAML service provider - the browser is sent to its SSO URL
+  | { protocol: 'saml'; name: string; redirectUrl: string };
+
+export type DiscoverLoginResponse =
+  | { method: 'password'; discoveryToken: string }
+  // A passkey is offered first, with the password as a fallback
+  | { method: 'passkey'; discoveryToken: string }
+  | { method: 'sso'; connection: SsoConnection };
+
 export interface Verify2FACredentials {
   tempToken: string;
   code: string;
+  // Method the code was obtained with (defaults to 'totp')
+  method?: TwoFactorMethod;
+  challengeToken?: string;
+  // Skip 2FA on this device for the next 30 days
+  trustDevice?: boolean;
+}
+
+export interface Send2FACodeRequest {
+  tempToken: string;
+  method: Exclude<TwoFactorMethod, 'totp'>;
+}
+
+export interface Send2FACodeResponse {
+  method: Exclude<TwoFactorMethod, 'totp'>;
+  // e.g. "+1 ••• ••• 4567" or "t•••@example.com"
+  maskedDestination: string;
+  // Seconds until another code may be requested
+  resendAvailableIn: number;
+}
+
+export interface VerifyRecoveryCodeCredentials {
+  tempToken: string;
+  recoveryCode: string;
+  challengeToken?: string;
+}
+
+export interface Start2FAEnrollmentRequest {
+  tempToken: string;
+}
+
+export interface Start2FAEnrollmentResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface Confirm2FAEnrollmentCredentials {
+  tempToken: string;
+  code: string;
+}
+
+export interface Confirm2FAEnrollmentResponse extends Verify2FAResponse {
+  recoveryCodes: string[];
+}
+
+// Passkey (WebAuthn) Types - binary values are base64url encoded
+export type PasskeyUserVerification = 'required' | 'preferred' | 'discouraged';
+
+export interface PasskeyAuthenticationOptions {
+  challengeId: string;
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: PasskeyUserVerification;
+}
+
+export interface PasskeyAssertionCredential {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle: string | null;
+  };
+}
+
+export interface PasskeyLoginRequest {
+  challengeId: string;
+  credential: PasskeyAssertionCredential;
+  rememberMe?: boolean;
+}
+
+// Sign in with an ID token from an OpenID Connect provider, already checked by the client
+export interface OidcLoginRequest {
+  // Provider id from the login card's provider list
+  provider: string;
+  idToken: string;
+  rememberMe?: boolean;
+}
+
+// Outcome of the OpenID Connect callback
+export interface OidcLoginResult {
+  // Asks for 2FA when the account requires it, as after a password reset
+  response: LoginResponse;
+  // returnTo from when sign-in started - validate before navigating
+  returnTo?: string;
+}
+
+export interface PasskeyRegistrationOptions {
+  challengeId: string;
+  challenge: string;
+  rp: {
+    id: string;
+    name: string;
+  };
+  user: {
+    id: string;
+    name: string;
+    displayName: string;
+  };
+  // COSE algorithm identifiers, in order of preference
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  excludeCredentials: { type: 'public-key'; id: string }[];
+  timeout: number;
+  userVerification: PasskeyUserVerification;
+}
+
+export interface PasskeyAttestationCredential {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    // SubjectPublicKeyInfo (DER) from AuthenticatorAttestationResponse.getPublicKey()
+    publicKey: string;
+    publicKeyAlgorithm: number;
+    transports: string[];
+  };
+}
+
+export interface PasskeyRegistrationRequest {
+  challengeId: string;
+  credential: PasskeyAttestationCredential;
+}
+
+export interface PasskeyRegistrationResponse {
+  credentialId: string;
+  createdAt: string;
+}
+
+// Step-up re-authentication: a signed-in user confirms their identity again
+// before a sensitive request (403 step_up_required)
+export type StepUpMethod = 'password' | 'totp';
+
+export type StepUpRequest = (
+  | { method: 'password'; password: string }
+  | { method: 'totp'; code: string }
+) & {
+  challengeToken?: string;
+};
+
+// Elevated token, sent as X-Step-Up-Token until it expires
+export interface StepUpResponse {
+  stepUpToken: string;
+  // Seconds until the token expires
+  expiresIn: number;
+}
+
+// New recovery codes - the previous ones stop working
+export interface RegenerateRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+// A device that skips 2FA, listed in the account area
+export interface TrustedDevice {
+  id: string;
+  // Browser and platform the device was trusted from, e.g. "Firefox on Windows"
+  name: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  // The device making the request
+  current: boolean;
+}
+
+export interface TrustedDevicesResponse {
+  devices: TrustedDevice[];
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+}
+
+// Pending sign-up - the account exists once the emailed code is confirmed
+export interface RegisterResponse {
+  verificationId: string;
+  maskedEmail: string;
+  // Seconds until another verification email can be requested
+  resendAvailableIn: number;
+}
+
+export interface VerifyEmailRequest {
+  verificationId: string;
+  code: string;
+  challengeToken?: string;
+}
+
+export interface VerifyEmailResponse {
+  user: User;
+}
+
+export interface ResendVerificationEmailRequest {
+  verificationId: string;
+}
+
+export interface RequestPasswordResetRequest {
+  email: string;
+}
+
+// Same response whether or not the email has an account
+export interface RequestPasswordResetResponse {
+  // Seconds the emailed reset link stays valid
+  expiresIn: number;
+}
+
+// Token issued by the local test challenge widget
+export interface LocalChallengeResponse {
+  token: string;
+  // Seconds the token stays valid
+  expiresIn: number;
+}
+
+export interface ResetPasswordRequest {
+  // Single-use token from the reset link
+  token: string;
+  password: string;
 }
 
 // API Error Types
+// Per-field messages from a 422 validation_failed response, keyed by request field
+export type ApiFieldErrors<Field extends string = string> = Partial<Record<Field, string[]>>;
+
+// Error body sent by the server
 export interface ApiError {
   error: string;
   message: string;
+  // Seconds to wait before retrying (429 and 423 responses)
+  retryAfter?: number;
+  // Failed attempts left before sign-in is paused or the account is locked
+  attemptsRemaining?: number;
+  // The next attempt must include a challenge token
+  challengeRequired?: boolean;
+  // Field problems found by server-side validation (validation_failed)
+  fields?: ApiFieldErrors;
+  // How the user can confirm their identity (step_up_required)
+  stepUpMethods?: StepUpMethod[];
 }
 
 export type ApiErrorCode = 
@@ -38,10 +344,40 @@ export type ApiErrorCode =
   | 'server_error'
   | 'network_error'
   | 'timeout_error'
+  | 'unknown_error'
   | 'invalid_2fa_code'
-  | '2fa_expired';
-
-export interface ApiErrorResponse {
-  status: number;
-  data: ApiError;
-}
+  | '2fa_expired'
+  | 'already_enrolled'
+  | 'enrollment_not_started'
+  | 'enrollment_required'
+  | 'invalid_recovery_code'
+  | 'code_expired'
+  | 'rate_limited'
+  | 'method_unavailable'
+  | 'unauthorized'
+  | 'token_expired'
+  | 'invalid_refresh_token'
+  | 'passkey_challenge_expired'
+  | 'passkey_invalid'
+  | 'passkey_not_found'
+  | 'passkey_cancelled'
+  | 'passkey_already_registered'
+  | 'passkey_not_supported'
+  | 'passkey_failed'
+  | 'oidc_cancelled'
+  | 'oidc_state_mismatch'
+  | 'oidc_invalid_token'
+  | 'oidc_failed'
+  | 'sso_required'
+  | 'discovery_expired'
+  | 'email_taken'
+  | 'weak_password'
+  | 'invalid_verification_code'
+  | 'verification_expired'
+  | 'reset_token_invalid'
+  | 'reset_token_expired'
+  | 'too_many_attempts'
+  | 'account_locked'
+  | 'challenge_required'
+  | 'step_up_required'
+  | 'validation_failed';
@@ -0,0 +1,146 @@
+import { ApiClientError } from './errors';
+import type {
+  ApiErrorCode,
+  PasskeyAssertionCredential,
+  PasskeyAttestationCredential,
+  PasskeyAuthenticationOptions,
+  PasskeyRegistrationOptions,
+} from './types';
+
+// Encode binary data as unpadded base64url
+export const base64UrlEncode = (data: ArrayBuffer | ArrayBufferView): string => {
+  // isView rather than instanceof ArrayBuffer, which fails for buffers from another realm
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Decode an unpadded base64url string
+export const base64UrlDecode = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Check if the browser can run WebAuthn ceremonies
+export const isPasskeySupported = (): boolean => {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+};
+
+// WebAuthn DOMException names mapped to error codes
+const CEREMONY_ERROR_CODES: Record<string, ApiErrorCode> = {
+  NotAllowedError: 'passkey_cancelled',
+  AbortError: 'passkey_cancelled',
+  InvalidStateError: 'passkey_already_registered',
+  NotSupportedError: 'passkey_not_supported',
+};
+
+// Map WebAuthn DOMExceptions to the ApiClientError used across the app
+const toCeremonyError = (error: unknown): ApiClientError => {
+  const name = error instanceof DOMException ? error.name : '';
+  return new ApiClientError({
+    status: 0,
+    rawCode: CEREMONY_ERROR_CODES[name] ?? 'passkey_failed',
+    message: error instanceof Error ? error.message : 'The passkey request failed',
+    cause: error,
+  });
+};
+
+// Run navigator.credentials.get with server-provided options
+export const getPasskeyAssertion = async (
+  options: PasskeyAuthenticationOptions
+): Promise<PasskeyAssertionCredential> => {
+  if (!isPasskeySupported()) {
+    throw toCeremonyError(new DOMException('WebAuthn unavailable', 'NotSupportedError'));
+  }
+
+  let credential: PublicKeyCredential;
+  try {
+    credential = (await navigator.credentials.get({
+      publicKey: {
+        challenge: base64UrlDecode(options.challenge),
+        rpId: options.rpId,
+        timeout: options.timeout,
+        userVerification: options.userVerification,
+      },
+    })) as PublicKeyCredential;
+  } catch (error) {
+    throw toCeremonyError(error);
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    type: 'public-key',
+    response: {
+      clientDataJSON: base64UrlEncode(response.clientDataJSON),
+      authenticatorData: base64UrlEncode(response.authenticatorData),
+      signature: base64UrlEncode(response.signature),
+      userHandle: response.userHandle ? base64UrlEncode(response.userHandle) : null,
+    },
+  };
+};
+
+// Run navigator.credentials.create with server-provided options
+export const createPasskeyCredential = async (
+  options: PasskeyRegistrationOptions
+): Promise<PasskeyAttestationCredential> => {
+  if (!isPasskeySupported()) {
+    throw toCeremonyError(new DOMException('WebAuthn unavailable', 'NotSupportedError'));
+  }
+
+  let credential: PublicKeyCredential;
+  try {
+    credential = (await navigator.credentials.create({
+      publicKey: {
+        challenge: base64UrlDecode(options.challenge),
+        rp: options.rp,
+        user: {
+          ...options.user,
+          id: base64UrlDecode(options.user.id),
+        },
+        pubKeyCredParams: options.pubKeyCredParams,
+        excludeCredentials: options.excludeCredentials.map((descriptor) => ({
+          ...descriptor,
+          id: base64UrlDecode(descriptor.id),
+        })),
+        timeout: options.timeout,
+        authenticatorSelection: {
+          residentKey: 'required',
+          userVerification: options.userVerification,
+        },
+        attestation: 'none',
+      },
+    })) as PublicKeyCredential;
+  } catch (error) {
+    throw toCeremonyError(error);
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const publicKey = response.getPublicKey();
+  if (!publicKey) {
+    // Authenticator uses an algorithm the browser can't expose as SPKI
+    throw toCeremonyError(new DOMException('Unsupported key algorithm', 'NotSupportedError'));
+  }
+
+  return {
+    id: credential.id,
+    type: 'public-key',
+    response: {
+      clientDataJSON: base64UrlEncode(response.clientDataJSON),
+      authenticatorData: base64UrlEncode(response.getAuthenticatorData()),
+      publicKey: base64UrlEncode(publicKey),
+      publicKeyAlgorithm: response.getPublicKeyAlgorithm(),
+      transports: response.getTransports(),
+    },
+  };
+};
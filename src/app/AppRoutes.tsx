@@ -0,0 +1,54 @@
+import { lazy, Suspense } from 'react';
+import { Navigate, Route, Routes } from 'react-router';
+import { ProtectedRoute } from '../components/ProtectedRoute';
+import LoginPage from '../pages/LoginPage';
+import TwoFactorPage from '../pages/TwoFactorPage';
+import AccountPage from '../pages/AccountPage';
+import SignUpPage from '../pages/SignUpPage';
+import VerifyEmailPage from '../pages/VerifyEmailPage';
+import ForgotPasswordPage from '../pages/ForgotPasswordPage';
+import ResetPasswordPage from '../pages/ResetPasswordPage';
+import OidcCallbackPage from '../pages/OidcCallbackPage';
+import { ROUTES } from './routes';
+
+// Login page of the mock identity providers - loaded on demand so production
+// builds leave the mocks out
+const DevIdentityProvider = import.meta.env.DEV ? lazy(() => import('../components/DevIdentityProvider')) : null;
+
+export const AppRoutes = () => {
+  return (
+    <Routes>
+      <Route path={ROUTES.login} element={<LoginPage />} />
+      <Route path={ROUTES.twoFactor} element={<TwoFactorPage />} />
+      <Route path={ROUTES.twoFactorSetup} element={<TwoFactorPage setup />} />
+      <Route path={ROUTES.forgotPassword} element={<ForgotPasswordPage />} />
+      <Route path={ROUTES.resetPassword} element={<ResetPasswordPage />} />
+      <Route path={ROUTES.signUp} element={<SignUpPage />} />
+      <Route path={ROUTES.verifyEmail} element={<VerifyEmailPage />} />
+      <Route path={ROUTES.oidcCallback} element={<OidcCallbackPage />} />
+      {/* Login page of the mock identity providers */}
+      {DevIdentityProvider && (
+        <Route
+          path="/mock-idp/:provider/authorize"
+          element={
+            <Suspense fallback={null}>
+              <DevIdentityProvider />
+            </Suspense>
+          }
+        />
+      )}
+      <Route
+        path={ROUTES.account}
+        element={
+          <ProtectedRoute>
+            <AccountPage />
+          </ProtectedRoute>
+        }
+      />
+      {/* Everything else goes to the account page, which sends guests to login */}
+      <Route path="*" element={<Navigate to={ROUTES.account} replace />} />
+    </Routes>
+  );
+};
+
+export default AppRoutes;
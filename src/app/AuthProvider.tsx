@@ -0,0 +1,77 @@
+import { useState, useCallback, useEffect, useMemo, type ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getCurrentUser, isAuthenticated, logout, onSessionExpired, onSignedOutElsewhere } from '../api/auth';
+import type { ApiClientError } from '../api/errors';
+import type { CurrentUserResponse, User } from '../api/types';
+import { StepUpDialog } from '../components/StepUpDialog';
+import { AuthContext, ME_QUERY_KEY, type AuthContextValue, type AuthStatus, type SessionEndedReason } from './authContext';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+// Owns the signed-in user. On load, a stored session is restored through /auth/me.
+export const AuthProvider = ({ children }: AuthProviderProps) => {
+  const queryClient = useQueryClient();
+  // Whether the token store holds a session worth asking the server about
+  const [hasSession, setHasSession] = useState(isAuthenticated);
+  const [sessionEndedReason, setSessionEndedReason] = useState<SessionEndedReason | null>(null);
+
+  const meQuery = useQuery<CurrentUserResponse, ApiClientError>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getCurrentUser,
+    enabled: hasSession,
+    staleTime: Infinity,
+  });
+
+  const endSession = useCallback(
+    (reason: SessionEndedReason | null) => {
+      setHasSession(false);
+      setSessionEndedReason(reason);
+      queryClient.removeQueries({ queryKey: ME_QUERY_KEY });
+    },
+    [queryClient]
+  );
+
+  // Sessions can also end outside React: a failed refresh or a sign-out in another tab
+  useEffect(() => {
+    const unsubscribeExpired = onSessionExpired(() => endSession('expired'));
+    const unsubscribeElsewhere = onSignedOutElsewhere(() => endSession('signedOutElsewhere'));
+    return () => {
+      unsubscribeExpired();
+      unsubscribeElsewhere();
+    };
+  }, [endSession]);
+
+  const signIn = useCallback(
+    (user: User) => {
+      queryClient.setQueryData<CurrentUserResponse>(ME_QUERY_KEY, { user });
+      setSessionEndedReason(null);
+      setHasSession(true);
+    },
+    [queryClient]
+  );
+
+  const handleLogout = useCallback(async () => {
+    await logout();
+    endSession(null);
+  }, [endSession]);
+
+  const user = hasSession ? (meQuery.data?.user ?? null) : null;
+  const status: AuthStatus = user ? 'authenticated' : hasSession && meQuery.isPending ? 'loading' : 'unauthenticated';
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ user, status, sessionEndedReason, signIn, logout: handleLogout }),
+    [user, status, sessionEndedReason, signIn, handleLogout]
+  );
+
+  // The step-up dialog sits here so any signed-in request can ask for it
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <StepUpDialog />
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import type { User } from '../api/types';
+
+export type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+// Why the last session ended without the user signing out in this tab
+export type SessionEndedReason = 'expired' | 'signedOutElsewhere';
+
+export interface AuthContextValue {
+  user: User | null;
+  status: AuthStatus;
+  sessionEndedReason: SessionEndedReason | null;
+  // Mark sign-in complete once tokens have been saved
+  signIn: (user: User) => void;
+  logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Query key for the signed-in user
+export const ME_QUERY_KEY = ['auth', 'me'] as const;
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
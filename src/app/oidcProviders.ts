@@ -0,0 +1,15 @@
+import type { OidcProvider } from '../api/oidc';
+
+// Identity providers offered on the login card, in display order. In development
+// these point at the mock identity providers served by MSW (src/mocks/identityProvider.ts).
+// Production builds offer none until a deployment lists its own issuers and client ids here.
+const MOCK_ISSUER_BASE = `${window.location.origin}/mock-idp`;
+const CLIENT_ID = 'entry-form-web';
+
+export const OIDC_PROVIDERS: OidcProvider[] = import.meta.env.DEV
+  ? [
+      { id: 'google', name: 'Google', issuer: `${MOCK_ISSUER_BASE}/google`, clientId: CLIENT_ID },
+      { id: 'microsoft', name: 'Microsoft', issuer: `${MOCK_ISSUER_BASE}/microsoft`, clientId: CLIENT_ID },
+      { id: 'okta', name: 'Okta', issuer: `${MOCK_ISSUER_BASE}/okta`, clientId: CLIENT_ID },
+    ]
+  : [];
@@ -0,0 +1,87 @@
+import type { TwoFactorMethod } from '../api/types';
+import type { MessageId } from '../i18n';
+
+export const ROUTES = {
+  login: '/login',
+  twoFactor: '/login/2fa',
+  twoFactorSetup: '/login/2fa/setup',
+  forgotPassword: '/login/forgot-password',
+  resetPassword: '/login/reset-password',
+  account: '/account',
+  signUp: '/signup',
+  verifyEmail: '/signup/verify',
+  // Redirect URI registered with the OpenID Connect providers
+  oidcCallback: '/auth/callback',
+} as const;
+
+// Where users land after sign-in when there is no returnTo
+export const DEFAULT_RETURN_TO = ROUTES.account;
+
+// History state for the 2FA step - kept in history so back/forward restore it
+export interface TwoFactorRouteState {
+  tempToken: string;
+  userEmail: string;
+  // When the temp token expires (ISO timestamp)
+  expiresAt: string;
+  methods?: TwoFactorMethod[];
+}
+
+// History state for the login page
+export interface LoginRouteState {
+  // Informational message, e.g. after verifying an email address. Kept as an id
+  // so it follows a language switch.
+  notice?: MessageId;
+  // Prefills the form, e.g. after the 2FA step timed out
+  email?: string;
+}
+
+// History state for the email verification step
+export interface VerifyEmailRouteState {
+  maskedEmail: string;
+  resendAvailableIn: number;
+}
+
+// History state for the forgot-password page
+export interface ForgotPasswordRouteState {
+  // Email already typed on the login form
+  email?: string;
+}
+
+// History state for the reset-password page. The token from the emailed link
+// is moved here so it doesn't linger in the address bar or leak via Referer.
+export interface ResetPasswordRouteState {
+  token: string;
+}
+
+// History state for the page reached after sign-in
+export interface SignedInRouteState {
+  // Offer passkey creation after a password + 2FA sign-in
+  offerPasskey?: boolean;
+}
+
+// Accept only same-origin paths outside the login flow; anything else
+// (absolute URLs, protocol-relative //host, backslash tricks) falls back to the default.
+export const getSafeReturnTo = (value: string | null | undefined): string => {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return DEFAULT_RETURN_TO;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, window.location.origin);
+  } catch {
+    return DEFAULT_RETURN_TO;
+  }
+  const isLoginFlow = url.pathname === ROUTES.login || url.pathname.startsWith(`${ROUTES.login}/`);
+  if (url.origin !== window.location.origin || isLoginFlow) {
+    return DEFAULT_RETURN_TO;
+  }
+  return `${url.pathname}${url.search}${url.hash}`;
+};
+
+// Login URL that brings the user back to `returnTo` afterwards
+export const buildLoginPath = (returnTo: string): string => {
+  return returnTo === DEFAULT_RETURN_TO
+    ? ROUTES.login
+    : `${ROUTES.login}?${new URLSearchParams({ returnTo })}`;
+};
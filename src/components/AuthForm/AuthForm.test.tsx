@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { renderWithProviders } from '../../test/render';
+import { expectNoAxeViolations } from '../../test/axe';
+import { AuthForm } from './AuthForm';
+
+describe('AuthForm accessibility', () => {
+  it('has no axe violations', async () => {
+    const { container } = renderWithProviders(<AuthForm notice="Your session has expired. Please sign in again." />);
+
+    await expectNoAxeViolations(container);
+  });
+
+  it('links field errors to their inputs', async () => {
+    const user = userEvent.setup();
+    const { container } = renderWithProviders(<AuthForm />);
+
+    const email = screen.getByLabelText('Email');
+    await user.type(email, 'not-an-email');
+    await user.tab();
+
+    expect(email).toHaveAttribute('aria-invalid', 'true');
+    expect(email).toHaveAccessibleDescription('Please enter a valid email');
+    await expectNoAxeViolations(container);
+  });
+
+  it('announces the notice as a status', () => {
+    renderWithProviders(<AuthForm notice="You signed out in another tab." />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('You signed out in another tab.');
+  });
+
+  it('leaves focus alone on first load', () => {
+    renderWithProviders(<AuthForm />);
+
+    expect(screen.getByRole('heading', { level: 1 })).not.toHaveFocus();
+  });
+
+  it('focuses the heading after in-app navigation', () => {
+    // Entries get their own key from navigate()
+    renderWithProviders(<AuthForm />, { initialEntries: [{ pathname: '/login', key: 'navigated' }] });
+
+    expect(screen.getByRole('heading', { level: 1 })).toHaveFocus();
+  });
+});
@@ -1,118 +1,410 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, type ReactNode } from 'react';
 import { useMutation } from '@tanstack/react-query';
-import { login, saveToken } from '../../api/auth';
-import type { LoginCredentials, LoginResponse, ApiErrorResponse } from '../../api/types';
+import { Link } from 'react-router';
+import {
+  discoverLoginMethod,
+  login,
+  loginWithPasskey,
+  saveTokens,
+  getTokenStorage,
+  startOidcLogin,
+} from '../../api/auth';
+import type { OidcProvider } from '../../api/oidc';
+import { isPasskeySupported } from '../../api/webauthn';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type { DiscoverLoginResponse, LoginCredentials, LoginResponse } from '../../api/types';
+import { OIDC_PROVIDERS } from '../../app/oidcProviders';
+import { ROUTES, type ForgotPasswordRouteState } from '../../app/routes';
+import { formatRetryIn, useAttemptLimit } from '../../hooks/useAttemptLimit';
+import { useHeadingFocus } from '../../hooks/useHeadingFocus';
+import { Field, useForm, type FormSchema } from '../../form';
+import { useI18n } from '../../i18n';
+import { redirectTo } from '../../utils/redirect';
+import { ChallengeWidget } from '../ChallengeWidget';
+import { ErrorSummary } from '../ErrorSummary';
 import './AuthForm.css';
 
 // Email validation regex
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-// Error message mapping
-const getErrorMessage = (error: ApiErrorResponse): string => {
-  const { status, data } = error;
-  
-  // Network/timeout errors (status 0)
-  if (status === 0) {
-    if (data.error === 'timeout_error') {
-      return 'Request timed out. Please try again.';
-    }
-    if (data.error === 'network_error') {
-      return 'Connection problem. Please check your network.';
-    }
-    return 'An unexpected error occurred. Please try again.';
-  }
-  
-  // HTTP errors
-  switch (status) {
-    case 401:
-      return 'Incorrect email or password.';
-    case 404:
-      return 'User not found.';
-    case 500:
-      return 'Server error. Please try again later.';
-    default:
-      return data.message || 'An unexpected error occurred.';
-  }
+type EmailValues = { email: string };
+type PasswordValues = { password: string };
+
+const EMAIL_SCHEMA: FormSchema<EmailValues> = {
+  email: {
+    required: 'validation.emailRequired',
+    pattern: { value: EMAIL_REGEX, message: 'validation.emailInvalid' },
+  },
 };
 
-interface AuthFormProps {
+const PASSWORD_SCHEMA: FormSchema<PasswordValues> = {
+  password: {
+    required: 'validation.passwordRequired',
+  },
+};
+
+const PASSWORD_INITIAL_VALUES: PasswordValues = { password: '' };
+
+// Identity provider sign-in, started from a button or by the email step
+interface OidcLoginVariables {
+  provider: OidcProvider;
+  loginHint?: string;
+}
+
+// Email step outcome for the methods finished on this card
+interface DiscoveredLogin {
+  email: string;
+  method: 'password' | 'passkey';
+  discoveryToken: string;
+}
+
+// Sign-in errors that send the user back to the email step
+const START_OVER_CODES = ['discovery_expired', 'sso_required'];
+
+const ButtonSpinner = () => (
+  <svg
+    aria-hidden="true"
+    className="spinner"
+    width="20"
+    height="20"
+    viewBox="0 0 24 24"
+    fill="none"
+    xmlns="http://www.w3.org/2000/svg"
+  >
+    <circle
+      className="spinner-track"
+      cx="12"
+      cy="12"
+      r="10"
+      stroke="currentColor"
+      strokeWidth="4"
+    />
+    <path
+      className="spinner-head"
+      d="M12 2a10 10 0 019.95 9"
+      stroke="currentColor"
+      strokeWidth="4"
+      strokeLinecap="round"
+    />
+  </svg>
+);
+
+interface PasswordStepProps {
+  email: string;
+  discoveryToken: string;
+  rememberMe: boolean;
   onSuccess?: (response: LoginResponse) => void;
+  // The email step has to be repeated, with the error explaining why
+  onStartOver: (error: ApiClientError) => void;
+  // Remember me, below the password
+  children?: ReactNode;
 }
 
-export const AuthForm = ({ onSuccess }: AuthFormProps) => {
-  // Form state
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [touched, setTouched] = useState({ email: false, password: false });
-
-  // Validation
-  const emailError = useMemo(() => {
-    if (!touched.email) return '';
-    if (!email) return 'Email is required';
-    if (!EMAIL_REGEX.test(email)) return 'Please enter a valid email';
-    return '';
-  }, [email, touched.email]);
-
-  const passwordError = useMemo(() => {
-    if (!touched.password) return '';
-    if (!password) return 'Password is required';
-    return '';
-  }, [password, touched.password]);
-
-  const isFormValid = useMemo(() => {
-    return email && EMAIL_REGEX.test(email) && password;
-  }, [email, password]);
+// Password for an email the email step sent here. Keyed by the email, so
+// switching addresses drops the typed password and the attempt counters.
+const PasswordStep = ({ email, discoveryToken, rememberMe, onSuccess, onStartOver, children }: PasswordStepProps) => {
+  const { t } = useI18n();
+  const { formRef, isValid, getFieldProps, submit, applyApiError, isShownOnFields } = useForm({
+    schema: PASSWORD_SCHEMA,
+    initialValues: PASSWORD_INITIAL_VALUES,
+  });
+  const attemptLimit = useAttemptLimit();
 
   // Login mutation
-  const loginMutation = useMutation<LoginResponse, ApiErrorResponse, LoginCredentials>({
+  const loginMutation = useMutation<LoginResponse, ApiClientError, LoginCredentials>({
     mutationFn: login,
     onSuccess: (data) => {
-      // Save token to localStorage
-      saveToken(data.token);
+      // Save tokens once sign-in is complete - 2FA logins get them after verification
+      if (!data.requires2FA) {
+        saveTokens(data);
+      }
       // Call success callback if provided
       onSuccess?.(data);
     },
+    onError: (error) => {
+      if (START_OVER_CODES.includes(error.code)) {
+        onStartOver(error);
+        return;
+      }
+      attemptLimit.handleError(error);
+      applyApiError(error);
+    },
   });
 
-  // Handlers
-  const handleEmailChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setEmail(e.target.value);
-  }, []);
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
 
-  const handlePasswordChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setPassword(e.target.value);
-  }, []);
+      void submit(({ password }) => {
+        if (attemptLimit.isBlocked) return;
 
-  const handleEmailBlur = useCallback(() => {
-    setTouched((prev) => ({ ...prev, email: true }));
-  }, []);
+        loginMutation.mutate({
+          email,
+          password,
+          rememberMe,
+          challengeToken: attemptLimit.challengeToken ?? undefined,
+          discoveryToken,
+        });
+      });
+    },
+    [email, discoveryToken, rememberMe, attemptLimit, submit, loginMutation]
+  );
+
+  // Carry the email over to the reset request
+  const forgotPasswordState: ForgotPasswordRouteState = { email };
+
+  const apiError =
+    loginMutation.error && !isShownOnFields(loginMutation.error)
+      ? getErrorMessage(loginMutation.error, 'login', t)
+      : '';
+  const isChallengeMissing = attemptLimit.challengeRequired && !attemptLimit.challengeToken;
+
+  return (
+    <form ref={formRef} className="auth-form" onSubmit={handleSubmit}>
+      {/* Lets password managers save the password for this email */}
+      <input type="email" name="username" value={email} autoComplete="username" readOnly hidden />
+
+      {/* Password field */}
+      <Field
+        {...getFieldProps('password')}
+        type="password"
+        label={t('field.password')}
+        labelAction={
+          <Link to={ROUTES.forgotPassword} state={forgotPasswordState} className="forgot-password-link">
+            {t('login.forgotPassword')}
+          </Link>
+        }
+        placeholder={t('login.passwordPlaceholder')}
+        disabled={loginMutation.isPending}
+        autoComplete="current-password"
+      />
+
+      {children}
+
+      {/* API Error */}
+      {apiError && <ErrorSummary autoFocus>{apiError}</ErrorSummary>}
+
+      {/* Attempts left before sign-in is paused or the account is locked */}
+      {loginMutation.isError && attemptLimit.attemptsRemaining !== undefined && !attemptLimit.isBlocked && (
+        <p className="attempts-remaining" role="status">
+          {t('attempts.remaining', { count: attemptLimit.attemptsRemaining })}
+        </p>
+      )}
+
+      {/* Security check after repeated failures */}
+      {attemptLimit.challengeRequired && (
+        <ChallengeWidget
+          key={attemptLimit.challengeKey}
+          onVerify={attemptLimit.setChallengeToken}
+          onExpire={attemptLimit.clearChallengeToken}
+          disabled={loginMutation.isPending}
+        />
+      )}
+
+      {/* Submit button */}
+      <button
+        type="submit"
+        className="submit-button"
+        disabled={!isValid || loginMutation.isPending || attemptLimit.isBlocked || isChallengeMissing}
+      >
+        {loginMutation.isPending ? (
+          <>
+            <ButtonSpinner />
+            <span>{t('login.submitting')}</span>
+          </>
+        ) : attemptLimit.isBlocked ? (
+          t('attempts.tryAgainIn', { time: formatRetryIn(attemptLimit.retryIn) })
+        ) : (
+          t('login.submit')
+        )}
+      </button>
+    </form>
+  );
+};
+
+interface AuthFormProps {
+  onSuccess?: (response: LoginResponse) => void;
+  // Informational message shown above the form, e.g. after a session expired
+  notice?: string;
+  // Prefills the email field, e.g. when sent back from the 2FA step
+  initialEmail?: string;
+  // Where to go after signing in with an identity provider
+  returnTo?: string;
+}
+
+// Identifier-first sign-in: the email decides whether the user continues with
+// a password, a passkey or their organization's identity provider
+export const AuthForm = ({ onSuccess, notice, initialEmail = '', returnTo }: AuthFormProps) => {
+  const { t, rich } = useI18n();
+
+  // Form state
+  const { formRef, isValid, getFieldProps, submit, applyApiError, isShownOnFields } = useForm({
+    schema: EMAIL_SCHEMA,
+    initialValues: { email: initialEmail },
+  });
+  const [rememberMe, setRememberMe] = useState(false);
+  const [discovered, setDiscovered] = useState<DiscoveredLogin | null>(null);
+  // Why the user was sent back to the email step
+  const [startOverError, setStartOverError] = useState<ApiClientError | null>(null);
+  const step = discovered?.method ?? 'email';
+  const headingRef = useHeadingFocus(step);
+
+  // Identity provider sign-in: leaves the app for the provider's login page.
+  // The callback route finishes sign-in when the provider sends the user back.
+  const oidcMutation = useMutation<string, ApiClientError, OidcLoginVariables>({
+    mutationFn: ({ provider, loginHint }) =>
+      startOidcLogin(provider, {
+        redirectUri: new URL(ROUTES.oidcCallback, window.location.origin).href,
+        returnTo,
+        rememberMe,
+        loginHint,
+      }),
+    onSuccess: redirectTo,
+  });
+
+  // Email step: how this address signs in
+  const discoverMutation = useMutation<DiscoverLoginResponse, ApiClientError, string>({
+    mutationFn: (email) => discoverLoginMethod({ email, returnTo }),
+    onSuccess: (data, email) => {
+      if (data.method !== 'sso') {
+        // Browsers without passkeys go straight to the password
+        const method = data.method === 'passkey' && !isPasskeySupported() ? 'password' : data.method;
+        setDiscovered({ email, method, discoveryToken: data.discoveryToken });
+      } else if (data.connection.protocol === 'oidc') {
+        oidcMutation.mutate({ provider: data.connection.provider, loginHint: email });
+      } else {
+        // SAML is handled by the server - it sends the browser on to the identity provider
+        redirectTo(data.connection.redirectUrl);
+      }
+    },
+    onError: applyApiError,
+  });
+
+  // Passkey sign-in mutation
+  const passkeyMutation = useMutation<LoginResponse, ApiClientError, boolean>({
+    mutationFn: loginWithPasskey,
+    onSuccess: (data) => {
+      // Save tokens once sign-in is complete - 2FA logins get them after verification
+      if (!data.requires2FA) {
+        saveTokens(data);
+      }
+      // Call success callback if provided
+      onSuccess?.(data);
+    },
+  });
+
+  // Name of the identity provider the page is about to unload for, if any
+  const ssoConnection = discoverMutation.data?.method === 'sso' ? discoverMutation.data.connection : undefined;
+  const redirectingTo = oidcMutation.isPending || oidcMutation.isSuccess
+    ? oidcMutation.variables?.provider.name
+    : ssoConnection?.protocol === 'saml' ? ssoConnection.name : undefined;
+  const isPending = discoverMutation.isPending || passkeyMutation.isPending || !!redirectingTo;
 
-  const handlePasswordBlur = useCallback(() => {
-    setTouched((prev) => ({ ...prev, password: true }));
+  // Handlers
+  const handleRememberMeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setRememberMe(e.target.checked);
   }, []);
 
-  const handleSubmit = useCallback(
+  const resetMutations = useCallback(() => {
+    setStartOverError(null);
+    discoverMutation.reset();
+    passkeyMutation.reset();
+    oidcMutation.reset();
+  }, [discoverMutation, passkeyMutation, oidcMutation]);
+
+  const handleContinue = useCallback(
     (e: React.FormEvent) => {
       e.preventDefault();
-      
-      // Mark all fields as touched
-      setTouched({ email: true, password: true });
-      
-      if (!isFormValid) return;
-      
-      loginMutation.mutate({ email, password });
+
+      void submit(({ email }) => {
+        resetMutations();
+        discoverMutation.mutate(email.trim());
+      });
+    },
+    [submit, resetMutations, discoverMutation]
+  );
+
+  const handlePasskeyLogin = useCallback(() => {
+    resetMutations();
+    passkeyMutation.mutate(rememberMe);
+  }, [rememberMe, resetMutations, passkeyMutation]);
+
+  const handleOidcLogin = useCallback(
+    (provider: OidcProvider) => {
+      resetMutations();
+      oidcMutation.mutate({ provider });
     },
-    [email, password, isFormValid, loginMutation]
+    [resetMutations, oidcMutation]
+  );
+
+  const handleUsePassword = useCallback(() => {
+    passkeyMutation.reset();
+    setDiscovered((prev) => prev && { ...prev, method: 'password' });
+  }, [passkeyMutation]);
+
+  const handleChangeEmail = useCallback(() => {
+    resetMutations();
+    setDiscovered(null);
+  }, [resetMutations]);
+
+  const handleStartOver = useCallback((error: ApiClientError) => {
+    setDiscovered(null);
+    setStartOverError(error);
+  }, []);
+
+  const activeError = startOverError ?? discoverMutation.error ?? passkeyMutation.error ?? oidcMutation.error;
+  const apiError =
+    activeError && !isShownOnFields(activeError) ? getErrorMessage(activeError, 'login', t) : '';
+
+  // Remember me - hidden when the storage mode can't persist sessions
+  const rememberMeCheckbox = getTokenStorage().supportsRememberMe && (
+    <label className="remember-me">
+      <input
+        type="checkbox"
+        checked={rememberMe}
+        onChange={handleRememberMeChange}
+        disabled={isPending}
+      />
+      <span>{t('login.rememberMe')}</span>
+    </label>
   );
 
-  const apiError = loginMutation.error ? getErrorMessage(loginMutation.error) : '';
+  const passkeyButton = (
+    <button
+      type="button"
+      className="passkey-button"
+      onClick={handlePasskeyLogin}
+      disabled={isPending}
+    >
+      <svg
+        aria-hidden="true"
+        width="20"
+        height="20"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        xmlns="http://www.w3.org/2000/svg"
+      >
+        <circle cx="8" cy="8" r="4" />
+        <path d="M2 20c0-3.3 2.7-6 6-6 1.3 0 2.5.4 3.5 1.1" />
+        <circle cx="17" cy="13" r="3" />
+        <path d="M17 16v6l1.5-1.5L17 19" />
+      </svg>
+      <span>{passkeyMutation.isPending ? t('common.waitingForPasskey') : t('login.passkey')}</span>
+    </button>
+  );
 
   return (
-    <div className="auth-form-container">
+    <main className="auth-form-container">
       <div className="auth-form-card">
         {/* Logo */}
         <div className="auth-form-logo">
           <svg
+            aria-hidden="true"
             width="48"
             height="48"
             viewBox="0 0 48 48"
@@ -131,110 +423,120 @@ export const AuthForm = ({ onSuccess }: AuthFormProps) => {
         </div>
 
         {/* Title */}
-        <h1 className="auth-form-title">Sign in to your account to continue</h1>
-
-        {/* Form */}
-        <form className="auth-form" onSubmit={handleSubmit}>
-          {/* Email field */}
-          <div className="form-group">
-            <label htmlFor="email" className="form-label">
-              Email
-            </label>
-            <input
-              type="email"
-              id="email"
-              className={`form-input ${emailError ? 'form-input-error' : ''}`}
-              value={email}
-              onChange={handleEmailChange}
-              onBlur={handleEmailBlur}
-              placeholder="Enter your email"
-              disabled={loginMutation.isPending}
-              autoComplete="email"
-            />
-            {emailError && <span className="form-error">{emailError}</span>}
+        <h1 ref={headingRef} className="auth-form-title" tabIndex={-1}>{t('login.title')}</h1>
+
+        {/* Notice */}
+        {notice && (
+          <div className="auth-notice" role="status">
+            {notice}
           </div>
+        )}
 
-          {/* Password field */}
-          <div className="form-group">
-            <label htmlFor="password" className="form-label">
-              Password
-            </label>
-            <input
-              type="password"
-              id="password"
-              className={`form-input ${passwordError ? 'form-input-error' : ''}`}
-              value={password}
-              onChange={handlePasswordChange}
-              onBlur={handlePasswordBlur}
-              placeholder="Enter your password"
-              disabled={loginMutation.isPending}
-              autoComplete="current-password"
-            />
-            {passwordError && <span className="form-error">{passwordError}</span>}
+        {/* Email found - who is signing in */}
+        {discovered && (
+          <div className="auth-identity">
+            <span className="auth-identity-email">{discovered.email}</span>
+            <button type="button" className="auth-link-button" onClick={handleChangeEmail} disabled={isPending}>
+              {t('login.changeEmail')}
+            </button>
           </div>
+        )}
+
+        {step === 'email' && (
+          <form ref={formRef} className="auth-form" onSubmit={handleContinue}>
+            {/* Email field */}
+            <Field
+              {...getFieldProps('email')}
+              type="email"
+              label={t('field.email')}
+              placeholder={t('field.emailPlaceholder')}
+              disabled={isPending}
+              autoComplete="username"
+            />
+
+            {rememberMeCheckbox}
+
+            {/* API Error */}
+            {apiError && <ErrorSummary autoFocus>{apiError}</ErrorSummary>}
+
+            {/* Continue button */}
+            <button type="submit" className="submit-button" disabled={!isValid || isPending}>
+              {discoverMutation.isPending ? (
+                <>
+                  <ButtonSpinner />
+                  <span>{t('login.checkingEmail')}</span>
+                </>
+              ) : redirectingTo && ssoConnection ? (
+                t('login.oidcRedirecting', { provider: redirectingTo })
+              ) : (
+                t('login.continue')
+              )}
+            </button>
 
-          {/* API Error */}
-          {apiError && (
-            <div className="api-error">
-              <svg
-                className="api-error-icon"
-                width="20"
-                height="20"
-                viewBox="0 0 20 20"
-                fill="currentColor"
+            {(isPasskeySupported() || OIDC_PROVIDERS.length > 0) && (
+              <div className="auth-divider">
+                <span>{t('login.divider')}</span>
+              </div>
+            )}
+
+            {/* Passkey sign-in */}
+            {isPasskeySupported() && passkeyButton}
+
+            {/* Identity provider sign-in */}
+            {OIDC_PROVIDERS.map((provider) => (
+              <button
+                key={provider.id}
+                type="button"
+                className="passkey-button oidc-button"
+                onClick={() => handleOidcLogin(provider)}
+                disabled={isPending}
               >
-                <path
-                  fillRule="evenodd"
-                  d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
-                  clipRule="evenodd"
-                />
-              </svg>
-              <span>{apiError}</span>
-            </div>
-          )}
-
-          {/* Submit button */}
-          <button
-            type="submit"
-            className="submit-button"
-            disabled={!isFormValid || loginMutation.isPending}
+                {redirectingTo && !ssoConnection && oidcMutation.variables?.provider.id === provider.id
+                  ? t('login.oidcRedirecting', { provider: provider.name })
+                  : t('login.oidc', { provider: provider.name })}
+              </button>
+            ))}
+          </form>
+        )}
+
+        {/* Organization suggests a passkey; the password stays available */}
+        {discovered?.method === 'passkey' && (
+          <div className="auth-form">
+            <p className="auth-step-description">{t('login.passkeySuggested')}</p>
+
+            {rememberMeCheckbox}
+
+            {apiError && <ErrorSummary autoFocus>{apiError}</ErrorSummary>}
+
+            {passkeyButton}
+
+            <button type="button" className="auth-link-button" onClick={handleUsePassword} disabled={isPending}>
+              {t('login.usePassword')}
+            </button>
+          </div>
+        )}
+
+        {discovered?.method === 'password' && (
+          <PasswordStep
+            key={discovered.email}
+            email={discovered.email}
+            discoveryToken={discovered.discoveryToken}
+            rememberMe={rememberMe}
+            onSuccess={onSuccess}
+            onStartOver={handleStartOver}
           >
-            {loginMutation.isPending ? (
-              <>
-                <svg
-                  className="spinner"
-                  width="20"
-                  height="20"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  xmlns="http://www.w3.org/2000/svg"
-                >
-                  <circle
-                    className="spinner-track"
-                    cx="12"
-                    cy="12"
-                    r="10"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                  />
-                  <path
-                    className="spinner-head"
-                    d="M12 2a10 10 0 019.95 9"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                    strokeLinecap="round"
-                  />
-                </svg>
-                <span>Signing in...</span>
-              </>
-            ) : (
-              'Log in'
-            )}
-          </button>
-        </form>
+            {rememberMeCheckbox}
+          </PasswordStep>
+        )}
 
+        {/* Sign-up link */}
+        <p className="auth-form-footer">
+          {rich('login.signUpPrompt', undefined, {
+            link: (children) => <Link to={ROUTES.signUp}>{children}</Link>,
+          })}
+        </p>
       </div>
-    </div>
+    </main>
   );
 };
 
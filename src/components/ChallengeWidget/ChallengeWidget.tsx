@@ -0,0 +1,18 @@
+import { createElement } from 'react';
+import { useI18n } from '../../i18n';
+import { getChallengeWidget, type ChallengeWidgetProps } from './challengeWidget';
+import './ChallengeWidget.css';
+
+// Security check shown after repeated failed attempts
+export const ChallengeWidget = (props: ChallengeWidgetProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="challenge-widget" role="group" aria-label={t('challenge.label')}>
+      {/* The provider is configured once at startup, so its component type is stable */}
+      {createElement(getChallengeWidget(), props)}
+    </div>
+  );
+};
+
+export default ChallengeWidget;
@@ -0,0 +1,61 @@
+import { useCallback, useEffect } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { getLocalChallengeToken } from '../../api/auth';
+import type { ApiClientError } from '../../api/errors';
+import type { LocalChallengeResponse } from '../../api/types';
+import { useI18n } from '../../i18n';
+import type { ChallengeWidgetProps } from './challengeWidget';
+
+// Local test implementation: a checkbox that fetches a single-use token from the
+// mock backend. Same flow as a checkbox CAPTCHA, without a third-party script.
+export const LocalChallenge = ({ onVerify, onExpire, disabled }: ChallengeWidgetProps) => {
+  const { t } = useI18n();
+  const tokenMutation = useMutation<LocalChallengeResponse, ApiClientError, void>({
+    mutationFn: getLocalChallengeToken,
+    onSuccess: (data) => {
+      onVerify(data.token);
+    },
+  });
+
+  // Uncheck once the token has expired
+  const { data, reset } = tokenMutation;
+  useEffect(() => {
+    if (!data) return;
+
+    const timeout = setTimeout(() => {
+      reset();
+      onExpire();
+    }, data.expiresIn * 1000);
+    return () => clearTimeout(timeout);
+  }, [data, reset, onExpire]);
+
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (e.target.checked) {
+        tokenMutation.mutate();
+      }
+    },
+    [tokenMutation]
+  );
+
+  return (
+    <>
+      <label className="local-challenge">
+        <input
+          type="checkbox"
+          checked={tokenMutation.isSuccess || tokenMutation.isPending}
+          onChange={handleChange}
+          disabled={disabled || tokenMutation.isPending || tokenMutation.isSuccess}
+        />
+        <span>{tokenMutation.isPending ? t('challenge.checking') : t('challenge.checkbox')}</span>
+      </label>
+      {tokenMutation.isError && (
+        <span className="form-error" role="alert">
+          {t('challenge.failed')}
+        </span>
+      )}
+    </>
+  );
+};
+
+export default LocalChallenge;
@@ -0,0 +1,25 @@
+import type { ComponentType } from 'react';
+import { LocalChallenge } from './LocalChallenge';
+
+// Contract for a challenge (CAPTCHA) provider. Wrap a provider's script widget
+// (Turnstile, hCaptcha, reCAPTCHA...) in a component with these props and pass
+// it to configureChallengeWidget; the server verifies the token it produces.
+export interface ChallengeWidgetProps {
+  // Called with a token once the challenge is solved
+  onVerify: (token: string) => void;
+  // Called when a solved challenge can no longer be used
+  onExpire: () => void;
+  disabled?: boolean;
+}
+
+export type ChallengeWidgetComponent = ComponentType<ChallengeWidgetProps>;
+
+// Provider shown by ChallengeWidget - the local test implementation by default
+let challengeWidget: ChallengeWidgetComponent = LocalChallenge;
+
+// Choose the challenge provider. Call once before rendering the app.
+export const configureChallengeWidget = (widget: ChallengeWidgetComponent): void => {
+  challengeWidget = widget;
+};
+
+export const getChallengeWidget = (): ChallengeWidgetComponent => challengeWidget;
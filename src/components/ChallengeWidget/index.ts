@@ -0,0 +1,7 @@
+export { ChallengeWidget, default } from './ChallengeWidget';
+export { LocalChallenge } from './LocalChallenge';
+export {
+  configureChallengeWidget,
+  type ChallengeWidgetComponent,
+  type ChallengeWidgetProps,
+} from './challengeWidget';
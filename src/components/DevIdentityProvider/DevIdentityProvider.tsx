@@ -0,0 +1,94 @@
+import { useCallback } from 'react';
+import axios from 'axios';
+import { useMutation } from '@tanstack/react-query';
+import { useNavigate, useParams, useSearchParams } from 'react-router';
+import {
+  MOCK_IDP_PROVIDERS,
+  MOCK_IDP_USERS,
+  type MockAuthorizeRequest,
+  type MockAuthorizeResponse,
+} from '../../mocks/identityProvider';
+import { redirectTo } from '../../utils/redirect';
+import './DevIdentityProvider.css';
+
+// Dev-only login page of the mock identity providers, at their authorization
+// endpoint. Picking an account (or cancelling) asks the mock provider where to
+// send the browser. Same-origin redirects stay in the app so the mock's
+// in-memory codes survive.
+export const DevIdentityProvider = () => {
+  const { provider = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const providerName = MOCK_IDP_PROVIDERS[provider] ?? provider;
+
+  const authorizeMutation = useMutation<MockAuthorizeResponse, Error, string | undefined>({
+    mutationFn: async (sub) => {
+      const request: MockAuthorizeRequest = { params: Object.fromEntries(searchParams), sub };
+      try {
+        const response = await axios.post<MockAuthorizeResponse>(`/mock-idp/${provider}/authorize`, request);
+        return response.data;
+      } catch (error) {
+        // Requests the provider refuses outright are explained here, not sent back
+        const description = axios.isAxiosError(error) ? error.response?.data?.error_description : undefined;
+        throw new Error(description ?? 'The identity provider did not respond');
+      }
+    },
+    onSuccess: ({ redirectTo: target }) => {
+      const url = new URL(target);
+      if (url.origin === window.location.origin) {
+        navigate(`${url.pathname}${url.search}`, { replace: true });
+      } else {
+        redirectTo(url.href);
+      }
+    },
+  });
+
+  const handleChoose = useCallback(
+    (sub?: string) => {
+      authorizeMutation.mutate(sub);
+    },
+    [authorizeMutation]
+  );
+
+  const isBusy = authorizeMutation.isPending || authorizeMutation.isSuccess;
+
+  return (
+    <main className="dev-idp">
+      <div className="dev-idp-card">
+        <p className="dev-idp-badge">Mock identity provider</p>
+        <h1 className="dev-idp-title">Sign in with {providerName}</h1>
+        <p className="dev-idp-client">
+          to continue to <code>{searchParams.get('client_id') ?? 'unknown client'}</code>
+        </p>
+
+        {authorizeMutation.isError && (
+          <p className="dev-idp-error" role="alert">
+            {authorizeMutation.error.message}
+          </p>
+        )}
+
+        <ul className="dev-idp-accounts">
+          {MOCK_IDP_USERS.map((user) => (
+            <li key={user.sub}>
+              <button
+                type="button"
+                className="dev-idp-account"
+                onClick={() => handleChoose(user.sub)}
+                disabled={isBusy}
+              >
+                <strong>{user.name}</strong>
+                <span>{user.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <button type="button" className="dev-idp-cancel" onClick={() => handleChoose()} disabled={isBusy}>
+          Cancel
+        </button>
+      </div>
+    </main>
+  );
+};
+
+export default DevIdentityProvider;
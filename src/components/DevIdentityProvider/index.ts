@@ -0,0 +1 @@
+export { DevIdentityProvider, default } from './DevIdentityProvider';
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { useState, useCallback, useSyncExternalStore } from 'react';
+import { Link } from 'react-router';
+import { clearDevInbox, getDevInboxMessages, subscribeToDevInbox } from '../../mocks/devInbox';
+import './DevInbox.css';
+
+// Dev-only panel showing SMS/email messages "sent" by the mock backend
+export const DevInbox = () => {
+  const messages = useSyncExternalStore(subscribeToDevInbox, getDevInboxMessages);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleToggle = useCallback(() => {
+    setIsOpen((prev) => !prev);
+  }, []);
+
+  return (
+    <div className="dev-inbox">
+      {isOpen && (
+        <div className="dev-inbox-panel">
+          <div className="dev-inbox-header">
+            <strong>Dev inbox</strong>
+            <button
+              type="button"
+              className="dev-inbox-clear"
+              onClick={clearDevInbox}
+              disabled={messages.length === 0}
+            >
+              Clear
+            </button>
+          </div>
+          {messages.length === 0 ? (
+            <p className="dev-inbox-empty">No messages yet. Request a code by SMS or email, sign up, or reset a password.</p>
+          ) : (
+            <ul className="dev-inbox-list">
+              {messages.map((message) => (
+                <li key={message.id} className="dev-inbox-message">
+                  <div className="dev-inbox-meta">
+                    <span>{message.channel === 'sms' ? 'SMS' : 'Email'} to {message.to}</span>
+                    <time>{new Date(message.sentAt).toLocaleTimeString()}</time>
+                  </div>
+                  <p>{message.body}</p>
+                  {/* Client-side navigation - a reload would reset the mock backend */}
+                  {message.link && (
+                    <Link className="dev-inbox-link" to={message.link}>
+                      {message.link}
+                    </Link>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      <button type="button" className="dev-inbox-toggle" onClick={handleToggle} aria-expanded={isOpen}>
+        Inbox{messages.length > 0 && ` (${messages.length})`}
+      </button>
+    </div>
+  );
+};
+
+export default DevInbox;
@@ -0,0 +1 @@
+export { DevInbox, default } from './DevInbox';
\ No newline at end of file
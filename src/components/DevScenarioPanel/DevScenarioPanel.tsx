@@ -0,0 +1,158 @@
+import { useState, useCallback, useSyncExternalStore } from 'react';
+import {
+  clearRequestLog,
+  getDevScenarioState,
+  resetScenarios,
+  setEndpointScenario,
+  subscribeToDevScenarios,
+  type EndpointScenario,
+  type MockEndpoint,
+  type RequestLogEntry,
+  type ScenarioResponse,
+} from '../../mocks/devScenarios';
+import './DevScenarioPanel.css';
+
+const RESPONSE_LABELS: Record<ScenarioResponse, string> = {
+  default: 'Mock logic',
+  success: 'Success',
+  unauthorized: '401 Unauthorized',
+  notFound: '404 Not found',
+  serverError: '500 Server error',
+  networkError: 'Network error',
+  timeout: 'Timeout',
+};
+
+const RESPONSES = Object.keys(RESPONSE_LABELS) as ScenarioResponse[];
+
+const DEFAULT_SCENARIO: EndpointScenario = { response: 'default', latency: 0, once: false };
+
+// "/api/auth/login" -> "/auth/login"
+const shortPath = (path: string): string => path.replace(/^\/api/, '');
+
+const formatStatus = (entry: RequestLogEntry): string => {
+  if (entry.status === undefined) return 'pending';
+  return entry.status === 0 ? 'network error' : String(entry.status);
+};
+
+const statusClassName = (status: number | undefined): string => {
+  if (status === undefined) return 'dev-scenario-status-pending';
+  return status === 0 || status >= 400 ? 'dev-scenario-status-error' : '';
+};
+
+interface EndpointRowProps {
+  endpoint: MockEndpoint;
+  // Picked in the panel, or undefined for the mock's own logic
+  scenario?: EndpointScenario;
+}
+
+const EndpointRow = ({ endpoint, scenario = DEFAULT_SCENARIO }: EndpointRowProps) => {
+  const id = `dev-scenario-${endpoint.key.replace(/\W+/g, '-')}`;
+  const update = (changes: Partial<EndpointScenario>) => {
+    setEndpointScenario(endpoint.key, { ...scenario, ...changes });
+  };
+
+  return (
+    <li className={`dev-scenario-endpoint ${scenario === DEFAULT_SCENARIO ? '' : 'dev-scenario-endpoint-active'}`}>
+      <label htmlFor={id} className="dev-scenario-endpoint-name">
+        <span className="dev-scenario-method">{endpoint.method}</span> {shortPath(endpoint.path)}
+      </label>
+      <div className="dev-scenario-controls">
+        <select
+          id={id}
+          value={scenario.response}
+          onChange={(e) => update({ response: e.target.value as ScenarioResponse })}
+        >
+          {RESPONSES.map((response) => (
+            <option key={response} value={response} disabled={response === 'success' && !endpoint.supportsSuccess}>
+              {RESPONSE_LABELS[response]}
+            </option>
+          ))}
+        </select>
+        <label className="dev-scenario-latency">
+          +
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={scenario.latency}
+            onChange={(e) => update({ latency: Math.max(0, Number(e.target.value) || 0) })}
+            aria-label={`Extra latency for ${endpoint.key} in milliseconds`}
+          />
+          ms
+        </label>
+        <label className="dev-scenario-once">
+          <input type="checkbox" checked={scenario.once} onChange={(e) => update({ once: e.target.checked })} />
+          once
+        </label>
+      </div>
+    </li>
+  );
+};
+
+// Dev-only panel to force the mock backend's next responses and watch its requests
+export const DevScenarioPanel = () => {
+  const { endpoints, scenarios, log } = useSyncExternalStore(subscribeToDevScenarios, getDevScenarioState);
+  const [isOpen, setIsOpen] = useState(false);
+  const activeCount = Object.keys(scenarios).length;
+
+  const handleToggle = useCallback(() => {
+    setIsOpen((prev) => !prev);
+  }, []);
+
+  return (
+    <div className="dev-scenarios">
+      {isOpen && (
+        <div className="dev-scenarios-panel">
+          <section>
+            <div className="dev-scenarios-header">
+              <strong>Mock responses</strong>
+              <button type="button" className="dev-scenarios-action" onClick={resetScenarios} disabled={activeCount === 0}>
+                Reset all
+              </button>
+            </div>
+            <ul className="dev-scenario-endpoints">
+              {endpoints.map((endpoint) => (
+                <EndpointRow key={endpoint.key} endpoint={endpoint} scenario={scenarios[endpoint.key]} />
+              ))}
+            </ul>
+          </section>
+          <section>
+            <div className="dev-scenarios-header">
+              <strong>Requests</strong>
+              <button type="button" className="dev-scenarios-action" onClick={clearRequestLog} disabled={log.length === 0}>
+                Clear
+              </button>
+            </div>
+            {log.length === 0 ? (
+              <p className="dev-scenarios-empty">No requests yet.</p>
+            ) : (
+              <ul className="dev-scenario-log">
+                {log.map((entry) => (
+                  <li key={entry.id} className="dev-scenario-log-entry">
+                    <time>{new Date(entry.startedAt).toLocaleTimeString()}</time>
+                    <span className="dev-scenario-log-request">
+                      <span className="dev-scenario-method">{entry.method}</span> {shortPath(entry.path)}
+                    </span>
+                    <span className={`dev-scenario-status ${statusClassName(entry.status)}`}>
+                      {formatStatus(entry)}
+                      {entry.duration !== undefined && ` · ${entry.duration}ms`}
+                    </span>
+                    {/* Forced responses - extra latency alone shows in the duration */}
+                    {entry.scenario && entry.scenario !== 'default' && (
+                      <span className="dev-scenario-tag">{RESPONSE_LABELS[entry.scenario]}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      )}
+      <button type="button" className="dev-scenarios-toggle" onClick={handleToggle} aria-expanded={isOpen}>
+        Scenarios{activeCount > 0 && ` (${activeCount})`}
+      </button>
+    </div>
+  );
+};
+
+export default DevScenarioPanel;
@@ -0,0 +1 @@
+export { DevScenarioPanel, default } from './DevScenarioPanel';
\ No newline at end of file
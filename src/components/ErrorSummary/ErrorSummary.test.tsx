@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { expectNoAxeViolations } from '../../test/axe';
+import { ErrorSummary } from './ErrorSummary';
+
+describe('ErrorSummary', () => {
+  it('is announced as an alert', async () => {
+    const { container } = render(<ErrorSummary>Invalid email or password</ErrorSummary>);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Invalid email or password');
+    expect(screen.getByRole('alert')).not.toHaveFocus();
+    await expectNoAxeViolations(container);
+  });
+
+  it('takes focus with autoFocus', () => {
+    render(<ErrorSummary autoFocus>Invalid email or password</ErrorSummary>);
+
+    expect(screen.getByRole('alert')).toHaveFocus();
+  });
+});
@@ -0,0 +1,33 @@
+import { useEffect, useRef, type ReactNode } from 'react';
+import './ErrorSummary.css';
+
+interface ErrorSummaryProps {
+  children: ReactNode;
+  // Move focus here when shown, e.g. after a failed submit
+  autoFocus?: boolean;
+}
+
+// Error banner for a failed request. Announced by screen readers as it appears;
+// with `autoFocus` it also takes focus so keyboard users land on the message.
+export const ErrorSummary = ({ children, autoFocus = false }: ErrorSummaryProps) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (autoFocus) ref.current?.focus();
+  }, [autoFocus]);
+
+  return (
+    <div ref={ref} className="api-error" role="alert" tabIndex={-1}>
+      <svg className="api-error-icon" width="20" height="20" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+        <path
+          fillRule="evenodd"
+          d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
+          clipRule="evenodd"
+        />
+      </svg>
+      <span>{children}</span>
+    </div>
+  );
+};
+
+export default ErrorSummary;
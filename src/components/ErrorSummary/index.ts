@@ -0,0 +1 @@
+export { ErrorSummary, default } from './ErrorSummary';
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { renderWithProviders } from '../../test/render';
+import { expectNoAxeViolations } from '../../test/axe';
+import { ForgotPasswordForm } from './ForgotPasswordForm';
+
+describe('ForgotPasswordForm accessibility', () => {
+  it('has no axe violations', async () => {
+    const { container } = renderWithProviders(<ForgotPasswordForm />);
+
+    await expectNoAxeViolations(container);
+  });
+
+  it('links the email error to the input', async () => {
+    const user = userEvent.setup();
+    const { container } = renderWithProviders(<ForgotPasswordForm initialEmail="user@" />);
+
+    const email = screen.getByLabelText('Email');
+    await user.click(email);
+    await user.tab();
+
+    expect(email).toHaveAttribute('aria-invalid', 'true');
+    expect(email).toHaveAccessibleDescription('Please enter a valid email');
+    await expectNoAxeViolations(container);
+  });
+});
@@ -0,0 +1,185 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'react-router';
+import { requestPasswordReset } from '../../api/auth';
+import { ROUTES } from '../../app/routes';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type { RequestPasswordResetRequest, RequestPasswordResetResponse } from '../../api/types';
+import { useI18n } from '../../i18n';
+import { ErrorSummary } from '../ErrorSummary';
+import './ForgotPasswordForm.css';
+
+// Email validation regex
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface ForgotPasswordFormProps {
+  // Email already typed on the login form
+  initialEmail?: string;
+}
+
+export const ForgotPasswordForm = ({ initialEmail = '' }: ForgotPasswordFormProps) => {
+  const { t, rich } = useI18n();
+
+  // Form state
+  const [email, setEmail] = useState(initialEmail);
+  const [touched, setTouched] = useState(false);
+
+  // Validation
+  const emailError = useMemo(() => {
+    if (!touched) return '';
+    if (!email) return t('validation.emailRequired');
+    if (!EMAIL_REGEX.test(email)) return t('validation.emailInvalid');
+    return '';
+  }, [email, touched, t]);
+
+  const isFormValid = useMemo(() => EMAIL_REGEX.test(email), [email]);
+
+  // Reset request mutation
+  const resetRequestMutation = useMutation<RequestPasswordResetResponse, ApiClientError, RequestPasswordResetRequest>({
+    mutationFn: requestPasswordReset,
+  });
+
+  // Handlers
+  const handleEmailChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setEmail(e.target.value);
+  }, []);
+
+  const handleEmailBlur = useCallback(() => {
+    setTouched(true);
+  }, []);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      setTouched(true);
+
+      if (!isFormValid) return;
+
+      resetRequestMutation.mutate({ email: email.trim() });
+    },
+    [email, isFormValid, resetRequestMutation]
+  );
+
+  // Back to the form to fix a typo or send another link
+  const handleTryAgain = useCallback(() => {
+    resetRequestMutation.reset();
+  }, [resetRequestMutation]);
+
+  const apiError = resetRequestMutation.error ? getErrorMessage(resetRequestMutation.error, 'passwordReset', t) : '';
+
+  // Link sent - the response is the same whether or not the account exists
+  if (resetRequestMutation.isSuccess) {
+    const minutes = Math.round(resetRequestMutation.data.expiresIn / 60);
+    return (
+      <main className="forgot-password-container">
+        <div className="forgot-password-card">
+          <h1 className="forgot-password-title">{t('forgotPassword.sentTitle')}</h1>
+          <p className="forgot-password-description">
+            {rich('forgotPassword.sentDescription', { email: resetRequestMutation.variables.email, minutes })}
+          </p>
+          <button type="button" className="forgot-password-retry" onClick={handleTryAgain}>
+            {t('forgotPassword.tryAgain')}
+          </button>
+          <p className="forgot-password-footer">
+            <Link to={ROUTES.login}>{t('common.backToSignIn')}</Link>
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="forgot-password-container">
+      <div className="forgot-password-card">
+        {/* Title */}
+        <h1 className="forgot-password-title">{t('forgotPassword.title')}</h1>
+
+        {/* Description */}
+        <p className="forgot-password-description">
+          {t('forgotPassword.description')}
+        </p>
+
+        {/* Form */}
+        <form className="forgot-password-form" onSubmit={handleSubmit}>
+          {/* Email field */}
+          <div className="form-group">
+            <label htmlFor="forgot-password-email" className="form-label">
+              {t('field.email')}
+            </label>
+            <input
+              type="email"
+              id="forgot-password-email"
+              className={`form-input ${emailError ? 'form-input-error' : ''}`}
+              value={email}
+              onChange={handleEmailChange}
+              onBlur={handleEmailBlur}
+              placeholder={t('field.emailPlaceholder')}
+              disabled={resetRequestMutation.isPending}
+              autoComplete="email"
+              aria-invalid={!!emailError || undefined}
+              aria-describedby={emailError ? 'forgot-password-email-error' : undefined}
+            />
+            {emailError && (
+              <span id="forgot-password-email-error" className="form-error">
+                {emailError}
+              </span>
+            )}
+          </div>
+
+          {/* API Error */}
+          {apiError && <ErrorSummary autoFocus>{apiError}</ErrorSummary>}
+
+          {/* Submit button */}
+          <button
+            type="submit"
+            className="submit-button"
+            disabled={!isFormValid || resetRequestMutation.isPending}
+          >
+            {resetRequestMutation.isPending ? (
+              <>
+                <svg
+                  aria-hidden="true"
+                  className="spinner"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <circle
+                    className="spinner-track"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="spinner-head"
+                    d="M12 2a10 10 0 019.95 9"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                    strokeLinecap="round"
+                  />
+                </svg>
+                <span>{t('forgotPassword.submitting')}</span>
+              </>
+            ) : (
+              t('forgotPassword.submit')
+            )}
+          </button>
+        </form>
+
+        {/* Sign-in link */}
+        <p className="forgot-password-footer">
+          {rich('forgotPassword.signInPrompt', undefined, {
+            link: (children) => <Link to={ROUTES.login}>{children}</Link>,
+          })}
+        </p>
+      </div>
+    </main>
+  );
+};
+
+export default ForgotPasswordForm;
@@ -0,0 +1 @@
+export { ForgotPasswordForm, default } from './ForgotPasswordForm';
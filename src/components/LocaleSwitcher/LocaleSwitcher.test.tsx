@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { I18nProvider } from '../../i18n';
+import { expectNoAxeViolations } from '../../test/axe';
+import { LocaleSwitcher } from './LocaleSwitcher';
+
+describe('LocaleSwitcher accessibility', () => {
+  it('has no axe violations', async () => {
+    const { container } = render(
+      <I18nProvider>
+        <LocaleSwitcher />
+      </I18nProvider>
+    );
+
+    await expectNoAxeViolations(container);
+  });
+
+  it('sets the document language and direction', async () => {
+    const user = userEvent.setup();
+    render(
+      <I18nProvider>
+        <LocaleSwitcher />
+      </I18nProvider>
+    );
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Language' }), 'ar');
+
+    expect(document.documentElement).toHaveAttribute('lang', 'ar');
+    expect(document.documentElement).toHaveAttribute('dir', 'rtl');
+  });
+});
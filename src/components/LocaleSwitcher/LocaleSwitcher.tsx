@@ -0,0 +1,31 @@
+import { useCallback } from 'react';
+import { isLocale, LOCALES, useI18n } from '../../i18n';
+import './LocaleSwitcher.css';
+
+// Language picker, pinned to the top corner of every page
+export const LocaleSwitcher = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      if (isLocale(e.target.value)) {
+        setLocale(e.target.value);
+      }
+    },
+    [setLocale]
+  );
+
+  return (
+    <div className="locale-switcher">
+      <select className="locale-switcher-select" value={locale} onChange={handleChange} aria-label={t('common.locale')}>
+        {Object.entries(LOCALES).map(([code, { label }]) => (
+          <option key={code} value={code} lang={code}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LocaleSwitcher;
@@ -0,0 +1 @@
+export { LocaleSwitcher, default } from './LocaleSwitcher';
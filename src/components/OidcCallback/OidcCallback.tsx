@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'react-router';
+import { completeOidcLogin, saveTokens } from '../../api/auth';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type { OidcLoginResult } from '../../api/types';
+import { ROUTES } from '../../app/routes';
+import { useI18n } from '../../i18n';
+import { ErrorSummary } from '../ErrorSummary';
+import { PageLoader } from '../PageLoader';
+import './OidcCallback.css';
+
+interface OidcCallbackProps {
+  // Query string the identity provider sent the user back with
+  search: string;
+  onSuccess?: (result: OidcLoginResult) => void;
+}
+
+// Finishes identity provider sign-in: checks the provider's response and
+// exchanges it for a session, or explains why that failed
+export const OidcCallback = ({ search, onSuccess }: OidcCallbackProps) => {
+  const { t } = useI18n();
+  const startedRef = useRef(false);
+
+  const callbackMutation = useMutation<OidcLoginResult, ApiClientError, string>({
+    mutationFn: (query) => completeOidcLogin(new URLSearchParams(query)),
+    onSuccess: (data) => {
+      // 2FA sign-ins get their tokens after verification
+      if (!data.response.requires2FA) {
+        saveTokens(data.response);
+      }
+      onSuccess?.(data);
+    },
+  });
+
+  // The authorization code works once - don't redeem it again on a re-render
+  const { mutate } = callbackMutation;
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+    mutate(search);
+  }, [search, mutate]);
+
+  if (!callbackMutation.isError) {
+    return <PageLoader message={t('oidcCallback.signingIn')} />;
+  }
+
+  return (
+    <main className="oidc-callback-container">
+      <div className="oidc-callback-card">
+        <h1 className="oidc-callback-title">{t('oidcCallback.title')}</h1>
+
+        <ErrorSummary autoFocus>{getErrorMessage(callbackMutation.error, 'oidc', t)}</ErrorSummary>
+
+        <p className="oidc-callback-footer">
+          <Link to={ROUTES.login}>{t('common.backToSignIn')}</Link>
+        </p>
+      </div>
+    </main>
+  );
+};
+
+export default OidcCallback;
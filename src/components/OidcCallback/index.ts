@@ -0,0 +1 @@
+export { OidcCallback, default } from './OidcCallback';
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { I18nProvider } from '../../i18n';
+import { expectNoAxeViolations } from '../../test/axe';
+import { OtpInput } from './OtpInput';
+
+const ControlledOtpInput = (props: { invalid?: boolean; groups?: number[] }) => {
+  const [value, setValue] = useState('');
+  return (
+    <I18nProvider>
+      <p id="otp-instructions">Enter the code from your app</p>
+      <OtpInput value={value} onChange={setValue} describedBy="otp-instructions" {...props} />
+    </I18nProvider>
+  );
+};
+
+describe('OtpInput accessibility', () => {
+  it('is a labelled group of labelled boxes', async () => {
+    const { container } = render(<ControlledOtpInput groups={[3, 3]} />);
+
+    const group = screen.getByRole('group', { name: 'Verification code' });
+    expect(group).toHaveAccessibleDescription('Enter the code from your app');
+    expect(screen.getAllByRole('textbox')).toHaveLength(6);
+    expect(screen.getByRole('textbox', { name: 'Character 1 of 6' })).toBeInTheDocument();
+    expect(screen.getByRole('textbox', { name: 'Character 6 of 6' })).toBeInTheDocument();
+    await expectNoAxeViolations(container);
+  });
+
+  it('marks every box invalid', async () => {
+    const { container } = render(<ControlledOtpInput invalid />);
+
+    for (const box of screen.getAllByRole('textbox')) {
+      expect(box).toHaveAttribute('aria-invalid', 'true');
+    }
+    await expectNoAxeViolations(container);
+  });
+});
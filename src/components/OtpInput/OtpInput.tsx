@@ -0,0 +1,258 @@
+import { Fragment, useCallback, useEffect, useEffectEvent, useImperativeHandle, useRef } from 'react';
+import { useI18n } from '../../i18n';
+import './OtpInput.css';
+
+export type OtpCharset = 'numeric' | 'alphanumeric';
+
+const CHARSET_PATTERNS: Record<OtpCharset, RegExp> = {
+  numeric: /[0-9]/g,
+  alphanumeric: /[a-z0-9]/gi,
+};
+
+// WebOTP API - not part of the DOM typings yet
+interface OtpCredential extends Credential {
+  code: string;
+}
+
+type OtpCredentialRequestOptions = CredentialRequestOptions & { otp: { transport: string[] } };
+
+export interface OtpInputHandle {
+  // Focus the first empty box
+  focus: () => void;
+}
+
+interface OtpInputProps {
+  // Entered characters, without gaps
+  value: string;
+  onChange: (value: string) => void;
+  // Called when the last box is filled by typing, paste or autofill
+  onComplete?: (value: string) => void;
+  length?: number;
+  charset?: OtpCharset;
+  // Box counts per group, e.g. [3, 3] - defaults to a single group
+  groups?: number[];
+  // Hide the characters like a password field
+  masked?: boolean;
+  // Fill the code from an SMS with the WebOTP API where supported
+  webOtp?: boolean;
+  disabled?: boolean;
+  invalid?: boolean;
+  autoFocus?: boolean;
+  // Accessible name of the whole code, "Verification code" by default
+  label?: string;
+  // Id of the instructions for the code, read with the group
+  describedBy?: string;
+  ref?: React.Ref<OtpInputHandle>;
+}
+
+// One box per character. The value has no gaps: boxes after the first empty one
+// can't be focused, and deleting a character shifts the rest left.
+export const OtpInput = ({
+  value,
+  onChange,
+  onComplete,
+  length = 6,
+  charset = 'numeric',
+  groups,
+  masked = false,
+  webOtp = false,
+  disabled = false,
+  invalid = false,
+  autoFocus = false,
+  label,
+  describedBy,
+  ref,
+}: OtpInputProps) => {
+  const { t } = useI18n();
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+
+  const focusBox = useCallback(
+    (index: number) => {
+      const input = inputRefs.current[Math.max(0, Math.min(index, length - 1))];
+      input?.focus();
+      input?.select();
+    },
+    [length]
+  );
+
+  useImperativeHandle(ref, () => ({ focus: () => focusBox(value.length) }), [focusBox, value.length]);
+
+  useEffect(() => {
+    if (autoFocus) inputRefs.current[0]?.focus();
+  }, [autoFocus]);
+
+  const sanitize = useCallback(
+    (text: string) => (text.match(CHARSET_PATTERNS[charset]) ?? []).join(''),
+    [charset]
+  );
+
+  const update = useCallback(
+    (next: string) => {
+      if (next === value) return;
+      onChange(next);
+      if (next.length === length) onComplete?.(next);
+    },
+    [value, length, onChange, onComplete]
+  );
+
+  // Write text starting at a box, overwriting what's there
+  const insertAt = useCallback(
+    (index: number, text: string) => {
+      const chars = sanitize(text).slice(0, length - index);
+      if (!chars) return;
+
+      const start = Math.min(index, value.length);
+      update(value.slice(0, start) + chars + value.slice(start + chars.length));
+      focusBox(start + chars.length);
+    },
+    [value, length, sanitize, update, focusBox]
+  );
+
+  const removeAt = useCallback(
+    (index: number) => {
+      if (index >= value.length) return;
+      update(value.slice(0, index) + value.slice(index + 1));
+    },
+    [value, update]
+  );
+
+  // WebOTP autofill
+  const handleWebOtp = useEffectEvent((code: string) => {
+    const chars = sanitize(code).slice(0, length);
+    if (chars) update(chars);
+  });
+
+  useEffect(() => {
+    if (!webOtp || disabled || !('OTPCredential' in window)) return;
+
+    const controller = new AbortController();
+    const options: OtpCredentialRequestOptions = { otp: { transport: ['sms'] }, signal: controller.signal };
+    navigator.credentials
+      .get(options)
+      .then((credential) => {
+        if (credential) handleWebOtp((credential as OtpCredential).code);
+      })
+      .catch(() => {
+        // Aborted or declined - the code can still be typed
+      });
+    return () => controller.abort();
+  }, [webOtp, disabled]);
+
+  const handleChange = useCallback(
+    (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+      const text = e.target.value;
+      if (!text) {
+        removeAt(index);
+        return;
+      }
+      // Keep only what was typed after the box's character
+      const current = value[index];
+      insertAt(index, current && text.length > 1 && text.startsWith(current) ? text.slice(1) : text);
+    },
+    [value, insertAt, removeAt]
+  );
+
+  const handleKeyDown = useCallback(
+    (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+      const lastIndex = Math.min(value.length, length - 1);
+      switch (e.key) {
+        case 'Backspace':
+          e.preventDefault();
+          if (value[index]) {
+            removeAt(index);
+          } else if (index > 0) {
+            removeAt(index - 1);
+            focusBox(index - 1);
+          }
+          break;
+        case 'Delete':
+          e.preventDefault();
+          removeAt(index);
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          focusBox(index - 1);
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          focusBox(Math.min(index + 1, lastIndex));
+          break;
+        case 'Home':
+          e.preventDefault();
+          focusBox(0);
+          break;
+        case 'End':
+          e.preventDefault();
+          focusBox(lastIndex);
+          break;
+      }
+    },
+    [value, length, removeAt, focusBox]
+  );
+
+  // Paste at the focused box
+  const handlePaste = useCallback(
+    (index: number, e: React.ClipboardEvent) => {
+      e.preventDefault();
+      insertAt(index, e.clipboardData.getData('text'));
+    },
+    [insertAt]
+  );
+
+  // Boxes after the first empty one would leave a gap
+  const handleFocus = useCallback(
+    (index: number, e: React.FocusEvent<HTMLInputElement>) => {
+      if (index > value.length) {
+        focusBox(value.length);
+        return;
+      }
+      e.target.select();
+    },
+    [value.length, focusBox]
+  );
+
+  const groupSizes = groups && groups.reduce((sum, size) => sum + size, 0) === length ? groups : [length];
+  const groupStarts = groupSizes.map((_, group) => groupSizes.slice(0, group).reduce((sum, size) => sum + size, 0));
+
+  // Codes read left to right in every locale
+  return (
+    <div
+      className="otp-input"
+      role="group"
+      aria-label={label ?? t('otp.label')}
+      aria-describedby={describedBy}
+      dir="ltr"
+    >
+      {groupSizes.map((size, group) => (
+        <Fragment key={group}>
+          {group > 0 && <span className="otp-input-separator" aria-hidden="true" />}
+          {Array.from({ length: size }, (_, offset) => {
+            const index = groupStarts[group] + offset;
+            return (
+              <input
+                key={index}
+                ref={(el) => { inputRefs.current[index] = el; }}
+                type={masked ? 'password' : 'text'}
+                inputMode={charset === 'numeric' ? 'numeric' : 'text'}
+                className={`otp-input-box ${invalid ? 'otp-input-box-error' : ''}`}
+                value={value[index] ?? ''}
+                onChange={(e) => handleChange(index, e)}
+                onKeyDown={(e) => handleKeyDown(index, e)}
+                onPaste={(e) => handlePaste(index, e)}
+                onFocus={(e) => handleFocus(index, e)}
+                disabled={disabled}
+                autoComplete={index === 0 ? 'one-time-code' : 'off'}
+                autoCapitalize="off"
+                spellCheck={false}
+                aria-label={t('otp.character', { index: index + 1, length })}
+                aria-invalid={invalid || undefined}
+              />
+            );
+          })}
+        </Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default OtpInput;
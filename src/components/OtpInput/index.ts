@@ -0,0 +1 @@
+export { OtpInput, default, type OtpCharset, type OtpInputHandle } from './OtpInput';
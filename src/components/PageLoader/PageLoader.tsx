@@ -0,0 +1,32 @@
+import { useI18n } from '../../i18n';
+import './PageLoader.css';
+
+interface PageLoaderProps {
+  // "Restoring your session..." by default
+  message?: string;
+}
+
+// Full-page spinner, e.g. while a stored session is being restored
+export const PageLoader = ({ message }: PageLoaderProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="page-loader" role="status" aria-live="polite">
+      <svg
+        aria-hidden="true"
+        className="page-loader-spinner"
+        width="32"
+        height="32"
+        viewBox="0 0 24 24"
+        fill="none"
+        xmlns="http://www.w3.org/2000/svg"
+      >
+        <circle className="page-loader-track" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+        <path d="M12 2a10 10 0 019.95 9" stroke="currentColor" strokeWidth="4" strokeLinecap="round" />
+      </svg>
+      <p className="page-loader-message">{message ?? t('common.loadingSession')}</p>
+    </div>
+  );
+};
+
+export default PageLoader;
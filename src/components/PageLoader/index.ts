@@ -0,0 +1 @@
+export { PageLoader, default } from './PageLoader';
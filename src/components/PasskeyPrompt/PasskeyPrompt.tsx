@@ -0,0 +1,55 @@
+import { useCallback } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { registerPasskey } from '../../api/auth';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type { PasskeyRegistrationResponse } from '../../api/types';
+import { useI18n } from '../../i18n';
+import './PasskeyPrompt.css';
+
+interface PasskeyPromptProps {
+  onRegistered?: (response: PasskeyRegistrationResponse) => void;
+}
+
+// Offers passkey creation after a password + 2FA sign-in
+export const PasskeyPrompt = ({ onRegistered }: PasskeyPromptProps) => {
+  const { t } = useI18n();
+  const registerMutation = useMutation<PasskeyRegistrationResponse, ApiClientError, void>({
+    mutationFn: registerPasskey,
+    onSuccess: (data) => {
+      onRegistered?.(data);
+    },
+  });
+
+  const handleRegister = useCallback(() => {
+    registerMutation.mutate();
+  }, [registerMutation]);
+
+  if (registerMutation.isSuccess) {
+    return (
+      <div className="passkey-prompt passkey-prompt-success" role="status">
+        {t('passkeyPrompt.success')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="passkey-prompt">
+      <p className="passkey-prompt-title">{t('passkeyPrompt.title')}</p>
+      <p className="passkey-prompt-description">{t('passkeyPrompt.description')}</p>
+      {registerMutation.error && (
+        <p className="passkey-prompt-error" role="alert">{getErrorMessage(registerMutation.error, 'passkeyRegistration', t)}</p>
+      )}
+      <button
+        type="button"
+        className="passkey-prompt-button"
+        onClick={handleRegister}
+        disabled={registerMutation.isPending}
+      >
+        {registerMutation.isPending ? t('common.waitingForPasskey') : t('passkeyPrompt.submit')}
+      </button>
+    </div>
+  );
+};
+
+export default PasskeyPrompt;
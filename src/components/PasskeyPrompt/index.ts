@@ -0,0 +1 @@
+export { PasskeyPrompt, default } from './PasskeyPrompt';
\ No newline at end of file
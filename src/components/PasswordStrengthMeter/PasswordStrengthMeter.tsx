@@ -0,0 +1,43 @@
+import { useI18n } from '../../i18n';
+import { MIN_PASSWORD_LENGTH, type PasswordStrength } from '../../utils/passwordStrength';
+import './PasswordStrengthMeter.css';
+
+// Suggestions shown at once - more than two reads like a lecture
+const MAX_SUGGESTIONS = 2;
+
+interface PasswordStrengthMeterProps {
+  strength: PasswordStrength;
+  id?: string;
+}
+
+export const PasswordStrengthMeter = ({ strength, id }: PasswordStrengthMeterProps) => {
+  const { t, rich } = useI18n();
+
+  return (
+    <div className="password-strength" id={id} aria-live="polite">
+      <div className="password-strength-bars" aria-hidden="true">
+        {[1, 2, 3, 4].map((level) => (
+          <span
+            key={level}
+            className={`password-strength-bar ${strength.score >= level ? `password-strength-score-${strength.score}` : ''}`}
+          />
+        ))}
+      </div>
+      <p className="password-strength-label">
+        {rich('passwordStrength.label', { level: t(strength.label) })}
+      </p>
+      {strength.warning && (
+        <p className="password-strength-warning">{t(strength.warning, { minLength: MIN_PASSWORD_LENGTH })}</p>
+      )}
+      {strength.suggestions.length > 0 && (
+        <ul className="password-strength-suggestions">
+          {strength.suggestions.slice(0, MAX_SUGGESTIONS).map((suggestion) => (
+            <li key={suggestion}>{t(suggestion)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
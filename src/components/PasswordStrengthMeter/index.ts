@@ -0,0 +1 @@
+export { PasswordStrengthMeter, default } from './PasswordStrengthMeter';
@@ -0,0 +1,28 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router';
+import { useAuth } from '../../app/authContext';
+import { buildLoginPath } from '../../app/routes';
+import { PageLoader } from '../PageLoader';
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+}
+
+// Renders children for signed-in users; everyone else goes to /login?returnTo=<this page>
+export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
+  const { status } = useAuth();
+  const location = useLocation();
+
+  if (status === 'loading') {
+    return <PageLoader />;
+  }
+
+  if (status === 'unauthenticated') {
+    const returnTo = `${location.pathname}${location.search}${location.hash}`;
+    return <Navigate to={buildLoginPath(returnTo)} replace />;
+  }
+
+  return children;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1 @@
+export { ProtectedRoute, default } from './ProtectedRoute';
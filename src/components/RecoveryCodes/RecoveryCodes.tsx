@@ -0,0 +1,61 @@
+import { useCallback } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { regenerateRecoveryCodes } from '../../api/auth';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type { RegenerateRecoveryCodesResponse } from '../../api/types';
+import { useI18n } from '../../i18n';
+import './RecoveryCodes.css';
+
+// Replaces the user's recovery codes. The server asks for a step-up first,
+// which the API client hands to the step-up dialog.
+export const RecoveryCodes = () => {
+  const { t } = useI18n();
+
+  const regenerateMutation = useMutation<RegenerateRecoveryCodesResponse, ApiClientError>({
+    mutationFn: regenerateRecoveryCodes,
+  });
+
+  const handleGenerate = useCallback(() => {
+    regenerateMutation.mutate();
+  }, [regenerateMutation]);
+
+  const recoveryCodes = regenerateMutation.data?.recoveryCodes;
+
+  return (
+    <section className="recovery-codes" aria-labelledby="recovery-codes-title">
+      <h2 id="recovery-codes-title" className="recovery-codes-title">{t('recoveryCodes.title')}</h2>
+      <p className="recovery-codes-description">{t('recoveryCodes.description')}</p>
+
+      {recoveryCodes && (
+        <>
+          <p className="recovery-codes-generated" role="status">{t('recoveryCodes.generated')}</p>
+          <ul className="recovery-codes-items">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>
+                <code>{recoveryCode}</code>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <button
+        type="button"
+        className="recovery-codes-generate"
+        onClick={handleGenerate}
+        disabled={regenerateMutation.isPending}
+      >
+        {regenerateMutation.isPending ? t('recoveryCodes.generating') : t('recoveryCodes.generate')}
+      </button>
+
+      {regenerateMutation.error && (
+        <p className="recovery-codes-error" role="alert">
+          {getErrorMessage(regenerateMutation.error, 'recoveryCodes', t)}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default RecoveryCodes;
@@ -0,0 +1 @@
+export { RecoveryCodes, default } from './RecoveryCodes';
\ No newline at end of file
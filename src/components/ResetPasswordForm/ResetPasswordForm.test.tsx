@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { renderWithProviders } from '../../test/render';
+import { expectNoAxeViolations } from '../../test/axe';
+import { ResetPasswordForm } from './ResetPasswordForm';
+
+describe('ResetPasswordForm accessibility', () => {
+  it('has no axe violations', async () => {
+    const { container } = renderWithProviders(<ResetPasswordForm token="reset-token" />);
+
+    await expectNoAxeViolations(container);
+  });
+
+  it('links the mismatch error to the confirmation input', async () => {
+    const user = userEvent.setup();
+    const { container } = renderWithProviders(<ResetPasswordForm token="reset-token" />);
+
+    await user.type(screen.getByLabelText('New password'), 'correct horse battery staple');
+    const confirm = screen.getByLabelText('Confirm new password');
+    await user.type(confirm, 'correct horse');
+    await user.tab();
+
+    expect(confirm).toHaveAttribute('aria-invalid', 'true');
+    expect(confirm).toHaveAccessibleDescription('Passwords do not match');
+    await expectNoAxeViolations(container);
+  });
+});
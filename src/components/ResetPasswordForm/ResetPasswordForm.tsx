@@ -0,0 +1,226 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'react-router';
+import { resetPassword } from '../../api/auth';
+import { ROUTES } from '../../app/routes';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type { ResetPasswordRequest } from '../../api/types';
+import { estimatePasswordStrength, MIN_PASSWORD_SCORE } from '../../utils/passwordStrength';
+import { useI18n } from '../../i18n';
+import { PasswordStrengthMeter } from '../PasswordStrengthMeter';
+import { ErrorSummary } from '../ErrorSummary';
+import './ResetPasswordForm.css';
+
+interface ResetPasswordFormProps {
+  // Single-use token from the reset link
+  token: string;
+  onSuccess?: () => void;
+}
+
+export const ResetPasswordForm = ({ token, onSuccess }: ResetPasswordFormProps) => {
+  const { t } = useI18n();
+
+  // Form state
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [touched, setTouched] = useState({ password: false, confirmPassword: false });
+
+  const strength = useMemo(() => estimatePasswordStrength(password), [password]);
+
+  // Validation
+  const passwordError = useMemo(() => {
+    if (!touched.password) return '';
+    if (!password) return t('validation.passwordRequired');
+    if (strength.score < MIN_PASSWORD_SCORE) return t('validation.passwordWeak');
+    return '';
+  }, [password, strength.score, touched.password, t]);
+
+  const confirmPasswordError = useMemo(() => {
+    if (!touched.confirmPassword) return '';
+    if (!confirmPassword) return t('validation.confirmPasswordRequired');
+    if (confirmPassword !== password) return t('validation.passwordMismatch');
+    return '';
+  }, [confirmPassword, password, touched.confirmPassword, t]);
+
+  const isFormValid = useMemo(() => {
+    return strength.score >= MIN_PASSWORD_SCORE && confirmPassword === password;
+  }, [strength.score, confirmPassword, password]);
+
+  // Password reset mutation
+  const resetMutation = useMutation<void, ApiClientError, ResetPasswordRequest>({
+    mutationFn: resetPassword,
+    onSuccess: () => {
+      onSuccess?.();
+    },
+  });
+
+  // Handlers
+  const handlePasswordChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setPassword(e.target.value);
+  }, []);
+
+  const handleConfirmPasswordChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setConfirmPassword(e.target.value);
+  }, []);
+
+  const handleBlur = useCallback((e: React.FocusEvent<HTMLInputElement>) => {
+    const field = e.target.name as keyof typeof touched;
+    setTouched((prev) => ({ ...prev, [field]: true }));
+  }, []);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+
+      // Mark all fields as touched
+      setTouched({ password: true, confirmPassword: true });
+
+      if (!isFormValid) return;
+
+      resetMutation.mutate({ token, password });
+    },
+    [token, password, isFormValid, resetMutation]
+  );
+
+  const apiError = resetMutation.error ? getErrorMessage(resetMutation.error, 'passwordReset', t) : '';
+  // A dead link can't be fixed by retrying - offer a new one instead
+  const isLinkDead =
+    resetMutation.error?.code === 'reset_token_invalid' || resetMutation.error?.code === 'reset_token_expired';
+
+  return (
+    <main className="reset-password-container">
+      <div className="reset-password-card">
+        {/* Title */}
+        <h1 className="reset-password-title">{t('resetPassword.title')}</h1>
+
+        {/* Description */}
+        <p className="reset-password-description">
+          {t('resetPassword.description')}
+        </p>
+
+        {/* Form */}
+        <form className="reset-password-form" onSubmit={handleSubmit}>
+          {/* Password field */}
+          <div className="form-group">
+            <label htmlFor="reset-password-password" className="form-label">
+              {t('resetPassword.password')}
+            </label>
+            <input
+              type="password"
+              id="reset-password-password"
+              name="password"
+              className={`form-input ${passwordError ? 'form-input-error' : ''}`}
+              value={password}
+              onChange={handlePasswordChange}
+              onBlur={handleBlur}
+              placeholder={t('field.newPasswordPlaceholder')}
+              disabled={resetMutation.isPending}
+              autoComplete="new-password"
+              aria-invalid={!!passwordError || undefined}
+              aria-describedby={
+                [passwordError && 'reset-password-password-error', password && 'reset-password-strength']
+                  .filter(Boolean)
+                  .join(' ') || undefined
+              }
+            />
+            {passwordError && (
+              <span id="reset-password-password-error" className="form-error">
+                {passwordError}
+              </span>
+            )}
+            {password && <PasswordStrengthMeter id="reset-password-strength" strength={strength} />}
+          </div>
+
+          {/* Confirm password field */}
+          <div className="form-group">
+            <label htmlFor="reset-password-confirm" className="form-label">
+              {t('resetPassword.confirmPassword')}
+            </label>
+            <input
+              type="password"
+              id="reset-password-confirm"
+              name="confirmPassword"
+              className={`form-input ${confirmPasswordError ? 'form-input-error' : ''}`}
+              value={confirmPassword}
+              onChange={handleConfirmPasswordChange}
+              onBlur={handleBlur}
+              placeholder={t('field.repeatPasswordPlaceholder')}
+              disabled={resetMutation.isPending}
+              autoComplete="new-password"
+              aria-invalid={!!confirmPasswordError || undefined}
+              aria-describedby={confirmPasswordError ? 'reset-password-confirm-error' : undefined}
+            />
+            {confirmPasswordError && (
+              <span id="reset-password-confirm-error" className="form-error">
+                {confirmPasswordError}
+              </span>
+            )}
+          </div>
+
+          {/* API Error */}
+          {apiError && (
+            <ErrorSummary autoFocus>
+              {apiError}
+              {isLinkDead && (
+                <>
+                  {' '}
+                  <Link to={ROUTES.forgotPassword} className="reset-password-new-link">
+                    {t('resetPassword.requestNewLink')}
+                  </Link>
+                </>
+              )}
+            </ErrorSummary>
+          )}
+
+          {/* Submit button */}
+          <button
+            type="submit"
+            className="submit-button"
+            disabled={!isFormValid || isLinkDead || resetMutation.isPending}
+          >
+            {resetMutation.isPending ? (
+              <>
+                <svg
+                  aria-hidden="true"
+                  className="spinner"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <circle
+                    className="spinner-track"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="spinner-head"
+                    d="M12 2a10 10 0 019.95 9"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                    strokeLinecap="round"
+                  />
+                </svg>
+                <span>{t('resetPassword.submitting')}</span>
+              </>
+            ) : (
+              t('resetPassword.submit')
+            )}
+          </button>
+        </form>
+
+        {/* Sign-in link */}
+        <p className="reset-password-footer">
+          <Link to={ROUTES.login}>{t('common.backToSignIn')}</Link>
+        </p>
+      </div>
+    </main>
+  );
+};
+
+export default ResetPasswordForm;
@@ -0,0 +1 @@
+export { ResetPasswordForm, default } from './ResetPasswordForm';
@@ -0,0 +1,34 @@
+import { useExpiryCountdown } from '../../hooks/useExpiryCountdown';
+import { formatRetryIn } from '../../hooks/useAttemptLimit';
+import { useI18n } from '../../i18n';
+import './SessionCountdown.css';
+
+// Warn once this many seconds are left
+const WARNING_THRESHOLD = 60;
+
+interface SessionCountdownProps {
+  // When the 2FA session's temp token stops being accepted (ISO timestamp)
+  expiresAt: string;
+  // Called once the time is up
+  onExpire?: () => void;
+}
+
+// Time left to finish the 2FA step. The ticking time isn't a live region -
+// screen readers hear the warning once, when it appears.
+export const SessionCountdown = ({ expiresAt, onExpire }: SessionCountdownProps) => {
+  const { t } = useI18n();
+  const secondsLeft = useExpiryCountdown(expiresAt, onExpire);
+
+  if (secondsLeft === undefined) return null;
+
+  const expiringSoon = secondsLeft <= WARNING_THRESHOLD;
+
+  return (
+    <div className={`session-countdown ${expiringSoon ? 'session-countdown-warning' : ''}`}>
+      <p className="session-countdown-time">{t('twoFactor.expiresIn', { time: formatRetryIn(secondsLeft) })}</p>
+      {expiringSoon && <p role="alert">{t('twoFactor.expiringSoon')}</p>}
+    </div>
+  );
+};
+
+export default SessionCountdown;
@@ -0,0 +1 @@
+export { SessionCountdown, default } from './SessionCountdown';
\ No newline at end of file
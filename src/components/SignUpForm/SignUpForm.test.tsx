@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { renderWithProviders } from '../../test/render';
+import { expectNoAxeViolations } from '../../test/axe';
+import { SignUpForm } from './SignUpForm';
+
+describe('SignUpForm accessibility', () => {
+  it('has no axe violations', async () => {
+    const { container } = renderWithProviders(<SignUpForm />);
+
+    await expectNoAxeViolations(container);
+  });
+
+  it('links field errors and the strength meter to their inputs', async () => {
+    const user = userEvent.setup();
+    const { container } = renderWithProviders(<SignUpForm />);
+
+    const password = screen.getByLabelText('Password');
+    await user.type(password, 'abc');
+    await user.type(screen.getByLabelText('Confirm password'), 'abd');
+    await user.tab();
+
+    expect(password).toHaveAttribute('aria-invalid', 'true');
+    expect(password).toHaveAccessibleDescription(expect.stringContaining('Please choose a stronger password'));
+    expect(password).toHaveAccessibleDescription(expect.stringContaining('Password strength'));
+    expect(screen.getByLabelText('Confirm password')).toHaveAccessibleDescription('Passwords do not match');
+    await expectNoAxeViolations(container);
+  });
+});
@@ -0,0 +1,281 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'react-router';
+import { register } from '../../api/auth';
+import { ROUTES } from '../../app/routes';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type { RegisterRequest, RegisterResponse } from '../../api/types';
+import { estimatePasswordStrength, MIN_PASSWORD_SCORE, type PasswordStrength } from '../../utils/passwordStrength';
+import { useServerFieldErrors } from '../../hooks/useServerFieldErrors';
+import type { FieldError } from '../../form';
+import { useI18n } from '../../i18n';
+import { PasswordStrengthMeter } from '../PasswordStrengthMeter';
+import { ErrorSummary } from '../ErrorSummary';
+import './SignUpForm.css';
+
+// Email validation regex
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Inputs in form order - server field errors are matched by these names
+const SIGN_UP_FIELDS = ['email', 'password', 'confirmPassword'] as const;
+
+const validateEmail = (email: string): FieldError => {
+  if (!email) return 'validation.emailRequired';
+  if (!EMAIL_REGEX.test(email)) return 'validation.emailInvalid';
+  return '';
+};
+
+const validatePassword = (password: string, strength: PasswordStrength): FieldError => {
+  if (!password) return 'validation.passwordRequired';
+  if (strength.score < MIN_PASSWORD_SCORE) return 'validation.passwordWeak';
+  return '';
+};
+
+const validateConfirmPassword = (confirmPassword: string, password: string): FieldError => {
+  if (!confirmPassword) return 'validation.confirmPasswordRequired';
+  if (confirmPassword !== password) return 'validation.passwordMismatch';
+  return '';
+};
+
+interface SignUpFormProps {
+  onSuccess?: (response: RegisterResponse, email: string) => void;
+}
+
+export const SignUpForm = ({ onSuccess }: SignUpFormProps) => {
+  const { t, rich } = useI18n();
+
+  // Form state
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [touched, setTouched] = useState({ email: false, password: false, confirmPassword: false });
+
+  const { formRef, getError, applyApiError, clearServerError, focusFirstInvalid, isShownOnFields } =
+    useServerFieldErrors(SIGN_UP_FIELDS);
+
+  const strength = useMemo(() => estimatePasswordStrength(password, [email]), [password, email]);
+
+  // Validation - server field errors show until the field is edited
+  const emailError = useMemo(() => {
+    const error = touched.email ? validateEmail(email) : '';
+    return getError('email', error && t(error));
+  }, [email, touched.email, getError, t]);
+
+  const passwordError = useMemo(() => {
+    const error = touched.password ? validatePassword(password, strength) : '';
+    return getError('password', error && t(error));
+  }, [password, strength, touched.password, getError, t]);
+
+  const confirmPasswordError = useMemo(() => {
+    const error = touched.confirmPassword ? validateConfirmPassword(confirmPassword, password) : '';
+    return getError('confirmPassword', error && t(error));
+  }, [confirmPassword, password, touched.confirmPassword, getError, t]);
+
+  const isFormValid = useMemo(() => {
+    return EMAIL_REGEX.test(email) && strength.score >= MIN_PASSWORD_SCORE && confirmPassword === password;
+  }, [email, strength.score, confirmPassword, password]);
+
+  // Registration mutation
+  const registerMutation = useMutation<RegisterResponse, ApiClientError, RegisterRequest>({
+    mutationFn: register,
+    onSuccess: (data, variables) => {
+      onSuccess?.(data, variables.email);
+    },
+    onError: applyApiError,
+  });
+
+  // Handlers
+  const handleEmailChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setEmail(e.target.value);
+    clearServerError('email');
+  }, [clearServerError]);
+
+  const handlePasswordChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setPassword(e.target.value);
+    clearServerError('password');
+  }, [clearServerError]);
+
+  const handleConfirmPasswordChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setConfirmPassword(e.target.value);
+    clearServerError('confirmPassword');
+  }, [clearServerError]);
+
+  const handleBlur = useCallback((e: React.FocusEvent<HTMLInputElement>) => {
+    const field = e.target.name as keyof typeof touched;
+    setTouched((prev) => ({ ...prev, [field]: true }));
+  }, []);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+
+      // Mark all fields as touched
+      setTouched({ email: true, password: true, confirmPassword: true });
+
+      if (!isFormValid) {
+        focusFirstInvalid({
+          email: validateEmail(email),
+          password: validatePassword(password, strength),
+          confirmPassword: validateConfirmPassword(confirmPassword, password),
+        });
+        return;
+      }
+
+      registerMutation.mutate({ email: email.trim(), password });
+    },
+    [email, password, confirmPassword, strength, isFormValid, focusFirstInvalid, registerMutation]
+  );
+
+  const apiError =
+    registerMutation.error && !isShownOnFields(registerMutation.error)
+      ? getErrorMessage(registerMutation.error, 'signUp', t)
+      : '';
+
+  return (
+    <main className="sign-up-form-container">
+      <div className="sign-up-form-card">
+        {/* Title */}
+        <h1 className="sign-up-form-title">{t('signUp.title')}</h1>
+
+        {/* Form */}
+        <form ref={formRef} className="sign-up-form" onSubmit={handleSubmit}>
+          {/* Email field */}
+          <div className="form-group">
+            <label htmlFor="sign-up-email" className="form-label">
+              {t('field.email')}
+            </label>
+            <input
+              type="email"
+              id="sign-up-email"
+              name="email"
+              className={`form-input ${emailError ? 'form-input-error' : ''}`}
+              value={email}
+              onChange={handleEmailChange}
+              onBlur={handleBlur}
+              placeholder={t('field.emailPlaceholder')}
+              disabled={registerMutation.isPending}
+              autoComplete="email"
+              aria-invalid={!!emailError || undefined}
+              aria-describedby={emailError ? 'sign-up-email-error' : undefined}
+            />
+            {emailError && (
+              <span id="sign-up-email-error" className="form-error">
+                {emailError}
+              </span>
+            )}
+          </div>
+
+          {/* Password field */}
+          <div className="form-group">
+            <label htmlFor="sign-up-password" className="form-label">
+              {t('field.password')}
+            </label>
+            <input
+              type="password"
+              id="sign-up-password"
+              name="password"
+              className={`form-input ${passwordError ? 'form-input-error' : ''}`}
+              value={password}
+              onChange={handlePasswordChange}
+              onBlur={handleBlur}
+              placeholder={t('field.newPasswordPlaceholder')}
+              disabled={registerMutation.isPending}
+              autoComplete="new-password"
+              aria-invalid={!!passwordError || undefined}
+              aria-describedby={
+                [passwordError && 'sign-up-password-error', password && 'sign-up-password-strength']
+                  .filter(Boolean)
+                  .join(' ') || undefined
+              }
+            />
+            {passwordError && (
+              <span id="sign-up-password-error" className="form-error">
+                {passwordError}
+              </span>
+            )}
+            {password && <PasswordStrengthMeter id="sign-up-password-strength" strength={strength} />}
+          </div>
+
+          {/* Confirm password field */}
+          <div className="form-group">
+            <label htmlFor="sign-up-confirm-password" className="form-label">
+              {t('signUp.confirmPassword')}
+            </label>
+            <input
+              type="password"
+              id="sign-up-confirm-password"
+              name="confirmPassword"
+              className={`form-input ${confirmPasswordError ? 'form-input-error' : ''}`}
+              value={confirmPassword}
+              onChange={handleConfirmPasswordChange}
+              onBlur={handleBlur}
+              placeholder={t('field.repeatPasswordPlaceholder')}
+              disabled={registerMutation.isPending}
+              autoComplete="new-password"
+              aria-invalid={!!confirmPasswordError || undefined}
+              aria-describedby={confirmPasswordError ? 'sign-up-confirm-password-error' : undefined}
+            />
+            {confirmPasswordError && (
+              <span id="sign-up-confirm-password-error" className="form-error">
+                {confirmPasswordError}
+              </span>
+            )}
+          </div>
+
+          {/* API Error */}
+          {apiError && <ErrorSummary autoFocus>{apiError}</ErrorSummary>}
+
+          {/* Submit button */}
+          <button
+            type="submit"
+            className="submit-button"
+            disabled={!isFormValid || registerMutation.isPending}
+          >
+            {registerMutation.isPending ? (
+              <>
+                <svg
+                  aria-hidden="true"
+                  className="spinner"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <circle
+                    className="spinner-track"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="spinner-head"
+                    d="M12 2a10 10 0 019.95 9"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                    strokeLinecap="round"
+                  />
+                </svg>
+                <span>{t('signUp.submitting')}</span>
+              </>
+            ) : (
+              t('signUp.submit')
+            )}
+          </button>
+        </form>
+
+        {/* Sign-in link */}
+        <p className="sign-up-form-footer">
+          {rich('signUp.signInPrompt', undefined, {
+            link: (children) => <Link to={ROUTES.login}>{children}</Link>,
+          })}
+        </p>
+      </div>
+    </main>
+  );
+};
+
+export default SignUpForm;
@@ -0,0 +1 @@
+export { SignUpForm, default } from './SignUpForm';
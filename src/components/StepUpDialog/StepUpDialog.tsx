@@ -0,0 +1,207 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { verifyStepUp } from '../../api/auth';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type { StepUpMethod, StepUpRequest, StepUpResponse } from '../../api/types';
+import { formatRetryIn, useAttemptLimit } from '../../hooks/useAttemptLimit';
+import { useStepUp } from '../../hooks/useStepUp';
+import { useI18n } from '../../i18n';
+import { ChallengeWidget } from '../ChallengeWidget';
+import { ErrorSummary } from '../ErrorSummary';
+import { OtpInput, type OtpInputHandle } from '../OtpInput';
+import './StepUpDialog.css';
+
+// Authenticator code length
+const CODE_LENGTH = 6;
+
+// Shown as 123 456
+const CODE_GROUPS = [3, 3];
+
+interface StepUpFormProps {
+  methods: StepUpMethod[];
+  onSuccess: (response: StepUpResponse) => void;
+  onCancel: () => void;
+}
+
+// Password or authenticator code for one challenge
+const StepUpForm = ({ methods, onSuccess, onCancel }: StepUpFormProps) => {
+  const { t } = useI18n();
+  const [method, setMethod] = useState<StepUpMethod>(methods.includes('totp') ? 'totp' : 'password');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const passwordInputRef = useRef<HTMLInputElement>(null);
+  const codeInputRef = useRef<OtpInputHandle>(null);
+  const attemptLimit = useAttemptLimit();
+
+  // Focus the input on open and method change; give focus back on close
+  useEffect(() => {
+    if (method === 'password') {
+      passwordInputRef.current?.focus();
+    } else {
+      codeInputRef.current?.focus();
+    }
+  }, [method]);
+
+  useEffect(() => {
+    const opener = document.activeElement;
+    return () => {
+      if (opener instanceof HTMLElement) opener.focus();
+    };
+  }, []);
+
+  const verifyMutation = useMutation<StepUpResponse, ApiClientError, StepUpRequest>({
+    mutationFn: verifyStepUp,
+    onSuccess,
+    onError: attemptLimit.handleError,
+  });
+
+  const isChallengeMissing = attemptLimit.challengeRequired && !attemptLimit.challengeToken;
+  const canSubmit =
+    (method === 'password' ? password.length > 0 : code.length === CODE_LENGTH) &&
+    !attemptLimit.isBlocked &&
+    !isChallengeMissing &&
+    !verifyMutation.isPending;
+
+  const verify = useCallback(
+    (request: StepUpRequest) => {
+      if (attemptLimit.isBlocked || isChallengeMissing || verifyMutation.isPending) return;
+
+      verifyMutation.mutate({ ...request, challengeToken: attemptLimit.challengeToken ?? undefined });
+    },
+    [attemptLimit, isChallengeMissing, verifyMutation]
+  );
+
+  const verifyCode = useCallback((completeCode: string) => verify({ method: 'totp', code: completeCode }), [verify]);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!canSubmit) return;
+
+      verify(method === 'password' ? { method, password } : { method, code });
+    },
+    [canSubmit, method, password, code, verify]
+  );
+
+  const handlePasswordChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setPassword(e.target.value);
+  }, []);
+
+  const handleToggleMethod = useCallback(() => {
+    setMethod((prev) => (prev === 'totp' ? 'password' : 'totp'));
+    verifyMutation.reset();
+  }, [verifyMutation]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    },
+    [onCancel]
+  );
+
+  const apiError = verifyMutation.error ? getErrorMessage(verifyMutation.error, 'stepUp', t) : '';
+
+  return (
+    <div className="step-up-backdrop">
+      <div
+        className="step-up-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="step-up-title"
+        aria-describedby="step-up-description"
+        onKeyDown={handleKeyDown}
+      >
+        <h2 id="step-up-title" className="step-up-title">{t('stepUp.title')}</h2>
+        <p id="step-up-description" className="step-up-description">
+          {t(method === 'password' ? 'stepUp.description.password' : 'stepUp.description.totp')}
+        </p>
+
+        <form className="step-up-form" onSubmit={handleSubmit}>
+          {method === 'password' ? (
+            <label className="step-up-field">
+              <span>{t('field.password')}</span>
+              <input
+                ref={passwordInputRef}
+                type="password"
+                className="step-up-input"
+                value={password}
+                onChange={handlePasswordChange}
+                disabled={verifyMutation.isPending}
+                autoComplete="current-password"
+                aria-invalid={!!apiError || undefined}
+              />
+            </label>
+          ) : (
+            <OtpInput
+              ref={codeInputRef}
+              value={code}
+              onChange={setCode}
+              onComplete={verifyCode}
+              length={CODE_LENGTH}
+              groups={CODE_GROUPS}
+              invalid={!!apiError}
+              disabled={verifyMutation.isPending}
+              describedBy="step-up-description"
+            />
+          )}
+
+          {/* API Error */}
+          {apiError && <ErrorSummary autoFocus>{apiError}</ErrorSummary>}
+
+          {/* Attempts left before step-up is paused or the account is locked */}
+          {verifyMutation.isError && attemptLimit.attemptsRemaining !== undefined && !attemptLimit.isBlocked && (
+            <p className="step-up-attempts" role="status">
+              {t('attempts.remaining', { count: attemptLimit.attemptsRemaining })}
+            </p>
+          )}
+
+          {/* Security check after repeated failures */}
+          {attemptLimit.challengeRequired && (
+            <ChallengeWidget
+              key={attemptLimit.challengeKey}
+              onVerify={attemptLimit.setChallengeToken}
+              onExpire={attemptLimit.clearChallengeToken}
+              disabled={verifyMutation.isPending}
+            />
+          )}
+
+          {methods.length > 1 && (
+            <button
+              type="button"
+              className="step-up-toggle"
+              onClick={handleToggleMethod}
+              disabled={verifyMutation.isPending}
+            >
+              {t(method === 'totp' ? 'stepUp.usePassword' : 'stepUp.useAuthenticator')}
+            </button>
+          )}
+
+          <div className="step-up-actions">
+            <button type="button" className="step-up-cancel" onClick={onCancel}>
+              {t('stepUp.cancel')}
+            </button>
+            <button type="submit" className="step-up-submit" disabled={!canSubmit}>
+              {verifyMutation.isPending
+                ? t('stepUp.submitting')
+                : attemptLimit.isBlocked
+                  ? t('attempts.tryAgainIn', { time: formatRetryIn(attemptLimit.retryIn) })
+                  : t('stepUp.submit')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+// Modal for step-up challenges started by the API client. Mount once, inside
+// the providers; it renders nothing until a request needs a step-up.
+export const StepUpDialog = () => {
+  const { challenge, complete, cancel } = useStepUp();
+  if (!challenge) return null;
+
+  return <StepUpForm methods={challenge.methods} onSuccess={complete} onCancel={cancel} />;
+};
+
+export default StepUpDialog;
@@ -0,0 +1 @@
+export { StepUpDialog, default } from './StepUpDialog';
\ No newline at end of file
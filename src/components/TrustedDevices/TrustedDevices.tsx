@@ -0,0 +1,97 @@
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getTrustedDevices, revokeTrustedDevice } from '../../api/auth';
+import { removeDeviceToken } from '../../api/deviceTokens';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type { TrustedDevice, TrustedDevicesResponse } from '../../api/types';
+import { useI18n } from '../../i18n';
+import './TrustedDevices.css';
+
+interface TrustedDevicesProps {
+  // The signed-in user - picks this browser's device token
+  email: string;
+}
+
+// Devices that skip 2FA, each with a button to stop trusting it
+export const TrustedDevices = ({ email }: TrustedDevicesProps) => {
+  const { t, locale } = useI18n();
+  const queryClient = useQueryClient();
+  const queryKey = useMemo(() => ['trusted-devices', email], [email]);
+  const formatDate = useMemo(() => new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format, [locale]);
+
+  const devicesQuery = useQuery<TrustedDevicesResponse, ApiClientError>({
+    queryKey,
+    queryFn: () => getTrustedDevices(email),
+  });
+
+  const revokeMutation = useMutation<void, ApiClientError, TrustedDevice>({
+    mutationFn: (device) => revokeTrustedDevice(device.id),
+    onSuccess: (_data, device) => {
+      // This browser will be asked for a code on its next sign-in
+      if (device.current) {
+        removeDeviceToken(email);
+      }
+      return queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const handleRevoke = useCallback(
+    (device: TrustedDevice) => {
+      revokeMutation.mutate(device);
+    },
+    [revokeMutation]
+  );
+
+  const devices = devicesQuery.data?.devices;
+  const error = devicesQuery.error ?? revokeMutation.error;
+
+  return (
+    <section className="trusted-devices" aria-labelledby="trusted-devices-title">
+      <h2 id="trusted-devices-title" className="trusted-devices-title">{t('trustedDevices.title')}</h2>
+      <p className="trusted-devices-description">{t('trustedDevices.description')}</p>
+
+      {devicesQuery.isPending && <p className="trusted-devices-status">{t('trustedDevices.loading')}</p>}
+      {devices?.length === 0 && <p className="trusted-devices-status">{t('trustedDevices.empty')}</p>}
+
+      {devices && devices.length > 0 && (
+        <ul className="trusted-devices-list">
+          {devices.map((device) => (
+            <li key={device.id} className="trusted-device">
+              <div className="trusted-device-info">
+                <p className="trusted-device-name">
+                  {device.name}
+                  {device.current && <span className="trusted-device-current">{t('trustedDevices.current')}</span>}
+                </p>
+                <p className="trusted-device-details">
+                  {t('trustedDevices.details', {
+                    lastUsed: formatDate(new Date(device.lastUsedAt)),
+                    expiresAt: formatDate(new Date(device.expiresAt)),
+                  })}
+                </p>
+              </div>
+              <button
+                type="button"
+                className="trusted-device-revoke"
+                onClick={() => handleRevoke(device)}
+                disabled={revokeMutation.isPending}
+                aria-label={t('trustedDevices.revokeLabel', { name: device.name })}
+              >
+                {t('trustedDevices.revoke')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="trusted-devices-error" role="alert">{getErrorMessage(error, 'trustedDevices', t)}</p>
+      )}
+      <p className="trusted-devices-revoked" role="status">
+        {revokeMutation.isSuccess && t('trustedDevices.revoked', { name: revokeMutation.variables.name })}
+      </p>
+    </section>
+  );
+};
+
+export default TrustedDevices;
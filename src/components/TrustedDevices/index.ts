@@ -0,0 +1 @@
+export { TrustedDevices, default } from './TrustedDevices';
\ No newline at end of file
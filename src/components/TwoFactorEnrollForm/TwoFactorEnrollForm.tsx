@@ -0,0 +1,266 @@
+import { useState, useCallback, useEffect, useEffectEvent, useMemo } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { start2FAEnrollment, confirm2FAEnrollment, saveTokens } from '../../api/auth';
+import type {
+  Start2FAEnrollmentResponse,
+  Confirm2FAEnrollmentCredentials,
+  Confirm2FAEnrollmentResponse,
+} from '../../api/types';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import { useHeadingFocus } from '../../hooks/useHeadingFocus';
+import { useI18n } from '../../i18n';
+import { ErrorSummary } from '../ErrorSummary';
+import { SessionCountdown } from '../SessionCountdown';
+import './TwoFactorEnrollForm.css';
+
+// Split the secret into groups of 4 for manual entry
+const formatSecret = (secret: string): string => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+interface TwoFactorEnrollFormProps {
+  tempToken: string;
+  userEmail: string;
+  // When the temp token expires (ISO timestamp)
+  expiresAt: string;
+  onSuccess?: (response: Confirm2FAEnrollmentResponse) => void;
+  onBack?: () => void;
+  // The 2FA session ran out, by the countdown or a 2fa_expired response
+  onExpired?: () => void;
+}
+
+export const TwoFactorEnrollForm = ({
+  tempToken,
+  userEmail,
+  expiresAt,
+  onSuccess,
+  onBack,
+  onExpired,
+}: TwoFactorEnrollFormProps) => {
+  const { t, rich } = useI18n();
+
+  // Form state
+  const [code, setCode] = useState('');
+  const [enrollmentResult, setEnrollmentResult] = useState<Confirm2FAEnrollmentResponse | null>(null);
+  const headingRef = useHeadingFocus(enrollmentResult ? 'recoveryCodes' : 'setup');
+
+  // Fetch the TOTP secret once per 2FA session
+  const enrollmentQuery = useQuery<Start2FAEnrollmentResponse, ApiClientError>({
+    queryKey: ['2fa-enrollment', tempToken],
+    queryFn: () => start2FAEnrollment({ tempToken }),
+    staleTime: Infinity,
+  });
+
+  // A stale temp token can't be fixed from this screen - start over instead of showing an error
+  const handleExpired = useEffectEvent(() => onExpired?.());
+  const enrollmentErrorCode = enrollmentQuery.error?.code;
+  useEffect(() => {
+    if (enrollmentErrorCode === '2fa_expired') handleExpired();
+  }, [enrollmentErrorCode]);
+
+  const isCodeComplete = useMemo(() => /^\d{6}$/.test(code), [code]);
+
+  // Enrollment confirmation mutation
+  const confirmMutation = useMutation<Confirm2FAEnrollmentResponse, ApiClientError, Confirm2FAEnrollmentCredentials>({
+    mutationFn: confirm2FAEnrollment,
+    onSuccess: (data) => {
+      // Keep the session in the configured token store
+      saveTokens(data);
+      // Show recovery codes before finishing
+      setEnrollmentResult(data);
+    },
+    onError: (error) => {
+      if (error.code === '2fa_expired') onExpired?.();
+    },
+  });
+
+  // Handlers
+  const handleCodeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setCode(e.target.value.replace(/\D/g, '').slice(0, 6));
+  }, []);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+
+      if (!isCodeComplete) return;
+
+      confirmMutation.mutate({ tempToken, code });
+    },
+    [tempToken, code, isCodeComplete, confirmMutation]
+  );
+
+  const handleDownload = useCallback(() => {
+    if (!enrollmentResult) return;
+
+    const content = [
+      t('enroll.fileTitle', { email: userEmail }),
+      t('enroll.fileDescription'),
+      '',
+      ...enrollmentResult.recoveryCodes,
+      '',
+    ].join('\n');
+    const url = URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [enrollmentResult, userEmail, t]);
+
+  const handleContinue = useCallback(() => {
+    if (enrollmentResult) {
+      onSuccess?.(enrollmentResult);
+    }
+  }, [enrollmentResult, onSuccess]);
+
+  const apiError = enrollmentQuery.error
+    ? getErrorMessage(enrollmentQuery.error, 'enrollment', t)
+    : confirmMutation.error
+      ? getErrorMessage(confirmMutation.error, 'enrollment', t)
+      : '';
+
+  // Recovery codes step
+  if (enrollmentResult) {
+    return (
+      <main className="two-factor-enroll-container">
+        <div className="two-factor-enroll-card">
+          <h1 ref={headingRef} className="two-factor-enroll-title" tabIndex={-1}>{t('enroll.recoveryTitle')}</h1>
+          <p className="two-factor-enroll-description">{t('enroll.recoveryDescription')}</p>
+
+          <ul className="recovery-codes-list">
+            {enrollmentResult.recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>
+                <code>{recoveryCode}</code>
+              </li>
+            ))}
+          </ul>
+
+          <div className="two-factor-enroll-form">
+            <button type="button" className="back-button" onClick={handleDownload}>
+              {t('enroll.download')}
+            </button>
+            <button type="button" className="submit-button" onClick={handleContinue}>
+              {t('enroll.saved')}
+            </button>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="two-factor-enroll-container">
+      <div className="two-factor-enroll-card">
+        {/* Title */}
+        <h1 ref={headingRef} className="two-factor-enroll-title" tabIndex={-1}>{t('enroll.title')}</h1>
+
+        {/* Description */}
+        <p className="two-factor-enroll-description">
+          {rich('enroll.description', { email: userEmail })}
+        </p>
+
+        {/* Time left in the 2FA session */}
+        <SessionCountdown expiresAt={expiresAt} onExpire={onExpired} />
+
+        {/* QR code */}
+        <div className="enroll-qr-container">
+          {enrollmentQuery.data ? (
+            <QRCodeSVG value={enrollmentQuery.data.otpauthUri} size={176} marginSize={2} />
+          ) : (
+            <div className="enroll-qr-placeholder" />
+          )}
+        </div>
+
+        {/* Manual entry fallback */}
+        {enrollmentQuery.data && (
+          <p className="enroll-secret">
+            {t('enroll.manualKey')}
+            <code dir="ltr">{formatSecret(enrollmentQuery.data.secret)}</code>
+          </p>
+        )}
+
+        {/* Form */}
+        <form className="two-factor-enroll-form" onSubmit={handleSubmit}>
+          {/* Code field */}
+          <div className="form-group">
+            <label htmlFor="enroll-code" className="form-label">
+              {t('enroll.code')}
+            </label>
+            <input
+              type="text"
+              id="enroll-code"
+              className={`form-input enroll-code-input ${confirmMutation.error ? 'form-input-error' : ''}`}
+              value={code}
+              onChange={handleCodeChange}
+              placeholder="123456"
+              inputMode="numeric"
+              maxLength={6}
+              disabled={!enrollmentQuery.data || confirmMutation.isPending}
+              autoComplete="one-time-code"
+              dir="ltr"
+              aria-invalid={!!confirmMutation.error || undefined}
+            />
+          </div>
+
+          {/* API Error */}
+          {apiError && <ErrorSummary autoFocus={!!confirmMutation.error}>{apiError}</ErrorSummary>}
+
+          {/* Submit button */}
+          <button
+            type="submit"
+            className="submit-button"
+            disabled={!isCodeComplete || !enrollmentQuery.data || confirmMutation.isPending}
+          >
+            {confirmMutation.isPending ? (
+              <>
+                <svg
+                  aria-hidden="true"
+                  className="spinner"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <circle
+                    className="spinner-track"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="spinner-head"
+                    d="M12 2a10 10 0 019.95 9"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                    strokeLinecap="round"
+                  />
+                </svg>
+                <span>{t('common.verifying')}</span>
+              </>
+            ) : (
+              t('enroll.submit')
+            )}
+          </button>
+
+          {/* Back button */}
+          {onBack && (
+            <button
+              type="button"
+              className="back-button"
+              onClick={onBack}
+              disabled={confirmMutation.isPending}
+            >
+              {t('common.backToLogin')}
+            </button>
+          )}
+        </form>
+      </div>
+    </main>
+  );
+};
+
+export default TwoFactorEnrollForm;
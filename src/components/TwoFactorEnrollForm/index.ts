@@ -0,0 +1 @@
+export { TwoFactorEnrollForm, default } from './TwoFactorEnrollForm';
\ No newline at end of file
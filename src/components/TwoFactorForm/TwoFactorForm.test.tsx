@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { renderWithProviders } from '../../test/render';
+import { expectNoAxeViolations } from '../../test/axe';
+import { TwoFactorForm } from './TwoFactorForm';
+
+// 2FA session that outlasts the test
+const PROPS = {
+  tempToken: 'temp',
+  userEmail: 'user@example.com',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+};
+
+describe('TwoFactorForm accessibility', () => {
+  it('has no axe violations', async () => {
+    const { container } = renderWithProviders(<TwoFactorForm {...PROPS} />);
+
+    await expectNoAxeViolations(container);
+  });
+
+  it('describes the code group with the instructions', () => {
+    renderWithProviders(<TwoFactorForm {...PROPS} />);
+
+    expect(screen.getByRole('group', { name: 'Verification code' })).toHaveAccessibleDescription(
+      'Enter the 6-digit code from your Google Authenticator app for user@example.com'
+    );
+  });
+
+  it('has no axe violations in recovery code mode', async () => {
+    const user = userEvent.setup();
+    const { container } = renderWithProviders(<TwoFactorForm {...PROPS} />);
+
+    await user.click(screen.getByRole('button', { name: 'Use a recovery code' }));
+
+    expect(screen.getByLabelText('Recovery code')).toHaveFocus();
+    await expectNoAxeViolations(container);
+  });
+
+  it('focuses the heading when arriving from the password step', () => {
+    renderWithProviders(<TwoFactorForm {...PROPS} />, {
+      initialEntries: [{ pathname: '/2fa', key: 'navigated' }],
+    });
+
+    expect(screen.getByRole('heading', { level: 1 })).toHaveFocus();
+  });
+});
+
+describe('TwoFactorForm session expiry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const expiresIn = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+
+  it('counts down the time left', async () => {
+    renderWithProviders(<TwoFactorForm {...PROPS} expiresAt={expiresIn(300)} />);
+
+    expect(screen.getByText('Time left to verify: 5:00')).toBeInTheDocument();
+
+    await act(() => vi.advanceTimersByTimeAsync(65_000));
+
+    expect(screen.getByText('Time left to verify: 3:55')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('warns when less than a minute is left', async () => {
+    renderWithProviders(<TwoFactorForm {...PROPS} expiresAt={expiresIn(90)} />);
+
+    await act(() => vi.advanceTimersByTimeAsync(30_000));
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Less than a minute left. After that you will need to sign in again.'
+    );
+    expect(screen.getByText('Time left to verify: 1:00')).toBeInTheDocument();
+  });
+
+  it('calls onExpired when the time runs out', async () => {
+    const onExpired = vi.fn();
+    renderWithProviders(<TwoFactorForm {...PROPS} expiresAt={expiresIn(10)} onExpired={onExpired} />);
+
+    await act(() => vi.advanceTimersByTimeAsync(9_000));
+    expect(onExpired).not.toHaveBeenCalled();
+
+    await act(() => vi.advanceTimersByTimeAsync(1_000));
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls onExpired straight away for a session that already ended', async () => {
+    const onExpired = vi.fn();
+    renderWithProviders(<TwoFactorForm {...PROPS} expiresAt={expiresIn(-1)} onExpired={onExpired} />);
+
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+});
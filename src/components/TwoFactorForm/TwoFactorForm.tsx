@@ -1,132 +1,307 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { useMutation } from '@tanstack/react-query';
-import { verify2FA, saveToken } from '../../api/auth';
-import type { Verify2FACredentials, Verify2FAResponse, ApiErrorResponse, User } from '../../api/types';
+import { verify2FA, verifyRecoveryCode, send2FACode, saveTokens } from '../../api/auth';
+import type {
+  Verify2FACredentials,
+  Verify2FAResponse,
+  VerifyRecoveryCodeCredentials,
+  Send2FACodeRequest,
+  Send2FACodeResponse,
+  TwoFactorMethod,
+} from '../../api/types';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import { formatRetryIn, useAttemptLimit } from '../../hooks/useAttemptLimit';
+import { useHeadingFocus } from '../../hooks/useHeadingFocus';
+import { useI18n, type MessageId } from '../../i18n';
+import { ChallengeWidget } from '../ChallengeWidget';
+import { OtpInput, type OtpInputHandle } from '../OtpInput';
+import { ErrorSummary } from '../ErrorSummary';
+import { SessionCountdown } from '../SessionCountdown';
 import './TwoFactorForm.css';
 
-// Error message mapping for 2FA
-const getErrorMessage = (error: ApiErrorResponse): string => {
-  const { status, data } = error;
-  
-  // Network/timeout errors (status 0)
-  if (status === 0) {
-    if (data.error === 'timeout_error') {
-      return 'Request timed out. Please try again.';
-    }
-    if (data.error === 'network_error') {
-      return 'Connection problem. Please check your network.';
-    }
-    return 'An unexpected error occurred. Please try again.';
-  }
-  
-  // HTTP errors
-  switch (data.error) {
-    case 'invalid_2fa_code':
-      return 'Invalid verification code. Please try again.';
-    case '2fa_expired':
-      return 'Verification session expired. Please login again.';
-    default:
-      return data.message || 'An unexpected error occurred.';
-  }
+// Recovery code format: abcd-efgh-ijkl (dashes optional)
+const RECOVERY_CODE_REGEX = /^[a-z0-9]{4}-?[a-z0-9]{4}-?[a-z0-9]{4}$/i;
+
+// Authenticator and SMS/email code length
+const CODE_LENGTH = 6;
+
+// Shown as 123 456
+const CODE_GROUPS = [3, 3];
+
+// Warn the user to generate new recovery codes at or below this count
+const LOW_RECOVERY_CODES_THRESHOLD = 3;
+
+// Labels for the method picker
+const METHOD_LABELS: Record<TwoFactorMethod, MessageId> = {
+  totp: 'twoFactor.method.totp',
+  sms: 'twoFactor.method.sms',
+  email: 'twoFactor.method.email',
 };
 
+type DeliveryMethod = Send2FACodeRequest['method'];
+
+interface DeliveryState {
+  maskedDestination?: string;
+  // Timestamp (ms) from which another code may be requested
+  resendAvailableAt: number;
+}
+
 interface TwoFactorFormProps {
   tempToken: string;
   userEmail: string;
+  // When the temp token expires (ISO timestamp)
+  expiresAt: string;
+  methods?: TwoFactorMethod[];
   onSuccess?: (response: Verify2FAResponse) => void;
   onBack?: () => void;
+  // The 2FA session ran out, by the countdown or a 2fa_expired response
+  onExpired?: () => void;
 }
 
-export const TwoFactorForm = ({ tempToken, userEmail, onSuccess, onBack }: TwoFactorFormProps) => {
-  // Form state - 6 digit code
-  const [code, setCode] = useState(['', '', '', '', '', '']);
-  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+const DEFAULT_METHODS: TwoFactorMethod[] = ['totp'];
 
-  // Focus first input on mount
+export const TwoFactorForm = ({
+  tempToken,
+  userEmail,
+  expiresAt,
+  methods = DEFAULT_METHODS,
+  onSuccess,
+  onBack,
+  onExpired,
+}: TwoFactorFormProps) => {
+  const { t, rich } = useI18n();
+  // Form state - 6 digit code or recovery code
+  const [mode, setMode] = useState<'code' | 'recovery'>('code');
+  const [method, setMethod] = useState<TwoFactorMethod>(methods.includes('totp') ? 'totp' : methods[0]);
+  const [deliveries, setDeliveries] = useState<Partial<Record<DeliveryMethod, DeliveryState>>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  // Skip 2FA on this device next time
+  const [trustDevice, setTrustDevice] = useState(false);
+  const [lowRecoveryCodesResponse, setLowRecoveryCodesResponse] = useState<Verify2FAResponse | null>(null);
+  const codeInputRef = useRef<OtpInputHandle>(null);
+  const recoveryInputRef = useRef<HTMLInputElement | null>(null);
+  // Failed codes and recovery codes count against the same limit
+  const attemptLimit = useAttemptLimit();
+
+  // Focus the input on mount, mode change and method change
   useEffect(() => {
-    inputRefs.current[0]?.focus();
-  }, []);
+    if (mode === 'recovery') {
+      recoveryInputRef.current?.focus();
+    } else {
+      codeInputRef.current?.focus();
+    }
+  }, [mode, method]);
 
-  // Get full code string
-  const fullCode = useMemo(() => code.join(''), [code]);
+  // Arriving from the password step announces the heading instead
+  const headingRef = useHeadingFocus();
 
   // Check if code is complete
-  const isCodeComplete = useMemo(() => fullCode.length === 6, [fullCode]);
+  const isCodeComplete = code.length === CODE_LENGTH;
+
+  const isRecoveryCodeValid = useMemo(() => RECOVERY_CODE_REGEX.test(recoveryCode.trim()), [recoveryCode]);
+
+  const delivery = method === 'totp' ? undefined : deliveries[method];
+  const resendCooldown = delivery ? Math.max(0, Math.ceil((delivery.resendAvailableAt - now) / 1000)) : 0;
+
+  // Tick the resend countdown while a cooldown is active
+  const resendAvailableAt = delivery?.resendAvailableAt;
+  useEffect(() => {
+    if (!resendAvailableAt || resendAvailableAt <= Date.now()) return;
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= resendAvailableAt) {
+        clearInterval(interval);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [resendAvailableAt]);
+
+  // A stale temp token can't be fixed from this screen - start over instead of showing an error
+  const handleVerifyError = useCallback(
+    (error: ApiClientError) => {
+      if (error.code === '2fa_expired' && onExpired) {
+        onExpired();
+        return;
+      }
+      attemptLimit.handleError(error);
+    },
+    [attemptLimit, onExpired]
+  );
+
+  // SMS/email code delivery mutation
+  const sendCodeMutation = useMutation<Send2FACodeResponse, ApiClientError, Send2FACodeRequest>({
+    mutationFn: send2FACode,
+    onSuccess: (data) => {
+      setNow(Date.now());
+      setDeliveries((prev) => ({
+        ...prev,
+        [data.method]: {
+          maskedDestination: data.maskedDestination,
+          resendAvailableAt: Date.now() + data.resendAvailableIn * 1000,
+        },
+      }));
+    },
+    onError: (error, variables) => {
+      if (error.code === '2fa_expired' && onExpired) {
+        onExpired();
+        return;
+      }
+      // Server-driven cooldown on rate limiting
+      const { retryAfter } = error;
+      if (error.code === 'rate_limited' && retryAfter) {
+        setNow(Date.now());
+        setDeliveries((prev) => ({
+          ...prev,
+          [variables.method]: {
+            ...prev[variables.method],
+            resendAvailableAt: Date.now() + retryAfter * 1000,
+          },
+        }));
+      }
+    },
+  });
 
   // 2FA verification mutation
-  const verify2FAMutation = useMutation<Verify2FAResponse, ApiErrorResponse, Verify2FACredentials>({
+  const verify2FAMutation = useMutation<Verify2FAResponse, ApiClientError, Verify2FACredentials>({
     mutationFn: verify2FA,
     onSuccess: (data) => {
-      // Save token to localStorage
-      saveToken(data.token);
+      // Keep the session in the configured token store
+      saveTokens(data);
       // Call success callback if provided
       onSuccess?.(data);
     },
+    onError: handleVerifyError,
+  });
+
+  // Recovery code verification mutation
+  const verifyRecoveryMutation = useMutation<Verify2FAResponse, ApiClientError, VerifyRecoveryCodeCredentials>({
+    mutationFn: verifyRecoveryCode,
+    onSuccess: (data) => {
+      // Keep the session in the configured token store
+      saveTokens(data);
+      // Let the user know before continuing if they are running out of codes
+      if (data.recoveryCodesRemaining !== undefined && data.recoveryCodesRemaining <= LOW_RECOVERY_CODES_THRESHOLD) {
+        setLowRecoveryCodesResponse(data);
+        return;
+      }
+      onSuccess?.(data);
+    },
+    onError: handleVerifyError,
   });
 
-  // Handle individual digit input
-  const handleDigitChange = useCallback((index: number, value: string) => {
-    // Only allow digits
-    if (value && !/^\d$/.test(value)) return;
+  const activeMutation = mode === 'recovery' ? verifyRecoveryMutation : verify2FAMutation;
 
-    setCode((prev) => {
-      const newCode = [...prev];
-      newCode[index] = value;
-      return newCode;
-    });
+  // Switch between code and recovery code entry
+  const handleToggleMode = useCallback(() => {
+    setMode((prev) => (prev === 'code' ? 'recovery' : 'code'));
+    verify2FAMutation.reset();
+    verifyRecoveryMutation.reset();
+  }, [verify2FAMutation, verifyRecoveryMutation]);
 
-    // Move to next input if value entered
-    if (value && index < 5) {
-      inputRefs.current[index + 1]?.focus();
+  // Request a code by SMS/email
+  const handleSendCode = useCallback(() => {
+    if (method === 'totp') return;
+
+    sendCodeMutation.mutate({ tempToken, method });
+  }, [method, tempToken, sendCodeMutation]);
+
+  // Switch method - SMS/email send a code the first time they are picked
+  const handleSelectMethod = useCallback((newMethod: TwoFactorMethod) => {
+    if (newMethod === method) return;
+
+    setMethod(newMethod);
+    setCode('');
+    verify2FAMutation.reset();
+    sendCodeMutation.reset();
+
+    if (newMethod !== 'totp' && !deliveries[newMethod]) {
+      sendCodeMutation.mutate({ tempToken, method: newMethod });
     }
+  }, [method, deliveries, tempToken, verify2FAMutation, sendCodeMutation]);
+
+  const handleTrustDeviceChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setTrustDevice(e.target.checked);
   }, []);
 
-  // Handle paste
-  const handlePaste = useCallback((e: React.ClipboardEvent) => {
-    e.preventDefault();
-    const pastedData = e.clipboardData.getData('text').replace(/\D/g, '').slice(0, 6);
-    
-    if (pastedData) {
-      const newCode = [...code];
-      for (let i = 0; i < pastedData.length; i++) {
-        newCode[i] = pastedData[i];
-      }
-      setCode(newCode);
-      
-      // Focus the next empty input or the last one
-      const nextEmptyIndex = newCode.findIndex((digit) => !digit);
-      const focusIndex = nextEmptyIndex === -1 ? 5 : nextEmptyIndex;
-      inputRefs.current[focusIndex]?.focus();
-    }
-  }, [code]);
+  const handleRecoveryCodeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setRecoveryCode(e.target.value);
+  }, []);
 
-  // Handle backspace
-  const handleKeyDown = useCallback((index: number, e: React.KeyboardEvent) => {
-    if (e.key === 'Backspace' && !code[index] && index > 0) {
-      inputRefs.current[index - 1]?.focus();
+  const handleContinue = useCallback(() => {
+    if (lowRecoveryCodesResponse) {
+      onSuccess?.(lowRecoveryCodesResponse);
     }
-  }, [code]);
+  }, [lowRecoveryCodesResponse, onSuccess]);
+
+  const isChallengeMissing = attemptLimit.challengeRequired && !attemptLimit.challengeToken;
+
+  const verifyCode = useCallback(
+    (completeCode: string) => {
+      if (attemptLimit.isBlocked || isChallengeMissing || verify2FAMutation.isPending) return;
+
+      verify2FAMutation.mutate({
+        tempToken,
+        code: completeCode,
+        method,
+        challengeToken: attemptLimit.challengeToken ?? undefined,
+        trustDevice,
+      });
+    },
+    [method, tempToken, trustDevice, isChallengeMissing, attemptLimit, verify2FAMutation]
+  );
 
   // Handle form submission
   const handleSubmit = useCallback(
     (e: React.FormEvent) => {
       e.preventDefault();
-      
+
+      if (mode === 'recovery') {
+        if (attemptLimit.isBlocked || !isRecoveryCodeValid) return;
+
+        verifyRecoveryMutation.mutate({
+          tempToken,
+          recoveryCode: recoveryCode.trim(),
+          challengeToken: attemptLimit.challengeToken ?? undefined,
+        });
+        return;
+      }
+
       if (!isCodeComplete) return;
-      
-      verify2FAMutation.mutate({ tempToken, code: fullCode });
+
+      verifyCode(code);
     },
-    [tempToken, fullCode, isCodeComplete, verify2FAMutation]
+    [
+      mode,
+      tempToken,
+      code,
+      isCodeComplete,
+      recoveryCode,
+      isRecoveryCodeValid,
+      attemptLimit,
+      verifyCode,
+      verifyRecoveryMutation,
+    ]
   );
 
-  const apiError = verify2FAMutation.error ? getErrorMessage(verify2FAMutation.error) : '';
+  const apiError = activeMutation.error
+    ? getErrorMessage(activeMutation.error, 'twoFactor', t)
+    : mode === 'code' && sendCodeMutation.error
+      ? getErrorMessage(sendCodeMutation.error, 'twoFactor', t)
+      : '';
+  const canSubmit =
+    (mode === 'recovery' ? isRecoveryCodeValid : isCodeComplete) && !attemptLimit.isBlocked && !isChallengeMissing;
 
   return (
-    <div className="two-factor-form-container">
+    <main className="two-factor-form-container">
       <div className="two-factor-form-card">
         {/* Google Authenticator Icon */}
         <div className="two-factor-form-logo">
           <svg
+            aria-hidden="true"
             width="56"
             height="56"
             viewBox="0 0 56 56"
@@ -149,111 +324,211 @@ export const TwoFactorForm = ({ tempToken, userEmail, onSuccess, onBack }: TwoFa
         </div>
 
         {/* Title */}
-        <h1 className="two-factor-form-title">Two-Factor Authentication</h1>
+        <h1 ref={headingRef} className="two-factor-form-title" tabIndex={-1}>{t('twoFactor.title')}</h1>
         
         {/* Description */}
-        <p className="two-factor-form-description">
-          Enter the 6-digit code from your Google Authenticator app for <strong>{userEmail}</strong>
+        <p id="two-factor-description" className="two-factor-form-description" aria-live="polite">
+          {mode === 'recovery'
+            ? rich('twoFactor.description.recovery', { email: userEmail })
+            : method === 'totp'
+              ? rich('twoFactor.description.totp', { email: userEmail })
+              : delivery?.maskedDestination
+                ? rich('twoFactor.description.sent', { destination: delivery.maskedDestination })
+                : sendCodeMutation.isPending
+                  ? t('twoFactor.description.sending', { method })
+                  : rich('twoFactor.description.request', { method, email: userEmail })}
         </p>
 
+        {/* Time left in the 2FA session */}
+        {!lowRecoveryCodesResponse && !activeMutation.isSuccess && (
+          <SessionCountdown expiresAt={expiresAt} onExpire={onExpired} />
+        )}
+
+        {/* Method picker */}
+        {mode === 'code' && methods.length > 1 && !lowRecoveryCodesResponse && (
+          <div className="method-picker" role="group" aria-label={t('twoFactor.methodPicker')}>
+            {methods.map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`method-option ${option === method ? 'method-option-active' : ''}`}
+                onClick={() => handleSelectMethod(option)}
+                aria-pressed={option === method}
+                disabled={verify2FAMutation.isPending}
+              >
+                {t(METHOD_LABELS[option])}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Low recovery codes warning */}
+        {lowRecoveryCodesResponse && (
+          <div className="two-factor-form">
+            <div className="recovery-warning" role="status">
+              {t('twoFactor.recoveryWarning', { count: lowRecoveryCodesResponse.recoveryCodesRemaining ?? 0 })}
+            </div>
+            <button type="button" className="submit-button" onClick={handleContinue}>
+              {t('twoFactor.continue')}
+            </button>
+          </div>
+        )}
+
         {/* Form */}
-        <form className="two-factor-form" onSubmit={handleSubmit}>
-          {/* Code input */}
-          <div className="code-input-container">
-            {code.map((digit, index) => (
+        {!lowRecoveryCodesResponse && (
+          <form className="two-factor-form" onSubmit={handleSubmit}>
+            {/* Code input */}
+            {mode === 'recovery' ? (
               <input
-                key={index}
-                ref={(el) => { inputRefs.current[index] = el; }}
+                ref={recoveryInputRef}
                 type="text"
-                inputMode="numeric"
-                maxLength={1}
-                className={`code-input ${apiError ? 'code-input-error' : ''}`}
-                value={digit}
-                onChange={(e) => handleDigitChange(index, e.target.value)}
-                onKeyDown={(e) => handleKeyDown(index, e)}
-                onPaste={handlePaste}
+                className={`recovery-code-input ${apiError ? 'code-input-error' : ''}`}
+                value={recoveryCode}
+                onChange={handleRecoveryCodeChange}
+                placeholder="abcd-efgh-ijkl"
+                maxLength={14}
+                disabled={verifyRecoveryMutation.isPending}
+                autoComplete="off"
+                autoCapitalize="off"
+                spellCheck={false}
+                dir="ltr"
+                aria-label={t('twoFactor.recoveryCode')}
+                aria-invalid={!!apiError || undefined}
+                aria-describedby="two-factor-description"
+              />
+            ) : (
+              <OtpInput
+                ref={codeInputRef}
+                value={code}
+                onChange={setCode}
+                onComplete={verifyCode}
+                length={CODE_LENGTH}
+                groups={CODE_GROUPS}
+                webOtp={method === 'sms'}
+                invalid={!!apiError}
                 disabled={verify2FAMutation.isPending}
-                autoComplete="one-time-code"
+                describedBy="two-factor-description"
               />
-            ))}
-          </div>
+            )}
 
-          {/* API Error */}
-          {apiError && (
-            <div className="api-error">
-              <svg
-                className="api-error-icon"
-                width="20"
-                height="20"
-                viewBox="0 0 20 20"
-                fill="currentColor"
+            {/* Resend code */}
+            {mode === 'code' && method !== 'totp' && (
+              <button
+                type="button"
+                className="mode-toggle-button"
+                onClick={handleSendCode}
+                disabled={resendCooldown > 0 || sendCodeMutation.isPending || verify2FAMutation.isPending}
               >
-                <path
-                  fillRule="evenodd"
-                  d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
-                  clipRule="evenodd"
+                {t(delivery?.maskedDestination ? 'twoFactor.resendCode' : 'twoFactor.sendCode', {
+                  cooldown: resendCooldown,
+                })}
+              </button>
+            )}
+
+            {/* Trusted device - set before the last digit, which submits the code */}
+            {mode === 'code' && (
+              <label className="trust-device">
+                <input
+                  type="checkbox"
+                  checked={trustDevice}
+                  onChange={handleTrustDeviceChange}
+                  disabled={verify2FAMutation.isPending}
                 />
-              </svg>
-              <span>{apiError}</span>
-            </div>
-          )}
+                <span>{t('twoFactor.trustDevice')}</span>
+              </label>
+            )}
 
-          {/* Submit button */}
-          <button
-            type="submit"
-            className="submit-button"
-            disabled={!isCodeComplete || verify2FAMutation.isPending}
-          >
-            {verify2FAMutation.isPending ? (
-              <>
-                <svg
-                  className="spinner"
-                  width="20"
-                  height="20"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  xmlns="http://www.w3.org/2000/svg"
-                >
-                  <circle
-                    className="spinner-track"
-                    cx="12"
-                    cy="12"
-                    r="10"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                  />
-                  <path
-                    className="spinner-head"
-                    d="M12 2a10 10 0 019.95 9"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                    strokeLinecap="round"
-                  />
-                </svg>
-                <span>Verifying...</span>
-              </>
-            ) : (
-              'Verify Code'
+            {/* API Error */}
+            {apiError && <ErrorSummary autoFocus={!!activeMutation.error}>{apiError}</ErrorSummary>}
+
+            {/* Attempts left before verification is paused or the account is locked */}
+            {activeMutation.isError && attemptLimit.attemptsRemaining !== undefined && !attemptLimit.isBlocked && (
+              <p className="attempts-remaining" role="status">
+                {t('attempts.remaining', { count: attemptLimit.attemptsRemaining })}
+              </p>
+            )}
+
+            {/* Security check after repeated failures */}
+            {attemptLimit.challengeRequired && (
+              <ChallengeWidget
+                key={attemptLimit.challengeKey}
+                onVerify={attemptLimit.setChallengeToken}
+                onExpire={attemptLimit.clearChallengeToken}
+                disabled={activeMutation.isPending}
+              />
             )}
-          </button>
 
-          {/* Back button */}
-          {onBack && (
+            {/* Submit button */}
+            <button
+              type="submit"
+              className="submit-button"
+              disabled={!canSubmit || activeMutation.isPending}
+            >
+              {activeMutation.isPending ? (
+                <>
+                  <svg
+                    aria-hidden="true"
+                    className="spinner"
+                    width="20"
+                    height="20"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    xmlns="http://www.w3.org/2000/svg"
+                  >
+                    <circle
+                      className="spinner-track"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                    />
+                    <path
+                      className="spinner-head"
+                      d="M12 2a10 10 0 019.95 9"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                      strokeLinecap="round"
+                    />
+                  </svg>
+                  <span>{t('common.verifying')}</span>
+                </>
+              ) : attemptLimit.isBlocked ? (
+                t('attempts.tryAgainIn', { time: formatRetryIn(attemptLimit.retryIn) })
+              ) : (
+                t('twoFactor.submit')
+              )}
+            </button>
+
+            {/* Mode toggle */}
             <button
               type="button"
-              className="back-button"
-              onClick={onBack}
-              disabled={verify2FAMutation.isPending}
+              className="mode-toggle-button"
+              onClick={handleToggleMode}
+              disabled={activeMutation.isPending}
             >
-              ← Back to login
+              {t(mode === 'recovery' ? 'twoFactor.useAuthenticator' : 'twoFactor.useRecoveryCode')}
             </button>
-          )}
-        </form>
+
+            {/* Back button */}
+            {onBack && (
+              <button
+                type="button"
+                className="back-button"
+                onClick={onBack}
+                disabled={activeMutation.isPending}
+              >
+                {t('common.backToLogin')}
+              </button>
+            )}
+          </form>
+        )}
 
         {/* Success message */}
-        {verify2FAMutation.isSuccess && (
-          <div className="success-message">
+        {activeMutation.isSuccess && (
+          <div className="success-message" role="status">
             <svg
+              aria-hidden="true"
               width="20"
               height="20"
               viewBox="0 0 20 20"
@@ -265,22 +540,11 @@ export const TwoFactorForm = ({ tempToken, userEmail, onSuccess, onBack }: TwoFa
                 clipRule="evenodd"
               />
             </svg>
-            <span>Successfully verified!</span>
+            <span>{t('twoFactor.success')}</span>
           </div>
         )}
-
-        {/* Test codes hint */}
-        <div className="test-codes-hint">
-          <p><strong>Test codes:</strong></p>
-          <ul>
-            <li><code>123456</code> - Success</li>
-            <li><code>000000</code> - Expired code</li>
-            <li><code>999999</code> - Timeout</li>
-            <li>Any other - Invalid code</li>
-          </ul>
-        </div>
       </div>
-    </div>
+    </main>
   );
 };
 
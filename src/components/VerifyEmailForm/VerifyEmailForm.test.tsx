@@ -0,0 +1,14 @@
+import { describe, it } from 'vitest';
+import { renderWithProviders } from '../../test/render';
+import { expectNoAxeViolations } from '../../test/axe';
+import { VerifyEmailForm } from './VerifyEmailForm';
+
+describe('VerifyEmailForm accessibility', () => {
+  it('has no axe violations', async () => {
+    const { container } = renderWithProviders(
+      <VerifyEmailForm verificationId="verification" maskedEmail="u***@example.com" resendAvailableIn={30} />
+    );
+
+    await expectNoAxeViolations(container);
+  });
+});
@@ -0,0 +1,238 @@
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { verifyEmail, resendVerificationEmail } from '../../api/auth';
+import { getErrorMessage } from '../../api/errorMessages';
+import type { ApiClientError } from '../../api/errors';
+import type {
+  RegisterResponse,
+  ResendVerificationEmailRequest,
+  VerifyEmailRequest,
+  VerifyEmailResponse,
+} from '../../api/types';
+import { formatRetryIn, useAttemptLimit } from '../../hooks/useAttemptLimit';
+import { useI18n } from '../../i18n';
+import { ChallengeWidget } from '../ChallengeWidget';
+import { ErrorSummary } from '../ErrorSummary';
+import './VerifyEmailForm.css';
+
+interface VerifyEmailFormProps {
+  verificationId: string;
+  maskedEmail?: string;
+  // Code from the verification link - submitted automatically
+  initialCode?: string;
+  // Seconds until the first resend is allowed
+  resendAvailableIn?: number;
+  onSuccess?: (response: VerifyEmailResponse) => void;
+}
+
+export const VerifyEmailForm = ({
+  verificationId,
+  maskedEmail,
+  initialCode = '',
+  resendAvailableIn = 0,
+  onSuccess,
+}: VerifyEmailFormProps) => {
+  const { t, rich } = useI18n();
+
+  // Form state
+  const [code, setCode] = useState(initialCode.replace(/\D/g, '').slice(0, 6));
+  const [destination, setDestination] = useState(maskedEmail);
+  const [resendAvailableAt, setResendAvailableAt] = useState(() => Date.now() + resendAvailableIn * 1000);
+  const [now, setNow] = useState(() => Date.now());
+  const autoSubmittedRef = useRef(false);
+  // Wrong codes count against a limit, like sign-in attempts
+  const attemptLimit = useAttemptLimit();
+
+  const isCodeComplete = useMemo(() => /^\d{6}$/.test(code), [code]);
+  const resendCooldown = Math.max(0, Math.ceil((resendAvailableAt - now) / 1000));
+
+  // Tick the resend countdown while a cooldown is active
+  useEffect(() => {
+    if (resendAvailableAt <= Date.now()) return;
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= resendAvailableAt) {
+        clearInterval(interval);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [resendAvailableAt]);
+
+  // Email verification mutation
+  const verifyMutation = useMutation<VerifyEmailResponse, ApiClientError, VerifyEmailRequest>({
+    mutationFn: verifyEmail,
+    onSuccess: (data) => {
+      onSuccess?.(data);
+    },
+    onError: attemptLimit.handleError,
+  });
+
+  // Resend mutation
+  const resendMutation = useMutation<RegisterResponse, ApiClientError, ResendVerificationEmailRequest>({
+    mutationFn: resendVerificationEmail,
+    onSuccess: (data) => {
+      verifyMutation.reset();
+      setCode('');
+      setDestination(data.maskedEmail);
+      setNow(Date.now());
+      setResendAvailableAt(Date.now() + data.resendAvailableIn * 1000);
+    },
+    onError: (error) => {
+      // Server-driven cooldown on rate limiting
+      const { retryAfter } = error;
+      if (error.code === 'rate_limited' && retryAfter) {
+        setNow(Date.now());
+        setResendAvailableAt(Date.now() + retryAfter * 1000);
+      }
+    },
+  });
+
+  // Opening the verification link verifies right away
+  const { mutate: verify } = verifyMutation;
+  useEffect(() => {
+    if (autoSubmittedRef.current || !/^\d{6}$/.test(initialCode)) return;
+    autoSubmittedRef.current = true;
+    verify({ verificationId, code: initialCode });
+  }, [verificationId, initialCode, verify]);
+
+  // Handlers
+  const handleCodeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setCode(e.target.value.replace(/\D/g, '').slice(0, 6));
+  }, []);
+
+  const isChallengeMissing = attemptLimit.challengeRequired && !attemptLimit.challengeToken;
+  const canSubmit = isCodeComplete && !attemptLimit.isBlocked && !isChallengeMissing;
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+
+      if (!canSubmit) return;
+
+      resendMutation.reset();
+      verifyMutation.mutate({ verificationId, code, challengeToken: attemptLimit.challengeToken ?? undefined });
+    },
+    [verificationId, code, canSubmit, attemptLimit, verifyMutation, resendMutation]
+  );
+
+  const handleResend = useCallback(() => {
+    resendMutation.mutate({ verificationId });
+  }, [verificationId, resendMutation]);
+
+  const activeError = verifyMutation.error ?? resendMutation.error;
+  const apiError = activeError ? getErrorMessage(activeError, 'emailVerification', t) : '';
+  const isPending = verifyMutation.isPending || resendMutation.isPending;
+
+  return (
+    <main className="verify-email-container">
+      <div className="verify-email-card">
+        {/* Title */}
+        <h1 className="verify-email-title">{t('verifyEmail.title')}</h1>
+
+        {/* Description */}
+        <p className="verify-email-description">
+          {destination ? rich('verifyEmail.descriptionTo', { destination }) : t('verifyEmail.description')}
+        </p>
+
+        {/* Form */}
+        <form className="verify-email-form" onSubmit={handleSubmit}>
+          {/* Code field */}
+          <div className="form-group">
+            <label htmlFor="verify-email-code" className="form-label">
+              {t('verifyEmail.code')}
+            </label>
+            <input
+              type="text"
+              id="verify-email-code"
+              className={`form-input verify-email-code-input ${verifyMutation.error ? 'form-input-error' : ''}`}
+              value={code}
+              onChange={handleCodeChange}
+              placeholder="123456"
+              inputMode="numeric"
+              maxLength={6}
+              disabled={isPending}
+              autoComplete="one-time-code"
+              dir="ltr"
+              aria-invalid={!!verifyMutation.error || undefined}
+            />
+          </div>
+
+          {/* API Error */}
+          {apiError && <ErrorSummary autoFocus>{apiError}</ErrorSummary>}
+
+          {/* Attempts left before verification is paused */}
+          {verifyMutation.isError && attemptLimit.attemptsRemaining !== undefined && !attemptLimit.isBlocked && (
+            <p className="attempts-remaining" role="status">
+              {t('attempts.remaining', { count: attemptLimit.attemptsRemaining })}
+            </p>
+          )}
+
+          {/* Security check after repeated failures */}
+          {attemptLimit.challengeRequired && (
+            <ChallengeWidget
+              key={attemptLimit.challengeKey}
+              onVerify={attemptLimit.setChallengeToken}
+              onExpire={attemptLimit.clearChallengeToken}
+              disabled={isPending}
+            />
+          )}
+
+          {/* Submit button */}
+          <button
+            type="submit"
+            className="submit-button"
+            disabled={!canSubmit || isPending}
+          >
+            {verifyMutation.isPending ? (
+              <>
+                <svg
+                  aria-hidden="true"
+                  className="spinner"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <circle
+                    className="spinner-track"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="spinner-head"
+                    d="M12 2a10 10 0 019.95 9"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                    strokeLinecap="round"
+                  />
+                </svg>
+                <span>{t('common.verifying')}</span>
+              </>
+            ) : attemptLimit.isBlocked ? (
+              t('attempts.tryAgainIn', { time: formatRetryIn(attemptLimit.retryIn) })
+            ) : (
+              t('verifyEmail.submit')
+            )}
+          </button>
+
+          {/* Resend email */}
+          <button
+            type="button"
+            className="verify-email-resend"
+            onClick={handleResend}
+            disabled={resendCooldown > 0 || isPending}
+          >
+            {t('verifyEmail.resend', { cooldown: resendCooldown })}
+          </button>
+        </form>
+      </div>
+    </main>
+  );
+};
+
+export default VerifyEmailForm;
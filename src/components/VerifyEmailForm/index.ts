@@ -0,0 +1 @@
+export { VerifyEmailForm, default } from './VerifyEmailForm';
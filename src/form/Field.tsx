@@ -0,0 +1,63 @@
+import type { ReactNode } from 'react';
+import type { FieldBinding } from './useForm';
+
+type InputProps = Omit<React.InputHTMLAttributes<HTMLInputElement>, keyof FieldBinding | 'className'>;
+
+interface FieldProps extends FieldBinding, InputProps {
+  label: string;
+  // Shown next to the label, e.g. a "Forgot password?" link
+  labelAction?: ReactNode;
+  // Shown below the error, e.g. a strength meter
+  children?: ReactNode;
+}
+
+// Labelled input with its error message, bound with `getFieldProps(name)`. The error
+// is linked to the input, ahead of any `aria-describedby` passed in.
+export const Field = ({
+  label,
+  labelAction,
+  children,
+  error,
+  validating,
+  id,
+  'aria-describedby': describedBy,
+  ...inputProps
+}: FieldProps) => {
+  const inputId = id ?? inputProps.name;
+  const errorId = `${inputId}-error`;
+
+  const labelElement = (
+    <label htmlFor={inputId} className="form-label">
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="form-group">
+      {labelAction ? (
+        <div className="form-label-row">
+          {labelElement}
+          {labelAction}
+        </div>
+      ) : (
+        labelElement
+      )}
+      <input
+        id={inputId}
+        className={`form-input ${error ? 'form-input-error' : ''}`}
+        aria-busy={validating || undefined}
+        aria-invalid={!!error || undefined}
+        aria-describedby={[error && errorId, describedBy].filter(Boolean).join(' ') || undefined}
+        {...inputProps}
+      />
+      {error && (
+        <span id={errorId} className="form-error">
+          {error}
+        </span>
+      )}
+      {children}
+    </div>
+  );
+};
+
+export default Field;
@@ -0,0 +1,11 @@
+export { useForm, type FieldBinding } from './useForm';
+export { Field } from './Field';
+export {
+  validateField,
+  type FormValues,
+  type FormSchema,
+  type FieldError,
+  type FieldRules,
+  type FieldValidator,
+  type AsyncFieldValidator,
+} from './schema';
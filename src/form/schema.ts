@@ -0,0 +1,46 @@
+import type { MessageId } from '../i18n';
+
+// Form values are the raw strings of the inputs
+export type FormValues = Record<string, string>;
+
+// Catalog id of the error message, or '' when the value is fine
+export type FieldError = MessageId | '';
+
+export type FieldValidator<Values extends FormValues> = (value: string, values: Values) => FieldError;
+
+// Runs after the sync rules pass, e.g. to ask the server. Aborted when the value changes.
+export type AsyncFieldValidator<Values extends FormValues> = (
+  value: string,
+  values: Values,
+  signal: AbortSignal
+) => Promise<FieldError>;
+
+export interface FieldRules<Values extends FormValues> {
+  // Message for an empty value
+  required?: MessageId;
+  pattern?: { value: RegExp; message: MessageId };
+  minLength?: { value: number; message: MessageId };
+  // Custom checks, run in order after the built-in rules
+  validate?: FieldValidator<Values>[];
+  validateAsync?: AsyncFieldValidator<Values>;
+}
+
+// Rules per field. Key order is the form order - the first invalid field gets focus.
+// Define schemas at module level so they are stable across renders.
+export type FormSchema<Values extends FormValues> = { [Field in keyof Values]: FieldRules<Values> };
+
+// First failing sync rule of a field
+export const validateField = <Values extends FormValues>(
+  rules: FieldRules<Values>,
+  value: string,
+  values: Values
+): FieldError => {
+  if (!value) return rules.required ?? '';
+  if (rules.pattern && !rules.pattern.value.test(value)) return rules.pattern.message;
+  if (rules.minLength && value.length < rules.minLength.value) return rules.minLength.message;
+  for (const validate of rules.validate ?? []) {
+    const error = validate(value, values);
+    if (error) return error;
+  }
+  return '';
+};
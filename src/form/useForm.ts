@@ -0,0 +1,185 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { useServerFieldErrors } from '../hooks/useServerFieldErrors';
+import { useI18n } from '../i18n';
+import { validateField, type FieldError, type FormSchema, type FormValues } from './schema';
+
+// Async validation result for the value it was computed for
+interface AsyncResult {
+  value: string;
+  error: FieldError;
+}
+
+// Props wiring an input to the form, spread onto a `<Field>`
+export interface FieldBinding {
+  name: string;
+  value: string;
+  // Translated message, shown once the field is touched; server errors until the field is edited
+  error: string;
+  // An async validator is running for the current value
+  validating: boolean;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onBlur: () => void;
+}
+
+interface UseFormOptions<Values extends FormValues> {
+  schema: FormSchema<Values>;
+  initialValues: Values;
+}
+
+// Form state for a schema: values, touched/dirty flags, validation and submission.
+// Server field errors (422 validation_failed) are merged in via `applyApiError`.
+export const useForm = <Values extends FormValues>({ schema, initialValues }: UseFormOptions<Values>) => {
+  type Field = keyof Values & string;
+
+  const fields = useMemo(() => Object.keys(schema) as Field[], [schema]);
+  const [initial] = useState(initialValues);
+  const [values, setValues] = useState(initialValues);
+  const [touched, setTouched] = useState<Partial<Record<Field, boolean>>>({});
+  const [asyncResults, setAsyncResults] = useState<Partial<Record<Field, AsyncResult>>>({});
+  const [validating, setValidating] = useState<Partial<Record<Field, boolean>>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const asyncControllersRef = useRef<Partial<Record<Field, AbortController>>>({});
+  const { formRef, getError, applyApiError, clearServerError, focusFirstInvalid, isShownOnFields } =
+    useServerFieldErrors(fields);
+  const { t } = useI18n();
+
+  // Sync rules, checked whether or not the field was touched
+  const syncErrors = useMemo(() => {
+    const errors = {} as Record<Field, FieldError>;
+    for (const field of fields) {
+      errors[field] = validateField(schema[field], values[field], values);
+    }
+    return errors;
+  }, [fields, schema, values]);
+
+  // Async error for the current value, if it has been checked
+  const getAsyncError = useCallback(
+    (field: Field): FieldError => {
+      const result = asyncResults[field];
+      return result?.value === values[field] ? result.error : '';
+    },
+    [asyncResults, values]
+  );
+
+  // Errors to show - client errors once touched, server errors (already worded) until edited
+  const errors = useMemo(() => {
+    const shown = {} as Record<Field, string>;
+    for (const field of fields) {
+      const clientError = touched[field] ? syncErrors[field] || getAsyncError(field) : '';
+      shown[field] = getError(field, clientError && t(clientError));
+    }
+    return shown;
+  }, [fields, touched, syncErrors, getAsyncError, getError, t]);
+
+  const dirty = useMemo(() => {
+    const flags = {} as Record<Field, boolean>;
+    for (const field of fields) {
+      flags[field] = values[field] !== initial[field];
+    }
+    return flags;
+  }, [fields, values, initial]);
+
+  const isDirty = fields.some((field) => dirty[field]);
+  const isValid = fields.every((field) => !syncErrors[field] && !getAsyncError(field));
+  const isValidating = fields.some((field) => validating[field]);
+
+  // Run a field's async validator. A validator that fails (e.g. offline) doesn't
+  // block the form - the server validates the submission anyway.
+  const runAsyncValidation = useCallback(
+    async (field: Field, current: Values): Promise<FieldError> => {
+      const rules = schema[field];
+      if (!rules.validateAsync || validateField(rules, current[field], current)) return '';
+
+      const value = current[field];
+      asyncControllersRef.current[field]?.abort();
+      const controller = new AbortController();
+      asyncControllersRef.current[field] = controller;
+      setValidating((prev) => ({ ...prev, [field]: true }));
+      try {
+        const error = await rules.validateAsync(value, current, controller.signal);
+        if (!controller.signal.aborted) {
+          setAsyncResults((prev) => ({ ...prev, [field]: { value, error } }));
+        }
+        return error;
+      } catch {
+        return '';
+      } finally {
+        if (asyncControllersRef.current[field] === controller) {
+          delete asyncControllersRef.current[field];
+          setValidating((prev) => ({ ...prev, [field]: false }));
+        }
+      }
+    },
+    [schema]
+  );
+
+  const getFieldProps = (field: Field): FieldBinding => ({
+    name: field,
+    value: values[field],
+    error: errors[field],
+    validating: !!validating[field],
+    onChange: (e) => {
+      const { value } = e.target;
+      // A check of the previous value is no longer needed
+      asyncControllersRef.current[field]?.abort();
+      setValues((prev) => ({ ...prev, [field]: value }));
+      clearServerError(field);
+    },
+    onBlur: () => {
+      setTouched((prev) => ({ ...prev, [field]: true }));
+      if (schema[field].validateAsync && asyncResults[field]?.value !== values[field]) {
+        void runAsyncValidation(field, values);
+      }
+    },
+  });
+
+  // Validate everything and call `onValid` with the values. Invalid forms show
+  // every error and focus the first invalid field instead.
+  const submit = useCallback(
+    async (onValid: (values: Values) => void | Promise<unknown>): Promise<void> => {
+      setTouched(Object.fromEntries(fields.map((field) => [field, true])) as Record<Field, boolean>);
+
+      if (fields.some((field) => syncErrors[field])) {
+        focusFirstInvalid(syncErrors);
+        return;
+      }
+
+      setIsSubmitting(true);
+      try {
+        const asyncErrors = {} as Record<Field, FieldError>;
+        for (const field of fields) {
+          if (!schema[field].validateAsync) continue;
+          asyncErrors[field] =
+            asyncResults[field]?.value === values[field]
+              ? getAsyncError(field)
+              : await runAsyncValidation(field, values);
+        }
+        if (fields.some((field) => asyncErrors[field])) {
+          focusFirstInvalid(asyncErrors);
+          return;
+        }
+
+        await onValid(values);
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [fields, schema, values, syncErrors, asyncResults, getAsyncError, runAsyncValidation, focusFirstInvalid]
+  );
+
+  return {
+    formRef,
+    values,
+    errors,
+    touched,
+    dirty,
+    isDirty,
+    isValid,
+    isValidating,
+    isSubmitting,
+    getFieldProps,
+    submit,
+    applyApiError,
+    isShownOnFields,
+  };
+};
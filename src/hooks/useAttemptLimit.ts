@@ -0,0 +1,69 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { ApiClientError } from '../api/errors';
+
+// "27s" or "14:05" for longer waits
+export const formatRetryIn = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Brute-force protection state for a sign-in step. The server decides everything;
+// this tracks what its error responses said: the pause countdown, attempts left,
+// and whether the next attempt needs a challenge token.
+export const useAttemptLimit = () => {
+  const [blockedUntil, setBlockedUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number>();
+  const [challengeRequired, setChallengeRequired] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  // Remounts the challenge widget once its token has been spent
+  const [challengeKey, setChallengeKey] = useState(0);
+
+  const retryIn = Math.max(0, Math.ceil((blockedUntil - now) / 1000));
+
+  // Tick the countdown while attempts are paused
+  useEffect(() => {
+    if (blockedUntil <= Date.now()) return;
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= blockedUntil) {
+        clearInterval(interval);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [blockedUntil]);
+
+  const clearChallengeToken = useCallback(() => {
+    setChallengeToken(null);
+  }, []);
+
+  // Update from a failed attempt
+  const handleError = useCallback((error: ApiClientError) => {
+    setAttemptsRemaining(error.attemptsRemaining);
+    if (error.challengeRequired !== undefined) {
+      setChallengeRequired(error.challengeRequired);
+    }
+    const { retryAfter } = error;
+    if ((error.code === 'too_many_attempts' || error.code === 'account_locked') && retryAfter) {
+      setNow(Date.now());
+      setBlockedUntil(Date.now() + retryAfter * 1000);
+    }
+    // Challenge tokens are single-use - the widget has to be solved again
+    setChallengeToken(null);
+    setChallengeKey((key) => key + 1);
+  }, []);
+
+  return {
+    // Seconds until another attempt is allowed
+    retryIn,
+    isBlocked: retryIn > 0,
+    attemptsRemaining,
+    challengeRequired,
+    challengeToken,
+    challengeKey,
+    setChallengeToken,
+    clearChallengeToken,
+    handleError,
+  };
+};
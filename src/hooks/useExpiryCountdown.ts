@@ -0,0 +1,27 @@
+import { useEffect, useEffectEvent, useState } from 'react';
+
+// Seconds until an ISO timestamp, ticking once a second. Calls `onExpire` once
+// when the time runs out - straight away if it already has.
+export const useExpiryCountdown = (expiresAt: string, onExpire?: () => void) => {
+  const deadline = Date.parse(expiresAt);
+  const [now, setNow] = useState(() => Date.now());
+  const handleExpire = useEffectEvent(() => onExpire?.());
+
+  useEffect(() => {
+    if (Number.isNaN(deadline)) return;
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= deadline) {
+        clearInterval(interval);
+      }
+    }, 1000);
+    const timeout = setTimeout(() => handleExpire(), Math.max(0, deadline - Date.now()));
+    return () => {
+      clearInterval(interval);
+      clearTimeout(timeout);
+    };
+  }, [deadline]);
+
+  return Number.isNaN(deadline) ? undefined : Math.max(0, Math.ceil((deadline - now) / 1000));
+};
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react';
+import { useLocation } from 'react-router';
+
+// Moves focus to a step's heading so screen readers announce the new step.
+// Runs after in-app navigation and whenever `step` changes (including back to
+// an earlier step), but not on the first page load, where focus should stay at
+// the top of the document. The heading needs tabIndex={-1} to be focusable.
+export const useHeadingFocus = (step?: string) => {
+  const ref = useRef<HTMLHeadingElement>(null);
+  const previousStepRef = useRef(step);
+  const { key } = useLocation();
+  const navigated = key !== 'default';
+
+  useEffect(() => {
+    const stepChanged = step !== previousStepRef.current;
+    previousStepRef.current = step;
+    if (navigated || stepChanged) {
+      ref.current?.focus();
+    }
+  }, [navigated, step]);
+
+  return ref;
+};
@@ -0,0 +1,81 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { ApiClientError } from '../api/errors';
+
+export type FieldMessages<Field extends string> = Partial<Record<Field, string>>;
+
+// Field errors of a failed request for the given fields, one message per field
+const pickFieldErrors = <Field extends string>(
+  error: ApiClientError | null | undefined,
+  fields: readonly Field[]
+): FieldMessages<Field> => {
+  const messages: FieldMessages<Field> = {};
+  for (const field of fields) {
+    const fieldMessages = error?.fieldErrors?.[field];
+    if (fieldMessages) messages[field] = fieldMessages.join(' ');
+  }
+  return messages;
+};
+
+// Server-side field errors (422 validation_failed) for a form, shown next to its
+// inputs alongside the client-side errors. Inputs are found by `name` inside
+// `formRef`. `fields` lists them in form order and must be a stable array.
+export const useServerFieldErrors = <Field extends string>(fields: readonly Field[]) => {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [serverErrors, setServerErrors] = useState<FieldMessages<Field>>({});
+  // Field waiting to be focused, e.g. until a pending request re-enables its input
+  const pendingFocusRef = useRef<Field | null>(null);
+
+  const focusPending = useCallback(() => {
+    const field = pendingFocusRef.current;
+    const input = field ? formRef.current?.elements.namedItem(field) : null;
+    if (input instanceof HTMLInputElement && !input.disabled) {
+      input.focus();
+      pendingFocusRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    focusPending();
+  });
+
+  // Focus the first field that has a message
+  const focusFirstInvalid = useCallback(
+    (messages: FieldMessages<Field>) => {
+      pendingFocusRef.current = fields.find((field) => messages[field]) ?? null;
+      focusPending();
+    },
+    [fields, focusPending]
+  );
+
+  // Show the field errors of a failed request (clears them for any other error)
+  const applyApiError = useCallback(
+    (error: ApiClientError) => {
+      const messages = pickFieldErrors(error, fields);
+      setServerErrors(messages);
+      focusFirstInvalid(messages);
+    },
+    [fields, focusFirstInvalid]
+  );
+
+  // Editing a field drops its server error
+  const clearServerError = useCallback((field: Field) => {
+    setServerErrors((prev) => (prev[field] ? { ...prev, [field]: undefined } : prev));
+  }, []);
+
+  // Client-side errors win - they describe the current value
+  const getError = useCallback(
+    (field: Field, clientError: string): string => clientError || serverErrors[field] || '',
+    [serverErrors]
+  );
+
+  // Whether an error is fully shown next to the inputs, so no banner is needed
+  const isShownOnFields = useCallback(
+    (error: ApiClientError | null | undefined): boolean =>
+      error?.code === 'validation_failed' &&
+      !!error.fieldErrors &&
+      Object.keys(error.fieldErrors).every((field) => (fields as readonly string[]).includes(field)),
+    [fields]
+  );
+
+  return { formRef, getError, applyApiError, clearServerError, focusFirstInvalid, isShownOnFields };
+};
@@ -0,0 +1,47 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { setStepUpHandler } from '../api/auth';
+import type { StepUpMethod, StepUpResponse } from '../api/types';
+
+// A step-up the API client is waiting on
+export interface StepUpChallenge {
+  methods: StepUpMethod[];
+}
+
+// Takes the API client's step-up challenges (403 step_up_required) while mounted.
+// The caller shows `challenge` and ends it with complete() or cancel(); the request
+// that needed it is then retried with the elevated token, or fails.
+export const useStepUp = () => {
+  const [challenge, setChallenge] = useState<StepUpChallenge | null>(null);
+  const pendingRef = useRef<{ resolve: (response: StepUpResponse) => void; reject: (reason: Error) => void } | null>(
+    null
+  );
+
+  useEffect(() => {
+    const unregister = setStepUpHandler(
+      (methods) =>
+        new Promise<StepUpResponse>((resolve, reject) => {
+          pendingRef.current = { resolve, reject };
+          setChallenge({ methods });
+        })
+    );
+    return () => {
+      unregister();
+      pendingRef.current?.reject(new Error('Step-up cancelled'));
+      pendingRef.current = null;
+    };
+  }, []);
+
+  const complete = useCallback((response: StepUpResponse) => {
+    pendingRef.current?.resolve(response);
+    pendingRef.current = null;
+    setChallenge(null);
+  }, []);
+
+  const cancel = useCallback(() => {
+    pendingRef.current?.reject(new Error('Step-up cancelled'));
+    pendingRef.current = null;
+    setChallenge(null);
+  }, []);
+
+  return { challenge, complete, cancel };
+};
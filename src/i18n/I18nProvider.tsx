@@ -0,0 +1,53 @@
+import { createElement, Fragment, useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { formatMessage, type TagRenderer } from './format';
+import { I18nContext, type I18nContextValue, type Translate, type TranslateRich } from './i18nContext';
+import { detectLocale, LOCALES, saveLocale, type Locale } from './locales';
+import { MESSAGES } from './messages';
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+const DEFAULT_TAGS: Record<string, TagRenderer<ReactNode>> = {
+  strong: (children) => createElement('strong', null, ...children),
+};
+
+// Owns the active locale and keeps <html lang dir> in step with it
+export const I18nProvider = ({ children }: I18nProviderProps) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+  const { dir } = LOCALES[locale];
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const t = useCallback<Translate>(
+    (id, values) => formatMessage(locale, MESSAGES[locale][id], values).join(''),
+    [locale]
+  );
+
+  const rich = useCallback<TranslateRich>(
+    (id, values, tags) =>
+      createElement(
+        Fragment,
+        null,
+        ...formatMessage<ReactNode>(locale, MESSAGES[locale][id], values, { ...DEFAULT_TAGS, ...tags })
+      ),
+    [locale]
+  );
+
+  const value = useMemo<I18nContextValue>(
+    () => ({ locale, dir, setLocale, t, rich }),
+    [locale, dir, setLocale, t, rich]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,220 @@
+// Formatter for the ICU MessageFormat subset used by the catalogs:
+//   {name}                                   argument, numbers formatted for the locale
+//   {count, plural, =0 {...} one {# item} other {# items}}
+//   {method, select, sms {...} other {...}}
+//   <strong>...</strong>                     tag, rendered by the caller
+// `#` inside a plural is the formatted count. There is no quoting - `{`, `}` and
+// `<tag>` are always syntax.
+
+export type MessageValues = Record<string, string | number | undefined>;
+
+// Renders a tag's formatted children, e.g. as a React element
+export type TagRenderer<T> = (children: (string | T)[]) => T;
+
+type MessageNode =
+  | string
+  | { type: 'argument'; name: string }
+  | { type: 'pound' }
+  | { type: 'plural' | 'select'; name: string; options: Record<string, MessageNode[]> }
+  | { type: 'tag'; name: string; children: MessageNode[] };
+
+const parseMessage = (message: string): MessageNode[] => {
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid message at ${pos} (${reason}): ${message}`);
+  };
+
+  const expect = (text: string) => {
+    if (!message.startsWith(text, pos)) fail(`expected "${text}"`);
+    pos += text.length;
+  };
+
+  const skipWhitespace = () => {
+    while (pos < message.length && /\s/.test(message[pos])) pos++;
+  };
+
+  // Up to (not including) one of the stop characters
+  const readUntil = (stops: string): string => {
+    const start = pos;
+    while (pos < message.length && !stops.includes(message[pos])) pos++;
+    return message.slice(start, pos).trim();
+  };
+
+  // Text and placeholders until a `}` or closing tag, which the caller consumes
+  const parseNodes = (inPlural: boolean): MessageNode[] => {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flushText = () => {
+      if (text) nodes.push(text);
+      text = '';
+    };
+
+    while (pos < message.length) {
+      const char = message[pos];
+      if (char === '}' || message.startsWith('</', pos)) break;
+
+      if (char === '{') {
+        flushText();
+        nodes.push(parseArgument(inPlural));
+      } else if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        pos++;
+      } else if (char === '<') {
+        flushText();
+        pos++;
+        const name = readUntil('>');
+        expect('>');
+        const children = parseNodes(inPlural);
+        expect(`</${name}>`);
+        nodes.push({ type: 'tag', name, children });
+      } else {
+        text += char;
+        pos++;
+      }
+    }
+    flushText();
+    return nodes;
+  };
+
+  const parseArgument = (inPlural: boolean): MessageNode => {
+    expect('{');
+    const name = readUntil(',}');
+    if (!name) fail('missing argument name');
+    if (message[pos] === '}') {
+      pos++;
+      return { type: 'argument', name };
+    }
+
+    expect(',');
+    const type = readUntil(',}');
+    if (type !== 'plural' && type !== 'select') fail(`unknown argument type "${type}"`);
+    expect(',');
+
+    const options: Record<string, MessageNode[]> = {};
+    for (;;) {
+      skipWhitespace();
+      if (message[pos] === '}') break;
+      const selector = readUntil('{}');
+      if (!selector) fail('missing option selector');
+      expect('{');
+      options[selector] = parseNodes(type === 'plural' || inPlural);
+      expect('}');
+    }
+    expect('}');
+
+    if (!options.other) fail(`"${name}" has no "other" option`);
+    return { type: type as 'plural' | 'select', name, options };
+  };
+
+  const nodes = parseNodes(false);
+  if (pos < message.length) fail('unexpected closing character');
+  return nodes;
+};
+
+// Catalog messages are static, so each is parsed once
+const parsedMessages = new Map<string, MessageNode[]>();
+
+const getParsedMessage = (message: string): MessageNode[] => {
+  let nodes = parsedMessages.get(message);
+  if (!nodes) {
+    nodes = parseMessage(message);
+    parsedMessages.set(message, nodes);
+  }
+  return nodes;
+};
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const formatNumber = (locale: string, value: number): string => {
+  let format = numberFormats.get(locale);
+  if (!format) {
+    format = new Intl.NumberFormat(locale);
+    numberFormats.set(locale, format);
+  }
+  return format.format(value);
+};
+
+const selectPlural = (locale: string, value: number): Intl.LDMLPluralRule => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(value);
+};
+
+const formatNodes = <T>(
+  nodes: MessageNode[],
+  locale: string,
+  values: MessageValues,
+  tags: Record<string, TagRenderer<T>>,
+  count?: number
+): (string | T)[] => {
+  const parts: (string | T)[] = [];
+  const pushText = (text: string) => {
+    const last = parts.length - 1;
+    if (last >= 0 && typeof parts[last] === 'string') {
+      parts[last] += text;
+    } else {
+      parts.push(text);
+    }
+  };
+  const pushParts = (more: (string | T)[]) => {
+    for (const part of more) {
+      if (typeof part === 'string') pushText(part);
+      else parts.push(part);
+    }
+  };
+
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      pushText(node);
+      continue;
+    }
+    switch (node.type) {
+      case 'argument': {
+        const value = values[node.name];
+        pushText(typeof value === 'number' ? formatNumber(locale, value) : (value ?? ''));
+        break;
+      }
+      case 'pound':
+        pushText(count === undefined ? '#' : formatNumber(locale, count));
+        break;
+      case 'plural': {
+        const value = Number(values[node.name] ?? 0);
+        const option =
+          node.options[`=${value}`] ?? node.options[selectPlural(locale, value)] ?? node.options.other;
+        pushParts(formatNodes(option, locale, values, tags, value));
+        break;
+      }
+      case 'select': {
+        const option = node.options[String(values[node.name])] ?? node.options.other;
+        pushParts(formatNodes(option, locale, values, tags, count));
+        break;
+      }
+      case 'tag': {
+        const children = formatNodes(node.children, locale, values, tags, count);
+        const render = tags[node.name];
+        if (render) {
+          parts.push(render(children));
+        } else {
+          // Unknown tags keep their text
+          pushParts(children);
+        }
+        break;
+      }
+    }
+  }
+  return parts;
+};
+
+// Format a message into text and rendered tags
+export const formatMessage = <T = never>(
+  locale: string,
+  message: string,
+  values: MessageValues = {},
+  tags: Record<string, TagRenderer<T>> = {}
+): (string | T)[] => formatNodes(getParsedMessage(message), locale, values, tags);
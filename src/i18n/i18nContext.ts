@@ -0,0 +1,33 @@
+import { createContext, useContext, type ReactNode } from 'react';
+import type { TagRenderer, MessageValues } from './format';
+import type { Locale, TextDirection } from './locales';
+import type { MessageId } from './messages';
+
+// Plain-text message, e.g. for attributes and error strings
+export type Translate = (id: MessageId, values?: MessageValues) => string;
+
+// Message with markup - `<strong>` is rendered by default, other tags by the caller
+export type TranslateRich = (
+  id: MessageId,
+  values?: MessageValues,
+  tags?: Record<string, TagRenderer<ReactNode>>
+) => ReactNode;
+
+export interface I18nContextValue {
+  locale: Locale;
+  dir: TextDirection;
+  // Switch language and remember the choice
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  rich: TranslateRich;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+};
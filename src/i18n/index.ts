@@ -0,0 +1,5 @@
+export { I18nProvider } from './I18nProvider';
+export { useI18n, type I18nContextValue, type Translate, type TranslateRich } from './i18nContext';
+export { formatMessage, type MessageValues, type TagRenderer } from './format';
+export { LOCALES, DEFAULT_LOCALE, detectLocale, isLocale, type Locale, type TextDirection } from './locales';
+export { MESSAGES, isMessageId, type MessageId, type Messages } from './messages';
@@ -0,0 +1,41 @@
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+  // Name of the language in itself, for the switcher
+  label: string;
+  dir: TextDirection;
+}
+
+export const LOCALES = {
+  en: { label: 'English', dir: 'ltr' },
+  es: { label: 'Español', dir: 'ltr' },
+  ar: { label: 'العربية', dir: 'rtl' },
+} as const satisfies Record<string, LocaleInfo>;
+
+export type Locale = keyof typeof LOCALES;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// The user's explicit choice from the switcher
+const LOCALE_KEY = 'locale';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.hasOwn(LOCALES, value);
+
+// Saved choice, then the first browser language we have a catalog for
+export const detectLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    // "es-MX" -> "es"
+    const language = tag.split('-')[0].toLowerCase();
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale): void => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
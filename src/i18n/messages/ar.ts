@@ -0,0 +1,248 @@
+import type { Messages } from './en';
+
+export const ar: Messages = {
+  'error.timeout_error': 'انتهت مهلة الطلب. يُرجى المحاولة مرة أخرى.',
+  'error.network_error': 'مشكلة في الاتصال. يُرجى التحقق من الشبكة.',
+  'error.server_error': 'خطأ في الخادم. يُرجى المحاولة لاحقًا.',
+  'error.invalid_credentials': 'البريد الإلكتروني أو كلمة المرور غير صحيحة.',
+  'error.user_not_found': 'المستخدم غير موجود.',
+  'error.unauthorized': 'انتهت جلستك. يُرجى تسجيل الدخول مرة أخرى.',
+  'error.token_expired': 'انتهت صلاحية جلستك. يُرجى تسجيل الدخول مرة أخرى.',
+  'error.invalid_refresh_token': 'انتهت صلاحية جلستك. يُرجى تسجيل الدخول مرة أخرى.',
+  'error.invalid_2fa_code': 'رمز التحقق غير صالح. يُرجى المحاولة مرة أخرى.',
+  'error.2fa_expired': 'انتهت جلسة التحقق. يُرجى تسجيل الدخول مرة أخرى.',
+  'error.invalid_recovery_code': 'رمز الاسترداد غير صالح أو مستخدم من قبل.',
+  'error.code_expired': 'انتهت صلاحية هذا الرمز. يُرجى طلب رمز جديد.',
+  'error.rate_limited':
+    '{retryAfter, plural, =0 {طلبات رموز كثيرة جدًا. يُرجى المحاولة لاحقًا.} other {طلبات رموز كثيرة جدًا. يُرجى المحاولة بعد {retryAfter, plural, one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} other {# ثانية}}.}}',
+  'error.method_unavailable': 'طريقة التحقق هذه غير متاحة لحسابك.',
+  'error.already_enrolled': 'تم إعداد تطبيق مصادقة لهذا الحساب بالفعل.',
+  'error.enrollment_not_started': 'توقف الإعداد. يُرجى تسجيل الدخول مرة أخرى.',
+  'error.enrollment_required': 'أعدّ تطبيق مصادقة لإكمال تسجيل الدخول.',
+  'error.passkey_cancelled': 'تم إلغاء تسجيل الدخول بمفتاح المرور.',
+  'error.passkey_not_supported': 'هذا المتصفح لا يدعم مفاتيح المرور.',
+  'error.passkey_not_found': 'مفتاح المرور هذا غير مسجّل. سجّل الدخول بكلمة المرور بدلًا منه.',
+  'error.passkey_already_registered': 'يوجد على هذا الجهاز مفتاح مرور لحسابك بالفعل.',
+  'error.passkey_invalid': 'تعذّر تسجيل الدخول بمفتاح المرور. يُرجى المحاولة مرة أخرى.',
+  'error.passkey_failed': 'تعذّر تسجيل الدخول بمفتاح المرور. يُرجى المحاولة مرة أخرى.',
+  'error.passkey_challenge_expired': 'تعذّر تسجيل الدخول بمفتاح المرور. يُرجى المحاولة مرة أخرى.',
+  'error.oidc_cancelled': 'تم إلغاء تسجيل الدخول عبر مزوّد الهوية.',
+  'error.oidc_state_mismatch': 'محاولة تسجيل الدخول هذه لم تعد صالحة. يُرجى البدء من جديد من صفحة تسجيل الدخول.',
+  'error.oidc_invalid_token': 'تعذّر التحقق من استجابة مزوّد الهوية. يُرجى المحاولة مرة أخرى.',
+  'error.oidc_failed': 'فشل تسجيل الدخول عبر مزوّد الهوية. يُرجى المحاولة مرة أخرى.',
+  'error.sso_required': 'تستخدم مؤسستك تسجيل الدخول الموحّد. تابع باستخدام بريدك الإلكتروني للانتقال إلى مزوّد الهوية.',
+  'error.discovery_expired': 'استغرق تسجيل الدخول وقتًا طويلًا. يُرجى إدخال بريدك الإلكتروني مرة أخرى.',
+  'error.email_taken': 'يوجد حساب بهذا البريد الإلكتروني بالفعل. جرّب تسجيل الدخول.',
+  'error.weak_password': 'كلمة المرور هذه سهلة التخمين. يُرجى اختيار كلمة أقوى.',
+  'error.invalid_verification_code': 'رمز التحقق غير صالح. يُرجى مراجعة البريد والمحاولة مرة أخرى.',
+  'error.verification_expired': 'انتهت صلاحية رمز التحقق هذا. يُرجى طلب بريد جديد.',
+  'error.too_many_attempts': 'محاولات فاشلة كثيرة جدًا. يُرجى الانتظار قبل المحاولة مرة أخرى.',
+  'error.account_locked': 'هذا الحساب مقفل مؤقتًا بعد محاولات فاشلة كثيرة. يُرجى المحاولة لاحقًا.',
+  'error.challenge_required': 'يُرجى إكمال التحقق الأمني والمحاولة مرة أخرى.',
+  'error.step_up_required': 'يُرجى تأكيد هويتك للمتابعة.',
+  'error.reset_token_invalid': 'رابط إعادة التعيين هذا غير صالح أو مستخدم من قبل. يُرجى طلب رابط جديد.',
+  'error.reset_token_expired': 'انتهت صلاحية رابط إعادة التعيين هذا. يُرجى طلب رابط جديد.',
+  'error.validation_failed': 'بعض البيانات التي أدخلتها غير صالحة. يُرجى مراجعتها والمحاولة مرة أخرى.',
+  'error.unknown_error': 'حدث خطأ غير متوقع. يُرجى المحاولة مرة أخرى.',
+  'error.unauthorized.login': 'البريد الإلكتروني أو كلمة المرور غير صحيحة.',
+  'error.rate_limited.emailVerification':
+    '{retryAfter, plural, =0 {طلبات بريد كثيرة جدًا. يُرجى المحاولة لاحقًا.} other {طلبات بريد كثيرة جدًا. يُرجى المحاولة بعد {retryAfter, plural, one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} other {# ثانية}}.}}',
+  'error.rate_limited.passwordReset':
+    '{retryAfter, plural, =0 {طلبات بريد كثيرة جدًا. يُرجى المحاولة لاحقًا.} other {طلبات بريد كثيرة جدًا. يُرجى المحاولة بعد {retryAfter, plural, one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} other {# ثانية}}.}}',
+  'error.passkey_cancelled.passkeyRegistration': 'تم إلغاء إعداد مفتاح المرور.',
+  'error.passkey_not_supported.passkeyRegistration': 'هذا المتصفح أو الجهاز لا يدعم مفاتيح المرور.',
+  'error.passkey_invalid.passkeyRegistration': 'تعذّر التحقق من مفتاح المرور. يُرجى المحاولة مرة أخرى.',
+  'error.passkey_failed.passkeyRegistration': 'تعذّر التحقق من مفتاح المرور. يُرجى المحاولة مرة أخرى.',
+  'error.passkey_challenge_expired.passkeyRegistration': 'تعذّر التحقق من مفتاح المرور. يُرجى المحاولة مرة أخرى.',
+  'error.user_not_found.oidc': 'لا يوجد حساب يستخدم البريد الإلكتروني الوارد من مزوّد الهوية.',
+  'error.account_locked.login':
+    'هذا الحساب مقفل مؤقتًا بعد محاولات فاشلة كثيرة. حاول لاحقًا أو أعد تعيين كلمة المرور.',
+  'error.invalid_credentials.stepUp': 'كلمة المرور غير صحيحة.',
+  'error.method_unavailable.recoveryCodes': 'أعدّ تطبيق مصادقة للحصول على رموز الاسترداد.',
+
+  'common.verifying': 'جارٍ التحقق...',
+  'common.backToLogin': '→ العودة إلى تسجيل الدخول',
+  'common.backToSignIn': 'العودة إلى تسجيل الدخول',
+  'common.waitingForPasskey': 'في انتظار مفتاح المرور...',
+  'common.locale': 'اللغة',
+  'common.loadingSession': 'جارٍ استعادة جلستك...',
+
+  'field.email': 'البريد الإلكتروني',
+  'field.emailPlaceholder': 'أدخل بريدك الإلكتروني',
+  'field.password': 'كلمة المرور',
+  'field.newPasswordPlaceholder': 'أنشئ كلمة مرور',
+  'field.repeatPasswordPlaceholder': 'أعد إدخال كلمة المرور',
+
+  'validation.emailRequired': 'البريد الإلكتروني مطلوب',
+  'validation.emailInvalid': 'يُرجى إدخال بريد إلكتروني صالح',
+  'validation.passwordRequired': 'كلمة المرور مطلوبة',
+  'validation.passwordWeak': 'يُرجى اختيار كلمة مرور أقوى',
+  'validation.confirmPasswordRequired': 'يُرجى تأكيد كلمة المرور',
+  'validation.passwordMismatch': 'كلمتا المرور غير متطابقتين',
+
+  'attempts.remaining':
+    '{count, plural, zero {لم تتبقَّ أي محاولة} one {تبقّت محاولة واحدة} two {تبقّت محاولتان} few {تبقّت # محاولات} other {تبقّت # محاولة}}',
+  'attempts.tryAgainIn': 'حاول مرة أخرى بعد {time}',
+  'challenge.label': 'التحقق الأمني',
+  'challenge.checkbox': 'أنا لست روبوتًا',
+  'challenge.checking': 'جارٍ التحقق...',
+  'challenge.failed': 'فشل التحقق الأمني. يُرجى المحاولة مرة أخرى.',
+
+  'login.title': 'سجّل الدخول إلى حسابك للمتابعة',
+  'login.passwordPlaceholder': 'أدخل كلمة المرور',
+  'login.forgotPassword': 'هل نسيت كلمة المرور؟',
+  'login.rememberMe': 'تذكّرني',
+  'login.submit': 'تسجيل الدخول',
+  'login.continue': 'متابعة',
+  'login.checkingEmail': 'جارٍ التحقق...',
+  'login.changeEmail': 'استخدام بريد إلكتروني آخر',
+  'login.passkeySuggested': 'توصي مؤسستك بتسجيل الدخول بمفتاح مرور.',
+  'login.usePassword': 'استخدام كلمة المرور بدلًا من ذلك',
+  'login.submitting': 'جارٍ تسجيل الدخول...',
+  'login.divider': 'أو',
+  'login.passkey': 'تسجيل الدخول بمفتاح مرور',
+  'login.oidc': 'المتابعة باستخدام {provider}',
+  'login.oidcRedirecting': 'جارٍ التحويل إلى {provider}...',
+  'login.signUpPrompt': 'ليس لديك حساب؟ <link>أنشئ حسابًا</link>',
+  'login.notice.sessionExpired': 'انتهت صلاحية جلستك. يُرجى تسجيل الدخول مرة أخرى.',
+  'login.notice.signedOutElsewhere': 'لقد سجّلت الخروج في علامة تبويب أخرى.',
+  'login.notice.passwordChanged': 'تم تغيير كلمة المرور. سجّل الدخول بكلمة المرور الجديدة.',
+  'login.notice.emailVerified': 'تم التحقق من بريدك الإلكتروني. سجّل الدخول لإكمال إعداد حسابك.',
+  'login.notice.twoFactorExpired': 'انتهت مهلة جلسة التحقق. سجّل الدخول مرة أخرى للمتابعة.',
+
+  'oidcCallback.signingIn': 'جارٍ تسجيل دخولك...',
+  'oidcCallback.title': 'فشل تسجيل الدخول',
+
+  'twoFactor.title': 'المصادقة الثنائية',
+  'twoFactor.description.recovery': 'أدخل أحد رموز الاسترداد الخاصة بـ <strong>{email}</strong>',
+  'twoFactor.description.totp': 'أدخل الرمز المكوّن من 6 أرقام من تطبيق Google Authenticator لـ <strong>{email}</strong>',
+  'twoFactor.description.sent': 'أدخل الرمز المكوّن من 6 أرقام الذي أرسلناه إلى <strong>{destination}</strong>',
+  'twoFactor.description.sending':
+    '{method, select, sms {جارٍ إرسال رمز برسالة نصية...} other {جارٍ إرسال رمز بالبريد الإلكتروني...}}',
+  'twoFactor.description.request':
+    '{method, select, sms {اطلب رمزًا مكوّنًا من 6 أرقام برسالة نصية لـ <strong>{email}</strong>} other {اطلب رمزًا مكوّنًا من 6 أرقام بالبريد الإلكتروني لـ <strong>{email}</strong>}}',
+  'twoFactor.method.totp': 'تطبيق المصادقة',
+  'twoFactor.method.sms': 'رسالة نصية',
+  'twoFactor.method.email': 'البريد الإلكتروني',
+  'twoFactor.methodPicker': 'طريقة التحقق',
+  'twoFactor.recoveryWarning':
+    '{count, plural, =0 {لقد استخدمت آخر رمز استرداد.} one {تبقّى رمز استرداد واحد فقط.} two {تبقّى رمزا استرداد فقط.} few {تبقّت # رموز استرداد فقط.} other {تبقّى # رمز استرداد فقط.}} أعد إعداد تطبيق المصادقة للحصول على رموز جديدة.',
+  'twoFactor.continue': 'متابعة',
+  'twoFactor.recoveryCode': 'رمز الاسترداد',
+  'twoFactor.sendCode': '{cooldown, plural, =0 {إرسال الرمز} other {إرسال الرمز بعد # ث}}',
+  'twoFactor.resendCode': '{cooldown, plural, =0 {إعادة إرسال الرمز} other {إعادة الإرسال بعد # ث}}',
+  'twoFactor.submit': 'تحقق من الرمز',
+  'twoFactor.trustDevice': 'الوثوق بهذا الجهاز لمدة 30 يومًا',
+  'twoFactor.useAuthenticator': 'استخدم تطبيق المصادقة',
+  'twoFactor.useRecoveryCode': 'استخدم رمز استرداد',
+  'twoFactor.success': 'تم التحقق بنجاح!',
+  'twoFactor.expiresIn': 'الوقت المتبقي للتحقق: {time}',
+  'twoFactor.expiringSoon': 'تبقّى أقل من دقيقة. بعد ذلك ستحتاج إلى تسجيل الدخول مرة أخرى.',
+
+  'otp.label': 'رمز التحقق',
+  'otp.character': 'الخانة {index} من {length}',
+
+  'enroll.title': 'إعداد المصادقة الثنائية',
+  'enroll.description':
+    'امسح رمز QR باستخدام Google Authenticator أو أي تطبيق مصادقة آخر لحماية <strong>{email}</strong>',
+  'enroll.manualKey': 'لا يمكنك المسح؟ أدخل هذا المفتاح يدويًا:',
+  'enroll.code': 'أدخل الرمز المكوّن من 6 أرقام من التطبيق',
+  'enroll.submit': 'تحقق وفعّل',
+  'enroll.recoveryTitle': 'احفظ رموز الاسترداد',
+  'enroll.recoveryDescription':
+    'يمكن استخدام كل رمز مرة واحدة لتسجيل الدخول إذا فقدت الوصول إلى تطبيق المصادقة. احفظها في مكان آمن، فلن تُعرض مرة أخرى.',
+  'enroll.download': 'تنزيل الرموز',
+  'enroll.saved': 'لقد حفظت رموزي',
+  'enroll.fileTitle': 'رموز الاسترداد لـ {email}',
+  'enroll.fileDescription': 'يمكن استخدام كل رمز مرة واحدة لتسجيل الدخول إذا فقدت الوصول إلى تطبيق المصادقة.',
+
+  'signUp.title': 'أنشئ حسابك',
+  'signUp.confirmPassword': 'تأكيد كلمة المرور',
+  'signUp.submit': 'إنشاء حساب',
+  'signUp.submitting': 'جارٍ إنشاء الحساب...',
+  'signUp.signInPrompt': 'لديك حساب بالفعل؟ <link>سجّل الدخول</link>',
+
+  'passwordStrength.label': 'قوة كلمة المرور: <strong>{level}</strong>',
+  'passwordStrength.score0': 'ضعيفة جدًا',
+  'passwordStrength.score1': 'ضعيفة',
+  'passwordStrength.score2': 'مقبولة',
+  'passwordStrength.score3': 'جيدة',
+  'passwordStrength.score4': 'قوية',
+  'passwordStrength.warningCommon': 'هذه من أكثر كلمات المرور شيوعًا.',
+  'passwordStrength.warningShort': 'استخدم {minLength} أحرف على الأقل.',
+  'passwordStrength.warningPersonal': 'تجنّب استخدام اسمك أو بريدك الإلكتروني.',
+  'passwordStrength.warningPattern': 'التكرار مثل "aaa" والتسلسلات مثل "abc" أو "123" سهلة التخمين.',
+  'passwordStrength.suggestLength': 'استخدم 12 حرفًا أو أكثر، فبضع كلمات غير مترابطة خيار جيد.',
+  'passwordStrength.suggestMixedCase': 'امزج بين الأحرف الكبيرة والصغيرة.',
+  'passwordStrength.suggestDigit': 'أضف رقمًا.',
+  'passwordStrength.suggestSymbol': 'أضف رمزًا مثل ! أو #.',
+
+  'verifyEmail.title': 'تحقق من بريدك الإلكتروني',
+  'verifyEmail.description':
+    'أرسلنا رمزًا مكوّنًا من 6 أرقام إلى بريدك الإلكتروني. أدخله أدناه أو افتح الرابط في الرسالة.',
+  'verifyEmail.descriptionTo':
+    'أرسلنا رمزًا مكوّنًا من 6 أرقام إلى <strong>{destination}</strong>. أدخله أدناه أو افتح الرابط في الرسالة.',
+  'verifyEmail.code': 'رمز التحقق',
+  'verifyEmail.submit': 'تأكيد البريد الإلكتروني',
+  'verifyEmail.resend': '{cooldown, plural, =0 {إعادة إرسال البريد} other {إعادة الإرسال بعد # ث}}',
+
+  'forgotPassword.title': 'إعادة تعيين كلمة المرور',
+  'forgotPassword.description': 'أدخل البريد الإلكتروني الذي تسجّل به الدخول وسنرسل إليك رابطًا لاختيار كلمة مرور جديدة.',
+  'forgotPassword.submit': 'إرسال الرابط',
+  'forgotPassword.submitting': 'جارٍ إرسال الرابط...',
+  'forgotPassword.signInPrompt': 'تذكّرتها؟ <link>العودة إلى تسجيل الدخول</link>',
+  'forgotPassword.sentTitle': 'تحقق من بريدك الإلكتروني',
+  'forgotPassword.sentDescription':
+    'إذا كان هناك حساب لـ <strong>{email}</strong>، فقد أرسلنا إليه رابطًا لإعادة تعيين كلمة المرور. {minutes, plural, one {تنتهي صلاحية الرابط بعد دقيقة واحدة.} two {تنتهي صلاحية الرابط بعد دقيقتين.} few {تنتهي صلاحية الرابط بعد # دقائق.} other {تنتهي صلاحية الرابط بعد # دقيقة.}}',
+  'forgotPassword.tryAgain': 'استخدم بريدًا آخر أو أرسل رابطًا آخر',
+
+  'resetPassword.title': 'اختر كلمة مرور جديدة',
+  'resetPassword.description': 'سيتم تسجيل خروجك من كل مكان، وسنطلب رمز التحقق عند تسجيل دخولك التالي.',
+  'resetPassword.password': 'كلمة المرور الجديدة',
+  'resetPassword.confirmPassword': 'تأكيد كلمة المرور الجديدة',
+  'resetPassword.requestNewLink': 'طلب رابط جديد',
+  'resetPassword.submit': 'حفظ كلمة المرور الجديدة',
+  'resetPassword.submitting': 'جارٍ حفظ كلمة المرور...',
+
+  'passkeyPrompt.title': 'سجّل الدخول أسرع في المرة القادمة',
+  'passkeyPrompt.description':
+    'أنشئ مفتاح مرور لتسجيل الدخول ببصمتك أو وجهك أو قفل الشاشة بدلًا من كلمة المرور والرمز.',
+  'passkeyPrompt.submit': 'إنشاء مفتاح مرور',
+  'passkeyPrompt.success': 'تم إنشاء مفتاح المرور. في المرة القادمة، اختر "تسجيل الدخول بمفتاح مرور".',
+
+  'account.title': 'مرحبًا بك!',
+  'account.signedInAs': 'أنت مسجّل الدخول باسم <strong>{email}</strong>.',
+  'account.signOut': 'تسجيل الخروج',
+  'account.signingOut': 'جارٍ تسجيل الخروج...',
+
+  // Trusted devices
+  'trustedDevices.title': 'الأجهزة الموثوقة',
+  'trustedDevices.description':
+    'تسجّل هذه الأجهزة الدخول دون رمز تحقق. تؤدي إعادة تعيين كلمة المرور إلى إزالتها جميعًا.',
+  'trustedDevices.loading': 'جارٍ تحميل الأجهزة...',
+  'trustedDevices.empty':
+    'لا توجد أجهزة موثوقة. اختر "الوثوق بهذا الجهاز" عند إدخال رمز التحقق لإضافة جهاز.',
+  'trustedDevices.current': 'هذا الجهاز',
+  'trustedDevices.details': 'آخر استخدام {lastUsed} · موثوق حتى {expiresAt}',
+  'trustedDevices.revoke': 'إزالة',
+  'trustedDevices.revokeLabel': 'إزالة {name}',
+  'trustedDevices.revoked': 'تمت إزالة {name}. سيطلب رمز تحقق في المرة القادمة.',
+
+  // Step-up re-authentication
+  'stepUp.title': 'أكّد هويتك',
+  'stepUp.description.password': 'أدخل كلمة المرور للمتابعة.',
+  'stepUp.description.totp': 'أدخل الرمز المكوّن من 6 أرقام من تطبيق المصادقة للمتابعة.',
+  'stepUp.usePassword': 'استخدام كلمة المرور بدلًا من ذلك',
+  'stepUp.useAuthenticator': 'استخدام تطبيق المصادقة بدلًا من ذلك',
+  'stepUp.submit': 'تأكيد',
+  'stepUp.submitting': 'جارٍ التأكيد...',
+  'stepUp.cancel': 'إلغاء',
+
+  // Recovery codes
+  'recoveryCodes.title': 'رموز الاسترداد',
+  'recoveryCodes.description':
+    'يتيح لك كل رمز استرداد تسجيل الدخول مرة واحدة إذا فقدت الوصول إلى تطبيق المصادقة.',
+  'recoveryCodes.generate': 'إنشاء رموز استرداد جديدة',
+  'recoveryCodes.generating': 'جارٍ الإنشاء...',
+  'recoveryCodes.generated': 'احفظ هذه الرموز في مكان آمن. لم تعد رموزك السابقة صالحة.',
+};
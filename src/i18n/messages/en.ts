@@ -0,0 +1,280 @@
+import type { ApiErrorCode } from '../../api/types';
+import type { ErrorMessageContext } from '../../api/errorMessages';
+
+// One message per ApiErrorCode - a missing one fails the type-check
+const errorMessages = {
+  'error.timeout_error': 'Request timed out. Please try again.',
+  'error.network_error': 'Connection problem. Please check your network.',
+  'error.server_error': 'Server error. Please try again later.',
+  'error.invalid_credentials': 'Incorrect email or password.',
+  'error.user_not_found': 'User not found.',
+  'error.unauthorized': 'Your session has ended. Please sign in again.',
+  'error.token_expired': 'Your session has expired. Please sign in again.',
+  'error.invalid_refresh_token': 'Your session has expired. Please sign in again.',
+  'error.invalid_2fa_code': 'Invalid verification code. Please try again.',
+  'error.2fa_expired': 'Verification session expired. Please login again.',
+  'error.invalid_recovery_code': 'Invalid or already used recovery code.',
+  'error.code_expired': 'This code has expired. Please request a new one.',
+  'error.rate_limited':
+    '{retryAfter, plural, =0 {Too many code requests. Please try again later.} other {Too many code requests. Please try again in #s.}}',
+  'error.method_unavailable': 'This verification method is not available for your account.',
+  'error.already_enrolled': 'An authenticator is already set up for this account.',
+  'error.enrollment_not_started': 'Setup was interrupted. Please login again.',
+  'error.enrollment_required': 'Set up an authenticator app to finish signing in.',
+  'error.passkey_cancelled': 'Passkey sign-in was cancelled.',
+  'error.passkey_not_supported': 'This browser does not support passkeys.',
+  'error.passkey_not_found': 'This passkey is not registered. Sign in with your password instead.',
+  'error.passkey_already_registered': 'This device already has a passkey for your account.',
+  'error.passkey_invalid': 'Passkey sign-in failed. Please try again.',
+  'error.passkey_failed': 'Passkey sign-in failed. Please try again.',
+  'error.passkey_challenge_expired': 'Passkey sign-in failed. Please try again.',
+  'error.oidc_cancelled': 'Sign-in with your identity provider was cancelled.',
+  'error.oidc_state_mismatch': 'This sign-in attempt is no longer valid. Please start again from the login page.',
+  'error.oidc_invalid_token': 'The response from your identity provider could not be verified. Please try again.',
+  'error.oidc_failed': 'Sign-in with your identity provider failed. Please try again.',
+  'error.sso_required': 'Your organization signs in with single sign-on. Continue with your email to go to your identity provider.',
+  'error.discovery_expired': 'Your sign-in took too long. Please enter your email again.',
+  'error.email_taken': 'An account with this email already exists. Try signing in instead.',
+  'error.weak_password': 'This password is too easy to guess. Please choose a stronger one.',
+  'error.invalid_verification_code': 'Invalid verification code. Please check the email and try again.',
+  'error.verification_expired': 'This verification code has expired. Please request a new email.',
+  'error.too_many_attempts': 'Too many failed attempts. Please wait before trying again.',
+  'error.account_locked': 'This account is temporarily locked after too many failed attempts. Please try again later.',
+  'error.challenge_required': 'Please complete the security check and try again.',
+  'error.step_up_required': "Please confirm it's you to continue.",
+  'error.reset_token_invalid': 'This reset link is invalid or has already been used. Please request a new one.',
+  'error.reset_token_expired': 'This reset link has expired. Please request a new one.',
+  // Shown only for field errors the form can't place next to an input
+  'error.validation_failed': 'Some of the details you entered are invalid. Please check them and try again.',
+  'error.unknown_error': 'An unexpected error occurred. Please try again.',
+} satisfies Record<`error.${ApiErrorCode}`, string>;
+
+// Codes that read differently on some screens
+const contextErrorMessages = {
+  'error.unauthorized.login': 'Incorrect email or password.',
+  'error.rate_limited.emailVerification':
+    '{retryAfter, plural, =0 {Too many email requests. Please try again later.} other {Too many email requests. Please try again in #s.}}',
+  'error.rate_limited.passwordReset':
+    '{retryAfter, plural, =0 {Too many email requests. Please try again later.} other {Too many email requests. Please try again in #s.}}',
+  'error.passkey_cancelled.passkeyRegistration': 'Passkey setup was cancelled.',
+  'error.passkey_not_supported.passkeyRegistration': 'This browser or device does not support passkeys.',
+  'error.passkey_invalid.passkeyRegistration': 'Passkey could not be verified. Please try again.',
+  'error.passkey_failed.passkeyRegistration': 'Passkey could not be verified. Please try again.',
+  'error.passkey_challenge_expired.passkeyRegistration': 'Passkey could not be verified. Please try again.',
+  'error.user_not_found.oidc': 'No account uses the email address from your identity provider.',
+  'error.account_locked.login':
+    'This account is temporarily locked after too many failed attempts. Try again later or reset your password.',
+  'error.invalid_credentials.stepUp': 'Incorrect password.',
+  'error.method_unavailable.recoveryCodes': 'Set up an authenticator app to get recovery codes.',
+} satisfies Partial<Record<`error.${ApiErrorCode}.${ErrorMessageContext}`, string>>;
+
+// Source catalog. Other locales must translate every message.
+export const en = {
+  ...errorMessages,
+  ...contextErrorMessages,
+
+  // Shared
+  'common.verifying': 'Verifying...',
+  'common.backToLogin': '← Back to login',
+  'common.backToSignIn': 'Back to sign in',
+  'common.waitingForPasskey': 'Waiting for passkey...',
+  'common.locale': 'Language',
+  'common.loadingSession': 'Restoring your session...',
+
+  // Form fields
+  'field.email': 'Email',
+  'field.emailPlaceholder': 'Enter your email',
+  'field.password': 'Password',
+  'field.newPasswordPlaceholder': 'Create a password',
+  'field.repeatPasswordPlaceholder': 'Repeat your password',
+
+  // Client-side validation
+  'validation.emailRequired': 'Email is required',
+  'validation.emailInvalid': 'Please enter a valid email',
+  'validation.passwordRequired': 'Password is required',
+  'validation.passwordWeak': 'Please choose a stronger password',
+  'validation.confirmPasswordRequired': 'Please confirm your password',
+  'validation.passwordMismatch': 'Passwords do not match',
+
+  // Brute-force protection
+  'attempts.remaining': '{count, plural, one {# attempt left} other {# attempts left}}',
+  'attempts.tryAgainIn': 'Try again in {time}',
+  'challenge.label': 'Security check',
+  'challenge.checkbox': "I'm not a robot",
+  'challenge.checking': 'Checking...',
+  'challenge.failed': 'The security check failed. Please try again.',
+
+  // Login
+  'login.title': 'Sign in to your account to continue',
+  'login.passwordPlaceholder': 'Enter your password',
+  'login.forgotPassword': 'Forgot password?',
+  'login.rememberMe': 'Remember me',
+  'login.submit': 'Log in',
+  'login.continue': 'Continue',
+  'login.checkingEmail': 'Checking...',
+  'login.changeEmail': 'Use a different email',
+  'login.passkeySuggested': 'Your organization recommends signing in with a passkey.',
+  'login.usePassword': 'Use your password instead',
+  'login.submitting': 'Signing in...',
+  'login.divider': 'or',
+  'login.passkey': 'Sign in with a passkey',
+  'login.oidc': 'Continue with {provider}',
+  'login.oidcRedirecting': 'Redirecting to {provider}...',
+  'login.signUpPrompt': "Don't have an account? <link>Create one</link>",
+  'login.notice.sessionExpired': 'Your session has expired. Please sign in again.',
+  'login.notice.signedOutElsewhere': 'You signed out in another tab.',
+  'login.notice.passwordChanged': 'Your password has been changed. Sign in with your new password.',
+  'login.notice.emailVerified': 'Your email is verified. Sign in to finish setting up your account.',
+  'login.notice.twoFactorExpired': 'Your verification session timed out. Sign in again to continue.',
+
+  'oidcCallback.signingIn': 'Signing you in...',
+  'oidcCallback.title': 'Sign-in failed',
+
+  // 2FA
+  'twoFactor.title': 'Two-Factor Authentication',
+  'twoFactor.description.recovery': 'Enter one of your recovery codes for <strong>{email}</strong>',
+  'twoFactor.description.totp': 'Enter the 6-digit code from your Google Authenticator app for <strong>{email}</strong>',
+  'twoFactor.description.sent': 'Enter the 6-digit code we sent to <strong>{destination}</strong>',
+  'twoFactor.description.sending':
+    '{method, select, sms {Sending a code by text message...} other {Sending a code by email...}}',
+  'twoFactor.description.request':
+    '{method, select, sms {Request a 6-digit code by text message for <strong>{email}</strong>} other {Request a 6-digit code by email for <strong>{email}</strong>}}',
+  'twoFactor.method.totp': 'Authenticator app',
+  'twoFactor.method.sms': 'Text message',
+  'twoFactor.method.email': 'Email',
+  'twoFactor.methodPicker': 'Verification method',
+  'twoFactor.recoveryWarning':
+    '{count, plural, =0 {You have used your last recovery code.} one {Only # recovery code left.} other {Only # recovery codes left.}} Set up your authenticator again to get new codes.',
+  'twoFactor.continue': 'Continue',
+  'twoFactor.recoveryCode': 'Recovery code',
+  'twoFactor.sendCode': '{cooldown, plural, =0 {Send code} other {Send code in #s}}',
+  'twoFactor.resendCode': '{cooldown, plural, =0 {Resend code} other {Resend code in #s}}',
+  'twoFactor.submit': 'Verify Code',
+  'twoFactor.trustDevice': 'Trust this device for 30 days',
+  'twoFactor.useAuthenticator': 'Use your authenticator app',
+  'twoFactor.useRecoveryCode': 'Use a recovery code',
+  'twoFactor.success': 'Successfully verified!',
+  'twoFactor.expiresIn': 'Time left to verify: {time}',
+  'twoFactor.expiringSoon': 'Less than a minute left. After that you will need to sign in again.',
+
+  // Code entry boxes
+  'otp.label': 'Verification code',
+  'otp.character': 'Character {index} of {length}',
+
+  // Authenticator setup
+  'enroll.title': 'Set up two-factor authentication',
+  'enroll.description':
+    'Scan the QR code with Google Authenticator or another authenticator app to secure <strong>{email}</strong>',
+  'enroll.manualKey': "Can't scan? Enter this key manually:",
+  'enroll.code': 'Enter the 6-digit code from the app',
+  'enroll.submit': 'Verify and enable',
+  'enroll.recoveryTitle': 'Save your recovery codes',
+  'enroll.recoveryDescription':
+    "Each code can be used once to sign in if you lose access to your authenticator app. Store them somewhere safe — they won't be shown again.",
+  'enroll.download': 'Download codes',
+  'enroll.saved': "I've saved my codes",
+  'enroll.fileTitle': 'Recovery codes for {email}',
+  'enroll.fileDescription': 'Each code can be used once to sign in if you lose access to your authenticator.',
+
+  // Sign-up
+  'signUp.title': 'Create your account',
+  'signUp.confirmPassword': 'Confirm password',
+  'signUp.submit': 'Create account',
+  'signUp.submitting': 'Creating account...',
+  'signUp.signInPrompt': 'Already have an account? <link>Sign in</link>',
+
+  // Password strength meter
+  'passwordStrength.label': 'Password strength: <strong>{level}</strong>',
+  'passwordStrength.score0': 'Too weak',
+  'passwordStrength.score1': 'Weak',
+  'passwordStrength.score2': 'Fair',
+  'passwordStrength.score3': 'Good',
+  'passwordStrength.score4': 'Strong',
+  'passwordStrength.warningCommon': 'This is one of the most common passwords.',
+  'passwordStrength.warningShort': 'Use at least {minLength} characters.',
+  'passwordStrength.warningPersonal': 'Avoid using your name or email address.',
+  'passwordStrength.warningPattern': 'Repeats like "aaa" and sequences like "abc" or "123" are easy to guess.',
+  'passwordStrength.suggestLength': 'Use 12 or more characters - a few unrelated words work well.',
+  'passwordStrength.suggestMixedCase': 'Mix uppercase and lowercase letters.',
+  'passwordStrength.suggestDigit': 'Add a number.',
+  'passwordStrength.suggestSymbol': 'Add a symbol such as ! or #.',
+
+  // Email verification
+  'verifyEmail.title': 'Check your email',
+  'verifyEmail.description': 'We sent a 6-digit code to your email. Enter it below or open the link in the email.',
+  'verifyEmail.descriptionTo':
+    'We sent a 6-digit code to <strong>{destination}</strong>. Enter it below or open the link in the email.',
+  'verifyEmail.code': 'Verification code',
+  'verifyEmail.submit': 'Verify email',
+  'verifyEmail.resend': '{cooldown, plural, =0 {Resend email} other {Resend email in #s}}',
+
+  // Forgot password
+  'forgotPassword.title': 'Reset your password',
+  'forgotPassword.description':
+    "Enter the email you sign in with and we'll send you a link to choose a new password.",
+  'forgotPassword.submit': 'Send reset link',
+  'forgotPassword.submitting': 'Sending link...',
+  'forgotPassword.signInPrompt': 'Remembered it? <link>Back to sign in</link>',
+  'forgotPassword.sentTitle': 'Check your email',
+  'forgotPassword.sentDescription':
+    'If an account exists for <strong>{email}</strong>, we sent a link to reset your password. {minutes, plural, one {The link expires in # minute.} other {The link expires in # minutes.}}',
+  'forgotPassword.tryAgain': 'Use a different email or send another link',
+
+  // Reset password
+  'resetPassword.title': 'Choose a new password',
+  'resetPassword.description':
+    "You'll be signed out everywhere and asked for your verification code the next time you sign in.",
+  'resetPassword.password': 'New password',
+  'resetPassword.confirmPassword': 'Confirm new password',
+  'resetPassword.requestNewLink': 'Request a new link',
+  'resetPassword.submit': 'Set new password',
+  'resetPassword.submitting': 'Saving password...',
+
+  // Passkey creation offer
+  'passkeyPrompt.title': 'Sign in faster next time',
+  'passkeyPrompt.description':
+    'Create a passkey to sign in with your fingerprint, face or screen lock instead of a password and code.',
+  'passkeyPrompt.submit': 'Create a passkey',
+  'passkeyPrompt.success': 'Passkey created. Next time, choose "Sign in with a passkey".',
+
+  // Account
+  'account.title': 'Welcome!',
+  'account.signedInAs': 'You are signed in as <strong>{email}</strong>.',
+  'account.signOut': 'Sign out',
+  'account.signingOut': 'Signing out...',
+
+  // Trusted devices
+  'trustedDevices.title': 'Trusted devices',
+  'trustedDevices.description':
+    'These devices sign in without a verification code. Resetting your password removes them all.',
+  'trustedDevices.loading': 'Loading devices...',
+  'trustedDevices.empty':
+    'No trusted devices. Choose "Trust this device" when you enter a verification code to add one.',
+  'trustedDevices.current': 'This device',
+  'trustedDevices.details': 'Last used {lastUsed} · Trusted until {expiresAt}',
+  'trustedDevices.revoke': 'Remove',
+  'trustedDevices.revokeLabel': 'Remove {name}',
+  'trustedDevices.revoked': '{name} removed. It will ask for a verification code next time.',
+
+  // Step-up re-authentication
+  'stepUp.title': "Confirm it's you",
+  'stepUp.description.password': 'Enter your password to continue.',
+  'stepUp.description.totp': 'Enter the 6-digit code from your authenticator app to continue.',
+  'stepUp.usePassword': 'Use your password instead',
+  'stepUp.useAuthenticator': 'Use your authenticator app instead',
+  'stepUp.submit': 'Confirm',
+  'stepUp.submitting': 'Confirming...',
+  'stepUp.cancel': 'Cancel',
+
+  // Recovery codes
+  'recoveryCodes.title': 'Recovery codes',
+  'recoveryCodes.description':
+    'Each recovery code signs you in once if you lose access to your authenticator app.',
+  'recoveryCodes.generate': 'Generate new recovery codes',
+  'recoveryCodes.generating': 'Generating...',
+  'recoveryCodes.generated': 'Save these codes somewhere safe. Your previous codes no longer work.',
+};
+
+export type MessageId = keyof typeof en;
+
+export type Messages = Record<MessageId, string>;
@@ -0,0 +1,258 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  'error.timeout_error': 'La solicitud ha tardado demasiado. Inténtalo de nuevo.',
+  'error.network_error': 'Problema de conexión. Comprueba tu red.',
+  'error.server_error': 'Error del servidor. Inténtalo de nuevo más tarde.',
+  'error.invalid_credentials': 'El correo electrónico o la contraseña no son correctos.',
+  'error.user_not_found': 'No se ha encontrado el usuario.',
+  'error.unauthorized': 'Tu sesión ha finalizado. Vuelve a iniciar sesión.',
+  'error.token_expired': 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+  'error.invalid_refresh_token': 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+  'error.invalid_2fa_code': 'El código de verificación no es válido. Inténtalo de nuevo.',
+  'error.2fa_expired': 'La sesión de verificación ha caducado. Vuelve a iniciar sesión.',
+  'error.invalid_recovery_code': 'El código de recuperación no es válido o ya se ha usado.',
+  'error.code_expired': 'Este código ha caducado. Solicita uno nuevo.',
+  'error.rate_limited':
+    '{retryAfter, plural, =0 {Demasiadas solicitudes de código. Inténtalo de nuevo más tarde.} other {Demasiadas solicitudes de código. Inténtalo de nuevo en # s.}}',
+  'error.method_unavailable': 'Este método de verificación no está disponible para tu cuenta.',
+  'error.already_enrolled': 'Esta cuenta ya tiene configurada una aplicación de autenticación.',
+  'error.enrollment_not_started': 'La configuración se ha interrumpido. Vuelve a iniciar sesión.',
+  'error.enrollment_required': 'Configura una app de autenticación para terminar de iniciar sesión.',
+  'error.passkey_cancelled': 'Se ha cancelado el inicio de sesión con llave de acceso.',
+  'error.passkey_not_supported': 'Este navegador no admite llaves de acceso.',
+  'error.passkey_not_found': 'Esta llave de acceso no está registrada. Inicia sesión con tu contraseña.',
+  'error.passkey_already_registered': 'Este dispositivo ya tiene una llave de acceso para tu cuenta.',
+  'error.passkey_invalid': 'No se ha podido iniciar sesión con la llave de acceso. Inténtalo de nuevo.',
+  'error.passkey_failed': 'No se ha podido iniciar sesión con la llave de acceso. Inténtalo de nuevo.',
+  'error.passkey_challenge_expired': 'No se ha podido iniciar sesión con la llave de acceso. Inténtalo de nuevo.',
+  'error.oidc_cancelled': 'Se ha cancelado el inicio de sesión con tu proveedor de identidad.',
+  'error.oidc_state_mismatch':
+    'Este intento de inicio de sesión ya no es válido. Vuelve a empezar desde la página de inicio de sesión.',
+  'error.oidc_invalid_token': 'No se ha podido verificar la respuesta de tu proveedor de identidad. Inténtalo de nuevo.',
+  'error.oidc_failed': 'No se ha podido iniciar sesión con tu proveedor de identidad. Inténtalo de nuevo.',
+  'error.sso_required': 'Tu organización usa inicio de sesión único. Continúa con tu correo para ir a tu proveedor de identidad.',
+  'error.discovery_expired': 'El inicio de sesión ha tardado demasiado. Vuelve a introducir tu correo.',
+  'error.email_taken': 'Ya existe una cuenta con este correo electrónico. Prueba a iniciar sesión.',
+  'error.weak_password': 'Esta contraseña es demasiado fácil de adivinar. Elige una más segura.',
+  'error.invalid_verification_code': 'El código de verificación no es válido. Revisa el correo e inténtalo de nuevo.',
+  'error.verification_expired': 'Este código de verificación ha caducado. Solicita un correo nuevo.',
+  'error.too_many_attempts': 'Demasiados intentos fallidos. Espera antes de volver a intentarlo.',
+  'error.account_locked':
+    'Esta cuenta está bloqueada temporalmente tras demasiados intentos fallidos. Inténtalo de nuevo más tarde.',
+  'error.challenge_required': 'Completa la comprobación de seguridad e inténtalo de nuevo.',
+  'error.step_up_required': 'Confirma tu identidad para continuar.',
+  'error.reset_token_invalid': 'Este enlace de restablecimiento no es válido o ya se ha usado. Solicita uno nuevo.',
+  'error.reset_token_expired': 'Este enlace de restablecimiento ha caducado. Solicita uno nuevo.',
+  'error.validation_failed': 'Algunos de los datos introducidos no son válidos. Revísalos e inténtalo de nuevo.',
+  'error.unknown_error': 'Se ha producido un error inesperado. Inténtalo de nuevo.',
+  'error.unauthorized.login': 'El correo electrónico o la contraseña no son correctos.',
+  'error.rate_limited.emailVerification':
+    '{retryAfter, plural, =0 {Demasiadas solicitudes de correo. Inténtalo de nuevo más tarde.} other {Demasiadas solicitudes de correo. Inténtalo de nuevo en # s.}}',
+  'error.rate_limited.passwordReset':
+    '{retryAfter, plural, =0 {Demasiadas solicitudes de correo. Inténtalo de nuevo más tarde.} other {Demasiadas solicitudes de correo. Inténtalo de nuevo en # s.}}',
+  'error.passkey_cancelled.passkeyRegistration': 'Se ha cancelado la creación de la llave de acceso.',
+  'error.passkey_not_supported.passkeyRegistration': 'Este navegador o dispositivo no admite llaves de acceso.',
+  'error.passkey_invalid.passkeyRegistration': 'No se ha podido verificar la llave de acceso. Inténtalo de nuevo.',
+  'error.passkey_failed.passkeyRegistration': 'No se ha podido verificar la llave de acceso. Inténtalo de nuevo.',
+  'error.passkey_challenge_expired.passkeyRegistration':
+    'No se ha podido verificar la llave de acceso. Inténtalo de nuevo.',
+  'error.user_not_found.oidc': 'Ninguna cuenta usa el correo electrónico de tu proveedor de identidad.',
+  'error.account_locked.login':
+    'Esta cuenta está bloqueada temporalmente tras demasiados intentos fallidos. Inténtalo más tarde o restablece tu contraseña.',
+  'error.invalid_credentials.stepUp': 'Contraseña incorrecta.',
+  'error.method_unavailable.recoveryCodes': 'Configura una app de autenticación para obtener códigos de recuperación.',
+
+  'common.verifying': 'Verificando...',
+  'common.backToLogin': '← Volver a iniciar sesión',
+  'common.backToSignIn': 'Volver a iniciar sesión',
+  'common.waitingForPasskey': 'Esperando la llave de acceso...',
+  'common.locale': 'Idioma',
+  'common.loadingSession': 'Restaurando tu sesión...',
+
+  'field.email': 'Correo electrónico',
+  'field.emailPlaceholder': 'Introduce tu correo electrónico',
+  'field.password': 'Contraseña',
+  'field.newPasswordPlaceholder': 'Crea una contraseña',
+  'field.repeatPasswordPlaceholder': 'Repite tu contraseña',
+
+  'validation.emailRequired': 'El correo electrónico es obligatorio',
+  'validation.emailInvalid': 'Introduce un correo electrónico válido',
+  'validation.passwordRequired': 'La contraseña es obligatoria',
+  'validation.passwordWeak': 'Elige una contraseña más segura',
+  'validation.confirmPasswordRequired': 'Confirma tu contraseña',
+  'validation.passwordMismatch': 'Las contraseñas no coinciden',
+
+  'attempts.remaining': '{count, plural, one {Queda # intento} other {Quedan # intentos}}',
+  'attempts.tryAgainIn': 'Inténtalo de nuevo en {time}',
+  'challenge.label': 'Comprobación de seguridad',
+  'challenge.checkbox': 'No soy un robot',
+  'challenge.checking': 'Comprobando...',
+  'challenge.failed': 'La comprobación de seguridad ha fallado. Inténtalo de nuevo.',
+
+  'login.title': 'Inicia sesión en tu cuenta para continuar',
+  'login.passwordPlaceholder': 'Introduce tu contraseña',
+  'login.forgotPassword': '¿Has olvidado tu contraseña?',
+  'login.rememberMe': 'Recordarme',
+  'login.submit': 'Iniciar sesión',
+  'login.continue': 'Continuar',
+  'login.checkingEmail': 'Comprobando...',
+  'login.changeEmail': 'Usar otro correo',
+  'login.passkeySuggested': 'Tu organización recomienda iniciar sesión con una llave de acceso.',
+  'login.usePassword': 'Usar mi contraseña',
+  'login.submitting': 'Iniciando sesión...',
+  'login.divider': 'o',
+  'login.passkey': 'Iniciar sesión con una llave de acceso',
+  'login.oidc': 'Continuar con {provider}',
+  'login.oidcRedirecting': 'Redirigiendo a {provider}...',
+  'login.signUpPrompt': '¿No tienes una cuenta? <link>Crea una</link>',
+  'login.notice.sessionExpired': 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+  'login.notice.signedOutElsewhere': 'Has cerrado la sesión en otra pestaña.',
+  'login.notice.passwordChanged': 'Tu contraseña se ha cambiado. Inicia sesión con la nueva contraseña.',
+  'login.notice.emailVerified':
+    'Tu correo electrónico está verificado. Inicia sesión para terminar de configurar tu cuenta.',
+  'login.notice.twoFactorExpired': 'Tu sesión de verificación ha caducado. Vuelve a iniciar sesión para continuar.',
+
+  'oidcCallback.signingIn': 'Iniciando sesión...',
+  'oidcCallback.title': 'No se ha podido iniciar sesión',
+
+  'twoFactor.title': 'Autenticación en dos pasos',
+  'twoFactor.description.recovery': 'Introduce uno de tus códigos de recuperación para <strong>{email}</strong>',
+  'twoFactor.description.totp':
+    'Introduce el código de 6 dígitos de tu aplicación Google Authenticator para <strong>{email}</strong>',
+  'twoFactor.description.sent': 'Introduce el código de 6 dígitos que hemos enviado a <strong>{destination}</strong>',
+  'twoFactor.description.sending':
+    '{method, select, sms {Enviando un código por SMS...} other {Enviando un código por correo electrónico...}}',
+  'twoFactor.description.request':
+    '{method, select, sms {Solicita un código de 6 dígitos por SMS para <strong>{email}</strong>} other {Solicita un código de 6 dígitos por correo electrónico para <strong>{email}</strong>}}',
+  'twoFactor.method.totp': 'Aplicación de autenticación',
+  'twoFactor.method.sms': 'SMS',
+  'twoFactor.method.email': 'Correo electrónico',
+  'twoFactor.methodPicker': 'Método de verificación',
+  'twoFactor.recoveryWarning':
+    '{count, plural, =0 {Has usado tu último código de recuperación.} one {Solo te queda # código de recuperación.} other {Solo te quedan # códigos de recuperación.}} Vuelve a configurar tu aplicación de autenticación para obtener códigos nuevos.',
+  'twoFactor.continue': 'Continuar',
+  'twoFactor.recoveryCode': 'Código de recuperación',
+  'twoFactor.sendCode': '{cooldown, plural, =0 {Enviar código} other {Enviar código en # s}}',
+  'twoFactor.resendCode': '{cooldown, plural, =0 {Reenviar código} other {Reenviar código en # s}}',
+  'twoFactor.submit': 'Verificar código',
+  'twoFactor.trustDevice': 'Confiar en este dispositivo durante 30 días',
+  'twoFactor.useAuthenticator': 'Usar tu aplicación de autenticación',
+  'twoFactor.useRecoveryCode': 'Usar un código de recuperación',
+  'twoFactor.success': '¡Verificación completada!',
+  'twoFactor.expiresIn': 'Tiempo para verificar: {time}',
+  'twoFactor.expiringSoon': 'Queda menos de un minuto. Después tendrás que volver a iniciar sesión.',
+
+  'otp.label': 'Código de verificación',
+  'otp.character': 'Carácter {index} de {length}',
+
+  'enroll.title': 'Configura la autenticación en dos pasos',
+  'enroll.description':
+    'Escanea el código QR con Google Authenticator u otra aplicación de autenticación para proteger <strong>{email}</strong>',
+  'enroll.manualKey': '¿No puedes escanearlo? Introduce esta clave manualmente:',
+  'enroll.code': 'Introduce el código de 6 dígitos de la aplicación',
+  'enroll.submit': 'Verificar y activar',
+  'enroll.recoveryTitle': 'Guarda tus códigos de recuperación',
+  'enroll.recoveryDescription':
+    'Cada código sirve una vez para iniciar sesión si pierdes el acceso a tu aplicación de autenticación. Guárdalos en un lugar seguro: no se volverán a mostrar.',
+  'enroll.download': 'Descargar códigos',
+  'enroll.saved': 'He guardado mis códigos',
+  'enroll.fileTitle': 'Códigos de recuperación de {email}',
+  'enroll.fileDescription':
+    'Cada código sirve una vez para iniciar sesión si pierdes el acceso a tu aplicación de autenticación.',
+
+  'signUp.title': 'Crea tu cuenta',
+  'signUp.confirmPassword': 'Confirmar contraseña',
+  'signUp.submit': 'Crear cuenta',
+  'signUp.submitting': 'Creando la cuenta...',
+  'signUp.signInPrompt': '¿Ya tienes una cuenta? <link>Inicia sesión</link>',
+
+  'passwordStrength.label': 'Seguridad de la contraseña: <strong>{level}</strong>',
+  'passwordStrength.score0': 'Demasiado débil',
+  'passwordStrength.score1': 'Débil',
+  'passwordStrength.score2': 'Aceptable',
+  'passwordStrength.score3': 'Buena',
+  'passwordStrength.score4': 'Fuerte',
+  'passwordStrength.warningCommon': 'Es una de las contraseñas más habituales.',
+  'passwordStrength.warningShort': 'Usa al menos {minLength} caracteres.',
+  'passwordStrength.warningPersonal': 'Evita usar tu nombre o tu correo electrónico.',
+  'passwordStrength.warningPattern':
+    'Las repeticiones como "aaa" y las secuencias como "abc" o "123" son fáciles de adivinar.',
+  'passwordStrength.suggestLength': 'Usa 12 caracteres o más: unas cuantas palabras sin relación funcionan bien.',
+  'passwordStrength.suggestMixedCase': 'Combina mayúsculas y minúsculas.',
+  'passwordStrength.suggestDigit': 'Añade un número.',
+  'passwordStrength.suggestSymbol': 'Añade un símbolo como ! o #.',
+
+  'verifyEmail.title': 'Revisa tu correo',
+  'verifyEmail.description':
+    'Hemos enviado un código de 6 dígitos a tu correo electrónico. Introdúcelo a continuación o abre el enlace del correo.',
+  'verifyEmail.descriptionTo':
+    'Hemos enviado un código de 6 dígitos a <strong>{destination}</strong>. Introdúcelo a continuación o abre el enlace del correo.',
+  'verifyEmail.code': 'Código de verificación',
+  'verifyEmail.submit': 'Verificar correo electrónico',
+  'verifyEmail.resend': '{cooldown, plural, =0 {Reenviar correo} other {Reenviar correo en # s}}',
+
+  'forgotPassword.title': 'Restablece tu contraseña',
+  'forgotPassword.description':
+    'Introduce el correo electrónico con el que inicias sesión y te enviaremos un enlace para elegir una contraseña nueva.',
+  'forgotPassword.submit': 'Enviar enlace',
+  'forgotPassword.submitting': 'Enviando enlace...',
+  'forgotPassword.signInPrompt': '¿Ya la recuerdas? <link>Volver a iniciar sesión</link>',
+  'forgotPassword.sentTitle': 'Revisa tu correo',
+  'forgotPassword.sentDescription':
+    'Si existe una cuenta para <strong>{email}</strong>, te hemos enviado un enlace para restablecer tu contraseña. {minutes, plural, one {El enlace caduca en # minuto.} other {El enlace caduca en # minutos.}}',
+  'forgotPassword.tryAgain': 'Usar otro correo electrónico o enviar otro enlace',
+
+  'resetPassword.title': 'Elige una contraseña nueva',
+  'resetPassword.description':
+    'Se cerrarán todas tus sesiones y la próxima vez que inicies sesión te pediremos tu código de verificación.',
+  'resetPassword.password': 'Contraseña nueva',
+  'resetPassword.confirmPassword': 'Confirmar contraseña nueva',
+  'resetPassword.requestNewLink': 'Solicitar un enlace nuevo',
+  'resetPassword.submit': 'Guardar contraseña nueva',
+  'resetPassword.submitting': 'Guardando la contraseña...',
+
+  'passkeyPrompt.title': 'Inicia sesión más rápido la próxima vez',
+  'passkeyPrompt.description':
+    'Crea una llave de acceso para iniciar sesión con tu huella, tu cara o el bloqueo de pantalla en lugar de una contraseña y un código.',
+  'passkeyPrompt.submit': 'Crear una llave de acceso',
+  'passkeyPrompt.success': 'Llave de acceso creada. La próxima vez, elige "Iniciar sesión con una llave de acceso".',
+
+  'account.title': '¡Te damos la bienvenida!',
+  'account.signedInAs': 'Has iniciado sesión como <strong>{email}</strong>.',
+  'account.signOut': 'Cerrar sesión',
+  'account.signingOut': 'Cerrando sesión...',
+
+  // Trusted devices
+  'trustedDevices.title': 'Dispositivos de confianza',
+  'trustedDevices.description':
+    'Estos dispositivos inician sesión sin código de verificación. Si restableces tu contraseña, se eliminan todos.',
+  'trustedDevices.loading': 'Cargando dispositivos...',
+  'trustedDevices.empty':
+    'No hay dispositivos de confianza. Elige "Confiar en este dispositivo" al introducir un código de verificación para añadir uno.',
+  'trustedDevices.current': 'Este dispositivo',
+  'trustedDevices.details': 'Último uso: {lastUsed} · De confianza hasta el {expiresAt}',
+  'trustedDevices.revoke': 'Quitar',
+  'trustedDevices.revokeLabel': 'Quitar {name}',
+  'trustedDevices.revoked': 'Se quitó {name}. La próxima vez pedirá un código de verificación.',
+
+  // Step-up re-authentication
+  'stepUp.title': 'Confirma tu identidad',
+  'stepUp.description.password': 'Introduce tu contraseña para continuar.',
+  'stepUp.description.totp':
+    'Introduce el código de 6 dígitos de tu aplicación de autenticación para continuar.',
+  'stepUp.usePassword': 'Usar mi contraseña',
+  'stepUp.useAuthenticator': 'Usar mi aplicación de autenticación',
+  'stepUp.submit': 'Confirmar',
+  'stepUp.submitting': 'Confirmando...',
+  'stepUp.cancel': 'Cancelar',
+
+  // Recovery codes
+  'recoveryCodes.title': 'Códigos de recuperación',
+  'recoveryCodes.description':
+    'Cada código de recuperación te permite iniciar sesión una vez si pierdes el acceso a tu aplicación de autenticación.',
+  'recoveryCodes.generate': 'Generar nuevos códigos de recuperación',
+  'recoveryCodes.generating': 'Generando...',
+  'recoveryCodes.generated':
+    'Guarda estos códigos en un lugar seguro. Tus códigos anteriores ya no funcionan.',
+};
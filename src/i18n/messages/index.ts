@@ -0,0 +1,10 @@
+import type { Locale } from '../locales';
+import { ar } from './ar';
+import { en, type Messages } from './en';
+import { es } from './es';
+
+export type { MessageId, Messages } from './en';
+
+export const MESSAGES: Record<Locale, Messages> = { en, es, ar };
+
+export const isMessageId = (id: string): id is keyof Messages => Object.hasOwn(en, id);
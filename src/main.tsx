@@ -1,8 +1,14 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { configureTokenStorage } from './api/auth';
+import { isTokenStorageMode } from './api/tokenStore';
 import './index.css';
 
+// Token storage mode (memory | sessionStorage | localStorage | cookie), localStorage by default
+const tokenStorageMode = import.meta.env.VITE_TOKEN_STORAGE;
+configureTokenStorage(isTokenStorageMode(tokenStorageMode) ? tokenStorageMode : 'localStorage');
+
 // Initialize MSW in development mode
 async function enableMocking() {
   if (import.meta.env.DEV) {
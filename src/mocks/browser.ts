@@ -1,5 +1,17 @@
 import { setupWorker } from 'msw/browser';
 import { handlers } from './handlers';
+import { logRequestEnd, logRequestStart } from './devScenarios';
 
 // Setup MSW worker for browser environment
 export const worker = setupWorker(...handlers);
+
+// Log API requests for the dev scenario panel
+worker.events.on('request:start', ({ request, requestId }) => {
+  if (new URL(request.url).pathname.startsWith('/api/')) {
+    logRequestStart(requestId, request);
+  }
+});
+
+worker.events.on('response:mocked', ({ response, requestId }) => {
+  logRequestEnd(requestId, response);
+});
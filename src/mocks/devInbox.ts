@@ -0,0 +1,43 @@
+// In-app inbox for SMS/email messages "delivered" by the mock backend.
+// Components subscribe with useSyncExternalStore.
+
+export interface DevInboxMessage {
+  id: number;
+  channel: 'sms' | 'email';
+  to: string;
+  body: string;
+  // Link included in the message, e.g. an email verification URL
+  link?: string;
+  sentAt: number;
+}
+
+type Listener = () => void;
+
+let messages: DevInboxMessage[] = [];
+let nextId = 1;
+const listeners = new Set<Listener>();
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+};
+
+// Record a delivered message (newest first)
+export const deliverToDevInbox = (message: Omit<DevInboxMessage, 'id' | 'sentAt'>): void => {
+  messages = [{ ...message, id: nextId++, sentAt: Date.now() }, ...messages];
+  console.info(`[MSW] ${message.channel} to ${message.to}: ${message.body}`);
+  notify();
+};
+
+export const getDevInboxMessages = (): DevInboxMessage[] => messages;
+
+export const clearDevInbox = (): void => {
+  messages = [];
+  notify();
+};
+
+export const subscribeToDevInbox = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
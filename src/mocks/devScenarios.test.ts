@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { login, revokeTrustedDevice, verify2FA } from '../api/auth';
+import type { ApiClientError } from '../api/errors';
+import { TEST_USERS } from './handlers';
+import { getDevScenarioState, resetScenarios, setEndpointScenario, type EndpointScenario } from './devScenarios';
+
+const LOGIN = 'POST /api/auth/login';
+const WRONG_PASSWORD = { email: TEST_USERS.valid.email, password: 'wrongpassword' };
+
+const scenario = (changes: Partial<EndpointScenario>): EndpointScenario => ({
+  response: 'default',
+  latency: 0,
+  once: false,
+  ...changes,
+});
+
+const loginError = (credentials = WRONG_PASSWORD) =>
+  login(credentials).catch((reason: ApiClientError) => reason);
+
+afterEach(() => {
+  resetScenarios();
+  vi.useRealTimers();
+});
+
+describe('dev scenarios', () => {
+  it('lists the mock endpoints', () => {
+    const login = getDevScenarioState().endpoints.find(({ key }) => key === LOGIN);
+
+    expect(login).toEqual({ key: LOGIN, method: 'POST', path: '/api/auth/login', supportsSuccess: true });
+  });
+
+  it.each([
+    ['unauthorized', 401, 'unauthorized'],
+    ['notFound', 404, 'user_not_found'],
+    ['serverError', 500, 'server_error'],
+    ['networkError', 0, 'network_error'],
+  ] as const)('forces %s', async (response, status, code) => {
+    setEndpointScenario(LOGIN, scenario({ response }));
+
+    expect(await loginError()).toMatchObject({ status, code });
+  });
+
+  it('forces a timeout', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    setEndpointScenario(LOGIN, scenario({ response: 'timeout' }));
+
+    const pending = loginError();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(await pending).toMatchObject({ code: 'timeout_error' });
+  });
+
+  it('forces sign-in and 2FA to succeed', async () => {
+    setEndpointScenario(LOGIN, scenario({ response: 'success' }));
+    setEndpointScenario('POST /api/auth/verify-2fa', scenario({ response: 'success' }));
+
+    const response = await login(WRONG_PASSWORD);
+    expect(response).toMatchObject({ requires2FA: true, user: { email: TEST_USERS.valid.email } });
+
+    const tempToken = response.requires2FA ? response.tempToken : '';
+    const verified = await verify2FA({ tempToken, code: '000001' });
+    expect(verified.user.email).toBe(TEST_USERS.valid.email);
+  });
+
+  it('forces responses for routes with parameters', async () => {
+    setEndpointScenario('DELETE /api/auth/devices/:deviceId', scenario({ response: 'serverError' }));
+
+    const error = await revokeTrustedDevice('device-1').catch((reason: ApiClientError) => reason);
+    expect(error).toMatchObject({ status: 500, code: 'server_error' });
+  });
+
+  it('adds latency before the mock logic', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    setEndpointScenario(LOGIN, scenario({ latency: 5000 }));
+    let settled = false;
+
+    const pending = loginError().finally(() => {
+      settled = true;
+    });
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await pending).toMatchObject({ code: 'invalid_credentials' });
+  });
+
+  it('uses up one-off scenarios', async () => {
+    setEndpointScenario(LOGIN, scenario({ response: 'serverError', once: true }));
+
+    expect(await loginError()).toMatchObject({ code: 'server_error' });
+    expect(await loginError({ email: TEST_USERS.notFound.email, password: 'any' })).toMatchObject({
+      code: 'user_not_found',
+    });
+    expect(getDevScenarioState().scenarios).toEqual({});
+  });
+
+  it('remembers choices across reloads', () => {
+    setEndpointScenario(LOGIN, scenario({ response: 'serverError' }));
+
+    expect(JSON.parse(localStorage.getItem('mock_scenarios')!)).toEqual({ [LOGIN]: scenario({ response: 'serverError' }) });
+
+    setEndpointScenario(LOGIN, null);
+    expect(localStorage.getItem('mock_scenarios')).toBeNull();
+  });
+});
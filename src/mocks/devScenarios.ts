@@ -0,0 +1,155 @@
+// Forced responses for the mock backend, picked per endpoint in the dev scenario
+// panel, and a log of the requests it intercepted. Components subscribe with
+// useSyncExternalStore.
+
+// What the next request to an endpoint gets - 'default' runs the mock's own logic
+export type ScenarioResponse =
+  | 'default'
+  | 'success'
+  | 'unauthorized'
+  | 'notFound'
+  | 'serverError'
+  | 'networkError'
+  | 'timeout';
+
+export interface EndpointScenario {
+  response: ScenarioResponse;
+  // Extra milliseconds before responding
+  latency: number;
+  // Go back to the mock's own logic after one request
+  once: boolean;
+}
+
+export interface MockEndpoint {
+  // e.g. "POST /api/auth/login"
+  key: string;
+  method: string;
+  path: string;
+  // Whether 'success' can be forced - otherwise it runs the mock's own logic
+  supportsSuccess: boolean;
+}
+
+export interface RequestLogEntry {
+  id: string;
+  method: string;
+  path: string;
+  startedAt: number;
+  // HTTP status, 0 for a network error, undefined while pending
+  status?: number;
+  duration?: number;
+  // Forced response, if the request got one
+  scenario?: ScenarioResponse;
+}
+
+export interface DevScenarioState {
+  endpoints: MockEndpoint[];
+  scenarios: Partial<Record<string, EndpointScenario>>;
+  log: RequestLogEntry[];
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'mock_scenarios';
+const MAX_LOG_ENTRIES = 50;
+
+export const endpointKey = (method: string, path: string): string => `${method.toUpperCase()} ${path}`;
+
+// Choices survive reloads so a scenario can be set up before the page that needs it
+const loadScenarios = (): DevScenarioState['scenarios'] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveScenarios = (scenarios: DevScenarioState['scenarios']) => {
+  if (Object.keys(scenarios).length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  }
+};
+
+let state: DevScenarioState = {
+  endpoints: [],
+  scenarios: typeof localStorage === 'undefined' ? {} : loadScenarios(),
+  log: [],
+};
+const listeners = new Set<Listener>();
+
+const update = (changes: Partial<DevScenarioState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+const updateScenarios = (scenarios: DevScenarioState['scenarios']) => {
+  saveScenarios(scenarios);
+  update({ scenarios });
+};
+
+export const getDevScenarioState = (): DevScenarioState => state;
+
+export const subscribeToDevScenarios = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Called by the handlers with the endpoints they serve
+export const registerMockEndpoints = (endpoints: MockEndpoint[]): void => {
+  update({ endpoints });
+};
+
+// Pass null to go back to the mock's own logic
+export const setEndpointScenario = (key: string, scenario: EndpointScenario | null): void => {
+  const scenarios = { ...state.scenarios };
+  if (!scenario || (scenario.response === 'default' && scenario.latency === 0)) {
+    delete scenarios[key];
+  } else {
+    scenarios[key] = scenario;
+  }
+  updateScenarios(scenarios);
+};
+
+export const resetScenarios = (): void => {
+  updateScenarios({});
+};
+
+// Scenario for a request to the endpoint; one-off scenarios are used up
+export const takeScenario = (key: string): EndpointScenario | undefined => {
+  const scenario = state.scenarios[key];
+  if (scenario?.once) {
+    setEndpointScenario(key, null);
+  }
+  return scenario;
+};
+
+export const logRequestStart = (id: string, request: Request): void => {
+  const { pathname } = new URL(request.url);
+  const entry: RequestLogEntry = { id, method: request.method, path: pathname, startedAt: Date.now() };
+  update({ log: [entry, ...state.log].slice(0, MAX_LOG_ENTRIES) });
+};
+
+const updateLogEntry = (id: string, changes: Partial<RequestLogEntry>) => {
+  if (!state.log.some((entry) => entry.id === id)) return;
+  update({ log: state.log.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)) });
+};
+
+export const logRequestScenario = (id: string, scenario: ScenarioResponse): void => {
+  updateLogEntry(id, { scenario });
+};
+
+export const logRequestEnd = (id: string, response: Response): void => {
+  const entry = state.log.find((item) => item.id === id);
+  if (!entry) return;
+  // Response.error() is how the mock fails a request at the network level
+  const status = response.type === 'error' ? 0 : response.status;
+  updateLogEntry(id, { status, duration: Date.now() - entry.startedAt });
+};
+
+export const clearRequestLog = (): void => {
+  update({ log: [] });
+};
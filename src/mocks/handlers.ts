@@ -1,11 +1,76 @@
-import { http, HttpResponse, delay } from 'msw';
-import type { LoginCredentials, LoginResponse, ApiError, Verify2FACredentials, Verify2FAResponse } from '../api/types';
+import { http, HttpResponse, delay, matchRequestUrl } from 'msw';
+import type {
+  LoginCredentials,
+  DiscoverLoginRequest,
+  DiscoverLoginResponse,
+  SsoConnection,
+  LoginResponse,
+  ApiError,
+  ApiFieldErrors,
+  Verify2FACredentials,
+  Verify2FAResponse,
+  VerifyRecoveryCodeCredentials,
+  Send2FACodeRequest,
+  Send2FACodeResponse,
+  TwoFactorMethod,
+  PasskeyAuthenticationOptions,
+  PasskeyLoginRequest,
+  CompletedLoginResponse,
+  OidcLoginRequest,
+  PasskeyRegistrationOptions,
+  PasskeyRegistrationRequest,
+  PasskeyRegistrationResponse,
+  Start2FAEnrollmentRequest,
+  Start2FAEnrollmentResponse,
+  Confirm2FAEnrollmentCredentials,
+  Confirm2FAEnrollmentResponse,
+  AuthTokens,
+  RefreshTokenRequest,
+  CurrentUserResponse,
+  LogoutRequest,
+  RegisterRequest,
+  RegisterResponse,
+  VerifyEmailRequest,
+  VerifyEmailResponse,
+  ResendVerificationEmailRequest,
+  RequestPasswordResetRequest,
+  RequestPasswordResetResponse,
+  ResetPasswordRequest,
+  LocalChallengeResponse,
+  TrustedDevice,
+  TrustedDevicesResponse,
+  StepUpMethod,
+  StepUpRequest,
+  StepUpResponse,
+  RegenerateRecoveryCodesResponse,
+} from '../api/types';
+import { base64UrlDecode, base64UrlEncode } from '../api/webauthn';
+import { base32Encode, buildOtpauthUri, verifyTotp, type TotpAlgorithm } from './totp';
+import { deliverToDevInbox } from './devInbox';
+import { endpointKey, logRequestScenario, registerMockEndpoints, takeScenario, type ScenarioResponse } from './devScenarios';
+import { estimatePasswordStrength, MIN_PASSWORD_SCORE } from '../utils/passwordStrength';
+import { COSE_ALGORITHMS, verifyAuthentication, verifyRegistration, WebAuthnVerificationError } from './webauthn';
+import {
+  getMockIssuer,
+  identityProviderHandlers,
+  IdTokenVerificationError,
+  MOCK_IDP_CLIENT,
+  MOCK_IDP_PROVIDERS,
+  verifyMockIdToken,
+} from './identityProvider';
 
 // Test credentials for different scenarios
 const TEST_USERS = {
   valid: {
+    id: 1,
     email: 'test@example.com',
     password: 'password123',
+    phone: '+15551234567',
+    totp: {
+      secret: 'JBSWY3DPEHPK3PXP',
+      algorithm: 'SHA-1' as TotpAlgorithm,
+    },
+    recoveryCodes: ['abcd-efgh-ijkl', 'mnop-qrst-uvwx', 'yz12-3456-7890'],
   },
   notFound: {
     email: 'notfound@example.com',
@@ -14,8 +79,13 @@ const TEST_USERS = {
     email: 'error@example.com',
   },
   slowResponse: {
+    id: 2,
     email: 'slow@example.com',
     password: 'password123',
+    totp: {
+      secret: 'KRUGKIDROVUWG2ZAMJZG653OEBTG66BA',
+      algorithm: 'SHA-256' as TotpAlgorithm,
+    },
   },
   timeout: {
     email: 'timeout@example.com',
@@ -23,37 +93,895 @@ const TEST_USERS = {
   offline: {
     email: 'offline@example.com',
   },
+  enrollment: {
+    id: 3,
+    email: 'new@example.com',
+    password: 'password123',
+  },
+  // acme.test requires single sign-on - the password is refused
+  sso: {
+    id: 4,
+    email: 'alex@acme.test',
+    password: 'password123',
+  },
 };
 
-// Test 2FA codes for different scenarios
+// Magic 2FA codes for scenarios a real authenticator can't produce.
+// Only honoured when MOCK_2FA_CONFIG.enableMagicCodes is on.
 const TEST_2FA_CODES = {
-  valid: '123456',
   expired: '000000',
   timeout: '999999',
 };
 
+// TOTP verification settings (RFC 6238)
+const MOCK_2FA_CONFIG = {
+  // Time step in seconds
+  period: 30,
+  digits: 6,
+  // Accepted clock drift in time steps on either side of the current one
+  window: 1,
+  // Seconds a temp token (2FA session) stays valid after the password step
+  sessionTtl: 5 * 60,
+  // Accept TEST_2FA_CODES in addition to real TOTP codes.
+  // Off unless VITE_MOCK_2FA_MAGIC_CODES=true; tests may flip it directly.
+  enableMagicCodes: import.meta.env.VITE_MOCK_2FA_MAGIC_CODES === 'true',
+};
+
+// SMS/email code delivery settings
+const MOCK_OTP_DELIVERY_CONFIG = {
+  // Seconds a delivered code stays valid
+  codeTtl: 5 * 60,
+  // Seconds between code requests for the same method
+  resendCooldown: 30,
+  // Codes that may be requested per method within one 2FA session
+  maxSends: 5,
+};
+
+// Session token lifetimes - short so silent refresh is easy to observe
+const MOCK_SESSION_CONFIG = {
+  // Seconds an access token stays valid
+  accessTokenTtl: 30,
+  // Seconds a refresh token stays valid
+  refreshTokenTtl: 10 * 60,
+};
+
+// Sign-up email verification settings
+const MOCK_EMAIL_VERIFICATION_CONFIG = {
+  // Seconds a verification code stays valid
+  codeTtl: 15 * 60,
+  // Seconds between verification emails
+  resendCooldown: 30,
+};
+
+// Password reset link settings
+const MOCK_PASSWORD_RESET_CONFIG = {
+  // Seconds a reset link stays valid
+  tokenTtl: 15 * 60,
+};
+
+// Brute-force protection for password, 2FA code and recovery code attempts
+const MOCK_BRUTE_FORCE_CONFIG = {
+  // Failed attempts after which every attempt needs a challenge token
+  challengeAfter: 3,
+  // Failed attempts in a row before attempts are paused (429 too_many_attempts)
+  maxAttempts: 5,
+  // Seconds attempts stay paused
+  throttleSeconds: 30,
+  // Failed attempts in total before the account is locked (423 account_locked)
+  lockoutThreshold: 10,
+  // Seconds the account stays locked
+  lockoutSeconds: 15 * 60,
+  // Seconds a local challenge token stays valid
+  challengeTokenTtl: 2 * 60,
+};
+
+// How each email domain signs in, answered by /api/auth/discover. Domains not
+// listed here use a password.
+type DomainLoginPolicy =
+  | { method: 'passkey' }
+  | { method: 'sso'; protocol: 'oidc'; provider: string }
+  | { method: 'sso'; protocol: 'saml'; name: string; ssoUrl: string };
+
+const MOCK_DOMAIN_LOGIN_POLICIES: Record<string, DomainLoginPolicy> = {
+  'acme.test': { method: 'sso', protocol: 'oidc', provider: 'okta' },
+  'contoso.test': { method: 'sso', protocol: 'oidc', provider: 'microsoft' },
+  // No mock SAML identity provider - the redirect leaves the app
+  'initech.test': { method: 'sso', protocol: 'saml', name: 'Initech SSO', ssoUrl: 'https://sso.initech.test/saml2/idp/SSOService' },
+  'passkey.test': { method: 'passkey' },
+};
+
+// Identifier-first sign-in settings
+const MOCK_DISCOVERY_CONFIG = {
+  // Seconds the password step may take after the email step
+  tokenTtl: 10 * 60,
+};
+
+// "Trust this device" on the 2FA step
+const MOCK_TRUSTED_DEVICE_CONFIG = {
+  // Days a trusted device skips 2FA - tests may make it negative to issue expired tokens
+  ttlDays: 30,
+};
+
+// Step-up re-authentication before sensitive requests
+const MOCK_STEP_UP_CONFIG = {
+  // Seconds a step-up token is accepted
+  tokenTtl: 5 * 60,
+};
+
+// Server-side field validation (422 validation_failed)
+const MOCK_VALIDATION_CONFIG = {
+  // Email domains refused on sign-in and sign-up
+  disposableEmailDomains: ['mailinator.com', 'guerrillamail.com', '10minutemail.com', 'tempmail.com', 'yopmail.com'],
+  // Longest password accepted
+  maxPasswordLength: 128,
+};
+
+// Issuer shown in authenticator apps
+const TOTP_ISSUER = 'Entry-form';
+
+// Number of one-time recovery codes issued on enrollment
+const RECOVERY_CODE_COUNT = 10;
+
+// Accounts that can complete sign-in
+type Account = { id: number; email: string; password: string; phone?: string };
+
+const ACCOUNTS: Account[] = [
+  TEST_USERS.valid,
+  TEST_USERS.slowResponse,
+  TEST_USERS.enrollment,
+  TEST_USERS.sso,
+];
+
+// Emails match whatever their case or surrounding spaces; accounts store them normalized
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const findAccount = (email: string) => ACCOUNTS.find((account) => account.email === normalizeEmail(email));
+
+// Sign-ups waiting for email verification, keyed by verification id
+const pendingRegistrationStore = new Map<
+  string,
+  { email: string; password: string; code: string; expiresAt: number; sentAt: number }
+>();
+
+// Password reset tokens - single-use, only the newest one per email is valid
+const passwordResetTokenStore = new Map<string, { email: string; expiresAt: number }>();
+
+// Accounts that must pass 2FA on their next sign-in, even with a passkey
+// (set after a password reset)
+const forcedTwoFactorStore = new Set<string>();
+
+// Failed attempts keyed by `login:<email>`, `2fa:<email>`, `step-up:<email>`
+// or `verify-email:<email>`
+const failedAttemptStore = new Map<string, { failures: number; blockedUntil: number }>();
+
+// Discovery tokens from the email step, keyed by token
+const discoveryTokenStore = new Map<string, { email: string; expiresAt: number }>();
+
+// Locked accounts - email to the time (ms) the lock ends
+const accountLockStore = new Map<string, number>();
+
+// Unused local challenge tokens with their expiry time (ms)
+const challengeTokenStore = new Map<string, number>();
+
+// Enrolled authenticators keyed by email (simulating server-side storage)
+const totpEnrollmentStore = new Map<string, { secret: string; algorithm: TotpAlgorithm }>([
+  [TEST_USERS.valid.email, TEST_USERS.valid.totp],
+  [TEST_USERS.slowResponse.email, TEST_USERS.slowResponse.totp],
+]);
+
+// Unused recovery codes keyed by email
+const recoveryCodeStore = new Map<string, string[]>([
+  [TEST_USERS.valid.email, [...TEST_USERS.valid.recoveryCodes]],
+]);
+
+// Canonical recovery code form: lowercase with dashes every 4 characters
+const normalizeRecoveryCode = (code: string): string => {
+  const chars = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return chars.match(/.{1,4}/g)?.join('-') ?? '';
+};
+
 // Store for temporary tokens (simulating server-side session)
-const tempTokenStore = new Map<string, { email: string; createdAt: number }>();
+const tempTokenStore = new Map<
+  string,
+  {
+    email: string;
+    createdAt: number;
+    expiresAt: number;
+    // "Remember me" from the login request, applied when the session is issued
+    rememberMe?: boolean;
+    pendingTotpSecret?: string;
+    // Codes sent by SMS/email during this 2FA session
+    deliveredCodes?: Partial<
+      Record<Send2FACodeRequest['method'], { code: string; expiresAt: number; sentAt: number; sendCount: number }>
+    >;
+  }
+>();
+
+// Start a 2FA session after the password (or passkey) step
+const issueTempToken = (email: string, rememberMe?: boolean) => {
+  const tempToken = `temp-token-${Date.now()}`;
+  const createdAt = Date.now();
+  const expiresAt = createdAt + MOCK_2FA_CONFIG.sessionTtl * 1000;
+  tempTokenStore.set(tempToken, { email, createdAt, expiresAt, rememberMe });
+  return { tempToken, tempTokenExpiresAt: new Date(expiresAt).toISOString() };
+};
+
+// Live 2FA session for a temp token - expired ones are dropped
+const getTempToken = (tempToken: string) => {
+  const tokenData = tempTokenStore.get(tempToken);
+  if (tokenData && tokenData.expiresAt <= Date.now()) {
+    tempTokenStore.delete(tempToken);
+    return undefined;
+  }
+  return tokenData;
+};
+
+// Signed-in sessions keyed by access token
+const sessionStore = new Map<string, { email: string; expiresAt: number; refreshToken: string }>();
+
+// Refresh tokens - each one can be exchanged once
+const refreshTokenStore = new Map<string, { email: string; expiresAt: number; rememberMe: boolean }>();
+
+// httpOnly cookie carrying the access token when the client asks for cookie delivery
+const SESSION_COOKIE = 'auth_session';
+
+// Registered passkeys keyed by base64url credential id
+const passkeyStore = new Map<
+  string,
+  { email: string; publicKey: string; algorithm: number; signCount: number; createdAt: string }
+>();
+
+// Outstanding WebAuthn challenges keyed by challenge id
+const webauthnChallengeStore = new Map<
+  string,
+  { challenge: string; type: 'authentication' | 'registration'; email?: string; expiresAt: number }
+>();
+
+// Devices that skip 2FA keyed by device id. A device token is only honoured
+// while its device is listed here.
+const trustedDeviceStore = new Map<
+  string,
+  { email: string; name: string; createdAt: number; lastUsedAt: number; expiresAt: number }
+>();
+
+// Step-up tokens keyed by token. They belong to the account rather than one
+// access token, which the silent refresh replaces every 30 seconds.
+const stepUpTokenStore = new Map<string, { email: string; expiresAt: number }>();
+
+// WebAuthn ceremony timeout in milliseconds
+const WEBAUTHN_TIMEOUT = 60000;
+
+// Relying party name shown by the browser passkey UI
+const WEBAUTHN_RP_NAME = 'Entry-form';
+
+const randomToken = (prefix: string): string =>
+  `${prefix}-${base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)))}`;
+
+// Issue an access/refresh token pair for a fully authenticated user
+const issueSessionTokens = (email: string, rememberMe: boolean) => {
+  const accessToken = randomToken('fake-jwt-token');
+  const refreshToken = randomToken('fake-refresh-token');
+  sessionStore.set(accessToken, {
+    email,
+    expiresAt: Date.now() + MOCK_SESSION_CONFIG.accessTokenTtl * 1000,
+    refreshToken,
+  });
+  refreshTokenStore.set(refreshToken, {
+    email,
+    expiresAt: Date.now() + MOCK_SESSION_CONFIG.refreshTokenTtl * 1000,
+    rememberMe,
+  });
+  return { accessToken, refreshToken, expiresIn: MOCK_SESSION_CONFIG.accessTokenTtl };
+};
+
+// Start a session. Clients in cookie mode (X-Token-Delivery: cookie) get an httpOnly
+// cookie instead of tokens in the body; the server keeps the refresh token.
+const startSession = (request: Request, email: string, rememberMe = false) => {
+  const tokens = issueSessionTokens(email, rememberMe);
+  if (request.headers.get('X-Token-Delivery') !== 'cookie') {
+    return { tokens: tokens as AuthTokens, init: undefined };
+  }
+
+  // Remembered sessions survive a browser restart until the refresh token expires
+  const maxAge = rememberMe ? `; Max-Age=${MOCK_SESSION_CONFIG.refreshTokenTtl}` : '';
+  const cookie = `${SESSION_COOKIE}=${tokens.accessToken}; Path=/api; HttpOnly; SameSite=Strict${maxAge}`;
+  const body: AuthTokens = { expiresIn: tokens.expiresIn };
+  return { tokens: body, init: { headers: { 'Set-Cookie': cookie } } };
+};
+
+// Access token from the Authorization header, or the session cookie in cookie mode
+const getAccessToken = (request: Request, cookies: Record<string, string>): string | undefined => {
+  return request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? cookies[SESSION_COOKIE];
+};
+
+// Resolve the signed-in account for a request
+const getSession = (
+  request: Request,
+  cookies: Record<string, string>
+): { account: Account } | { error: ApiError } => {
+  const token = getAccessToken(request, cookies);
+  const session = token ? sessionStore.get(token) : undefined;
+  const account = session && findAccount(session.email);
+  if (!session || !account) {
+    return { error: { error: 'unauthorized', message: 'Please sign in first.' } };
+  }
+  if (session.expiresAt < Date.now()) {
+    return { error: { error: 'token_expired', message: 'Access token has expired.' } };
+  }
+  return { account };
+};
+
+// End every session and pending sign-in of an account
+const revokeSessions = (email: string) => {
+  for (const [accessToken, session] of sessionStore) {
+    if (session.email === email) sessionStore.delete(accessToken);
+  }
+  for (const [refreshToken, stored] of refreshTokenStore) {
+    if (stored.email === email) refreshTokenStore.delete(refreshToken);
+  }
+  for (const [tempToken, tokenData] of tempTokenStore) {
+    if (tokenData.email === email) tempTokenStore.delete(tempToken);
+  }
+  for (const [token, stored] of stepUpTokenStore) {
+    if (stored.email === email) stepUpTokenStore.delete(token);
+  }
+};
+
+// Forget every trusted device of an account - they must pass 2FA again
+const revokeTrustedDevices = (email: string) => {
+  for (const [deviceId, device] of trustedDeviceStore) {
+    if (device.email === email) trustedDeviceStore.delete(deviceId);
+  }
+};
+
+// "Firefox on Windows" from a User-Agent header
+const describeDevice = (userAgent: string | null): string => {
+  const agent = userAgent ?? '';
+  const browsers = [['Edg/', 'Edge'], ['Firefox/', 'Firefox'], ['Chrome/', 'Chrome'], ['Safari/', 'Safari']];
+  // iPhone and Android agents also mention macOS and Linux
+  const platforms = [
+    ['iPhone', 'iOS'],
+    ['iPad', 'iPadOS'],
+    ['Android', 'Android'],
+    ['Windows', 'Windows'],
+    ['Mac OS X', 'macOS'],
+    ['Linux', 'Linux'],
+  ];
+  const browser = browsers.find(([token]) => agent.includes(token))?.[1] ?? 'Unknown browser';
+  const platform = platforms.find(([token]) => agent.includes(token))?.[1] ?? 'unknown platform';
+  return `${browser} on ${platform}`;
+};
+
+// Device token contents - `exp` in ms like the other mock expiry times
+interface DeviceTokenPayload {
+  deviceId: string;
+  email: string;
+  exp: number;
+}
+
+let deviceTokenKey: Promise<CryptoKey> | undefined;
+
+// HMAC key device tokens are signed with, generated per page load
+const getDeviceTokenKey = (): Promise<CryptoKey> => {
+  deviceTokenKey ??= crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+  return deviceTokenKey;
+};
+
+// Trust the device a request comes from and sign its token:
+// base64url JSON payload, a dot, then the base64url HMAC-SHA256 of the payload
+const trustDevice = async (request: Request, email: string): Promise<string> => {
+  const deviceId = randomToken('device');
+  const now = Date.now();
+  const expiresAt = now + MOCK_TRUSTED_DEVICE_CONFIG.ttlDays * 24 * 60 * 60 * 1000;
+  trustedDeviceStore.set(deviceId, {
+    email,
+    name: describeDevice(request.headers.get('User-Agent')),
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt,
+  });
+
+  const payload: DeviceTokenPayload = { deviceId, email, exp: expiresAt };
+  const encoded = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getDeviceTokenKey(), new TextEncoder().encode(encoded));
+  return `${encoded}.${base64UrlEncode(signature)}`;
+};
+
+// Device id for a device token that is validly signed, unexpired, issued to
+// `email` and not revoked
+const verifyDeviceToken = async (token: string | null | undefined, email: string): Promise<string | undefined> => {
+  const [encoded, signature] = token?.split('.') ?? [];
+  if (!encoded || !signature) return undefined;
+
+  let payload: DeviceTokenPayload;
+  try {
+    const signed = new TextEncoder().encode(encoded);
+    if (!(await crypto.subtle.verify('HMAC', await getDeviceTokenKey(), base64UrlDecode(signature), signed))) {
+      return undefined;
+    }
+    payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encoded)));
+  } catch {
+    return undefined;
+  }
+
+  const device = trustedDeviceStore.get(payload.deviceId);
+  if (!device || device.email !== email || payload.email !== email) return undefined;
+  if (Math.min(payload.exp, device.expiresAt) <= Date.now()) {
+    trustedDeviceStore.delete(payload.deviceId);
+    return undefined;
+  }
+  return payload.deviceId;
+};
+
+// Finish a password sign-in without 2FA when it comes from a trusted device.
+// Returns nothing when the device isn't trusted.
+const signInTrustedDevice = async (request: Request, account: Account, credentials: LoginCredentials) => {
+  const deviceId = await verifyDeviceToken(credentials.deviceToken, account.email);
+  const device = deviceId && trustedDeviceStore.get(deviceId);
+  if (!device) return undefined;
+
+  device.lastUsedAt = Date.now();
+  const session = startSession(request, account.email, credentials.rememberMe);
+  const response: CompletedLoginResponse = {
+    ...session.tokens,
+    user: {
+      id: account.id,
+      email: account.email,
+    },
+    requires2FA: false,
+  };
+  return HttpResponse.json(response, session.init);
+};
+
+// Ways an account can confirm its identity - an authenticator code when enrolled
+const getStepUpMethods = (email: string): StepUpMethod[] => {
+  return totpEnrollmentStore.has(email) ? ['totp', 'password'] : ['password'];
+};
+
+// 403 step_up_required unless the request carries a live step-up token
+// (X-Step-Up-Token) for the account. Returns nothing when it does.
+const checkStepUp = (request: Request, email: string) => {
+  const token = request.headers.get('X-Step-Up-Token');
+  const stored = token ? stepUpTokenStore.get(token) : undefined;
+  if (stored && stored.email === email && stored.expiresAt > Date.now()) return undefined;
+
+  const errorResponse: ApiError = {
+    error: 'step_up_required',
+    message: 'Confirm your identity to continue.',
+    stepUpMethods: getStepUpMethods(email),
+  };
+  return HttpResponse.json(errorResponse, { status: 403 });
+};
+
+// Field checks only the server can make. Returns a 422 response when a field is invalid.
+const validateCredentials = (email: string, password: string) => {
+  const fields: ApiFieldErrors<'email' | 'password'> = {};
+  const domain = email.split('@').pop()?.toLowerCase() ?? '';
+  if (MOCK_VALIDATION_CONFIG.disposableEmailDomains.includes(domain)) {
+    fields.email = ['Disposable email addresses are not allowed. Please use a permanent address.'];
+  }
+  if (password.length > MOCK_VALIDATION_CONFIG.maxPasswordLength) {
+    fields.password = [`Password must be at most ${MOCK_VALIDATION_CONFIG.maxPasswordLength} characters.`];
+  }
+  if (Object.keys(fields).length === 0) return undefined;
+
+  const errorResponse: ApiError = {
+    error: 'validation_failed',
+    message: 'Some fields are invalid',
+    fields,
+  };
+  return HttpResponse.json(errorResponse, { status: 422 });
+};
+
+const getDomainLoginPolicy = (email: string): DomainLoginPolicy | undefined => {
+  const domain = email.split('@').pop()?.toLowerCase() ?? '';
+  return MOCK_DOMAIN_LOGIN_POLICIES[domain];
+};
+
+// Where the browser goes for an organization's single sign-on
+const getSsoConnection = (
+  policy: Extract<DomainLoginPolicy, { method: 'sso' }>,
+  origin: string,
+  returnTo: string | undefined
+): SsoConnection => {
+  if (policy.protocol === 'oidc') {
+    return {
+      protocol: 'oidc',
+      provider: {
+        id: policy.provider,
+        name: MOCK_IDP_PROVIDERS[policy.provider],
+        issuer: getMockIssuer(origin, policy.provider),
+        clientId: MOCK_IDP_CLIENT.clientId,
+      },
+    };
+  }
+  // A real service provider would add a signed AuthnRequest (SAMLRequest)
+  const redirectUrl = new URL(policy.ssoUrl);
+  if (returnTo) redirectUrl.searchParams.set('RelayState', returnTo);
+  return { protocol: 'saml', name: policy.name, redirectUrl: redirectUrl.href };
+};
+
+// 403 for a sign-in method the email's organization doesn't allow
+const ssoRequiredResponse = () => {
+  const errorResponse: ApiError = {
+    error: 'sso_required',
+    message: 'This organization signs in with single sign-on.',
+  };
+  return HttpResponse.json(errorResponse, { status: 403 });
+};
+
+// Take a challenge token out of the store - each one can be used once.
+// A real backend would verify the token with the CAPTCHA provider here.
+const consumeChallengeToken = (token: string | undefined): boolean => {
+  const expiresAt = token ? challengeTokenStore.get(token) : undefined;
+  if (token) challengeTokenStore.delete(token);
+  return expiresAt !== undefined && expiresAt > Date.now();
+};
+
+// Error response from the attempt limiter, with Retry-After when there is a wait
+const attemptLimitResponse = (error: ApiError, status: number) => {
+  const headers = error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : undefined;
+  return HttpResponse.json(error, { status, headers });
+};
+
+// Refuse an attempt while the account is locked, attempts are paused, or a
+// challenge is due and wasn't solved. Returns nothing when the attempt may go ahead.
+const checkAttemptLimit = (key: string, email: string, challengeToken: string | undefined) => {
+  const now = Date.now();
+  const lockedUntil = accountLockStore.get(email) ?? 0;
+  if (lockedUntil > now) {
+    return attemptLimitResponse(
+      {
+        error: 'account_locked',
+        message: 'Account is temporarily locked after too many failed attempts',
+        retryAfter: Math.ceil((lockedUntil - now) / 1000),
+      },
+      423
+    );
+  }
+
+  const attempts = failedAttemptStore.get(key);
+  if (!attempts) return undefined;
+
+  const challengeRequired = attempts.failures >= MOCK_BRUTE_FORCE_CONFIG.challengeAfter;
+  if (attempts.blockedUntil > now) {
+    return attemptLimitResponse(
+      {
+        error: 'too_many_attempts',
+        message: 'Too many failed attempts. Please wait before trying again.',
+        retryAfter: Math.ceil((attempts.blockedUntil - now) / 1000),
+        challengeRequired,
+      },
+      429
+    );
+  }
+  if (challengeRequired && !consumeChallengeToken(challengeToken)) {
+    return attemptLimitResponse(
+      {
+        error: 'challenge_required',
+        message: 'Complete the security check to continue',
+        challengeRequired,
+      },
+      400
+    );
+  }
+  return undefined;
+};
+
+// Count a failed attempt and build its error response. Every `maxAttempts` failures
+// pause attempts; reaching `lockoutThreshold` locks the account.
+const recordFailedAttempt = (key: string, email: string, error: ApiError, status: number) => {
+  const now = Date.now();
+  const failures = (failedAttemptStore.get(key)?.failures ?? 0) + 1;
+  const challengeRequired = failures >= MOCK_BRUTE_FORCE_CONFIG.challengeAfter;
+
+  if (failures >= MOCK_BRUTE_FORCE_CONFIG.lockoutThreshold) {
+    failedAttemptStore.delete(key);
+    accountLockStore.set(email, now + MOCK_BRUTE_FORCE_CONFIG.lockoutSeconds * 1000);
+    // Pending sign-ins end with the lock; existing sessions are left alone
+    for (const [tempToken, tokenData] of tempTokenStore) {
+      if (tokenData.email === email) tempTokenStore.delete(tempToken);
+    }
+    console.info(`[MSW] ${email} locked after ${failures} failed attempts`);
+    return attemptLimitResponse(
+      {
+        error: 'account_locked',
+        message: 'Account is temporarily locked after too many failed attempts',
+        retryAfter: MOCK_BRUTE_FORCE_CONFIG.lockoutSeconds,
+      },
+      423
+    );
+  }
+
+  if (failures % MOCK_BRUTE_FORCE_CONFIG.maxAttempts === 0) {
+    failedAttemptStore.set(key, { failures, blockedUntil: now + MOCK_BRUTE_FORCE_CONFIG.throttleSeconds * 1000 });
+    return attemptLimitResponse(
+      {
+        error: 'too_many_attempts',
+        message: 'Too many failed attempts. Please wait before trying again.',
+        retryAfter: MOCK_BRUTE_FORCE_CONFIG.throttleSeconds,
+        challengeRequired,
+      },
+      429
+    );
+  }
+
+  failedAttemptStore.set(key, { failures, blockedUntil: 0 });
+  const attemptsRemaining = Math.min(
+    MOCK_BRUTE_FORCE_CONFIG.maxAttempts - (failures % MOCK_BRUTE_FORCE_CONFIG.maxAttempts),
+    MOCK_BRUTE_FORCE_CONFIG.lockoutThreshold - failures
+  );
+  return attemptLimitResponse({ ...error, attemptsRemaining, challengeRequired }, status);
+};
+
+// Create and remember a WebAuthn challenge
+const createWebAuthnChallenge = (type: 'authentication' | 'registration', email?: string) => {
+  const challengeId = crypto.randomUUID();
+  const challenge = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  webauthnChallengeStore.set(challengeId, { challenge, type, email, expiresAt: Date.now() + WEBAUTHN_TIMEOUT });
+  return { challengeId, challenge };
+};
+
+// Take a challenge out of the store - each challenge can only be answered once
+const consumeWebAuthnChallenge = (challengeId: string, type: 'authentication' | 'registration') => {
+  const challenge = webauthnChallengeStore.get(challengeId);
+  webauthnChallengeStore.delete(challengeId);
+  if (!challenge || challenge.type !== type || challenge.expiresAt < Date.now()) {
+    return undefined;
+  }
+  return challenge;
+};
+
+// Methods the account can use for the 2FA step
+const getTwoFactorMethods = (email: string): TwoFactorMethod[] => {
+  // Accounts without an authenticator have to set one up - no code by SMS or email instead
+  if (!totpEnrollmentStore.has(email)) return [];
+
+  const account = findAccount(email);
+  const methods: TwoFactorMethod[] = ['totp'];
+  if (account?.phone) methods.push('sms');
+  methods.push('email');
+  return methods;
+};
+
+// e.g. +15551234567 -> +1 ••• ••• 4567
+const maskPhone = (phone: string): string => `${phone.slice(0, 2)} ••• ••• ${phone.slice(-4)}`;
+
+// e.g. test@example.com -> t•••@example.com
+const maskEmail = (email: string): string => {
+  const [local, domain] = email.split('@');
+  return `${local[0]}•••@${domain}`;
+};
+
+// Random 6-digit code for SMS/email delivery
+const generateDeliveryCode = (): string => {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return (value % 1_000_000).toString().padStart(6, '0');
+};
+
+// Email a fresh verification code and link for a pending sign-up
+const sendVerificationEmail = (verificationId: string, email: string, password: string) => {
+  const code = generateDeliveryCode();
+  const now = Date.now();
+  pendingRegistrationStore.set(verificationId, {
+    email,
+    password,
+    code,
+    expiresAt: now + MOCK_EMAIL_VERIFICATION_CONFIG.codeTtl * 1000,
+    sentAt: now,
+  });
+  deliverToDevInbox({
+    channel: 'email',
+    to: email,
+    body: `Your Entry-form verification code is ${code}. Or open the link below to confirm your email.`,
+    link: `/signup/verify?${new URLSearchParams({ id: verificationId, code })}`,
+  });
+};
+
+// Email a password reset link - replaces any earlier link for the account
+const sendPasswordResetEmail = (email: string) => {
+  for (const [token, stored] of passwordResetTokenStore) {
+    if (stored.email === email) passwordResetTokenStore.delete(token);
+  }
+  const token = randomToken('reset');
+  passwordResetTokenStore.set(token, {
+    email,
+    expiresAt: Date.now() + MOCK_PASSWORD_RESET_CONFIG.tokenTtl * 1000,
+  });
+  deliverToDevInbox({
+    channel: 'email',
+    to: email,
+    body: `Someone asked to reset your Entry-form password. Open the link below within ${MOCK_PASSWORD_RESET_CONFIG.tokenTtl / 60} minutes to choose a new one.`,
+    link: `/login/reset-password?${new URLSearchParams({ token })}`,
+  });
+};
+
+// Generate recovery codes in the `abcd-efgh-ijkl` format
+const generateRecoveryCodes = (): string[] => {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(12));
+    const chars = Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join('');
+    return chars.match(/.{4}/g)!.join('-');
+  });
+};
+
+// Finish the 2FA step whatever code was sent - for the scenario panel's "success"
+const forceTwoFactorSuccess = async (request: Request) => {
+  const { tempToken } = await request.json() as { tempToken: string };
+  const tokenData = getTempToken(tempToken);
+  const user = (tokenData && findAccount(tokenData.email)) ?? TEST_USERS.valid;
+  tempTokenStore.delete(tempToken);
+  const session = startSession(request, user.email, tokenData?.rememberMe);
+  const response: Verify2FAResponse = {
+    ...session.tokens,
+    user: {
+      id: user.id,
+      email: user.email,
+    },
+  };
+  return HttpResponse.json(response, session.init);
+};
+
+// Happy paths the scenario panel can force, whatever the request holds.
+// Other endpoints run their own logic for "success".
+const SCENARIO_SUCCESS: Partial<Record<string, (request: Request) => Promise<Response>>> = {
+  [endpointKey('POST', '/api/auth/login')]: async (request) => {
+    const { email, rememberMe } = await request.json() as LoginCredentials;
+    const account = findAccount(email) ?? TEST_USERS.valid;
+    const pending = issueTempToken(account.email, rememberMe);
+    const response: LoginResponse = {
+      user: {
+        id: account.id,
+        email: account.email,
+      },
+      requires2FA: true,
+      ...pending,
+      enrollmentRequired: !totpEnrollmentStore.has(account.email),
+      twoFactorMethods: getTwoFactorMethods(account.email),
+    };
+    return HttpResponse.json(response);
+  },
+  [endpointKey('POST', '/api/auth/verify-2fa')]: forceTwoFactorSuccess,
+  [endpointKey('POST', '/api/auth/verify-recovery')]: forceTwoFactorSuccess,
+};
+
+// Error responses the scenario panel can force
+const SCENARIO_ERRORS: Record<
+  Exclude<ScenarioResponse, 'default' | 'success' | 'networkError' | 'timeout'>,
+  { status: number; body: ApiError }
+> = {
+  unauthorized: { status: 401, body: { error: 'unauthorized', message: 'Unauthorized (dev scenario)' } },
+  notFound: { status: 404, body: { error: 'user_not_found', message: 'User does not exist (dev scenario)' } },
+  serverError: { status: 500, body: { error: 'server_error', message: 'Something went wrong (dev scenario)' } },
+};
+
+// Panel key of the endpoint a request is for. Routes with parameters
+// (/api/auth/devices/:deviceId) are matched by their pattern, not the request's path.
+const findEndpointKey = (request: Request): string | undefined => {
+  const url = new URL(request.url);
+  const endpoint = endpointHandlers.find(
+    ({ info }) =>
+      String(info.method) === request.method &&
+      typeof info.path !== 'function' &&
+      matchRequestUrl(url, info.path).matches
+  );
+  return endpoint && endpointKey(String(endpoint.info.method), String(endpoint.info.path));
+};
+
+// Runs before the endpoint handlers: answers with the response picked in the
+// scenario panel, or falls through to the endpoint's own logic
+const scenarioHandler = http.all('/api/*', async ({ request, requestId }) => {
+  const key = findEndpointKey(request);
+  const scenario = key ? takeScenario(key) : undefined;
+  if (!key || !scenario) return undefined;
+
+  logRequestScenario(requestId, scenario.response);
+  if (scenario.latency > 0) {
+    await delay(scenario.latency);
+  }
+
+  switch (scenario.response) {
+    case 'default':
+      return undefined;
+    case 'success':
+      return SCENARIO_SUCCESS[key]?.(request);
+    case 'networkError':
+      return HttpResponse.error();
+    case 'timeout':
+      // Never answer - the client gives up after its own timeout
+      await delay('infinite');
+      return undefined;
+    default: {
+      const { status, body } = SCENARIO_ERRORS[scenario.response];
+      return HttpResponse.json(body, { status });
+    }
+  }
+});
+
+const endpointHandlers = [
+  // Identifier-first sign-in: how an email address signs in. The answer depends
+  // only on the domain, so it doesn't reveal whether an account exists.
+  http.post('/api/auth/discover', async ({ request }) => {
+    const { returnTo, ...body } = await request.json() as DiscoverLoginRequest;
+    const email = normalizeEmail(body.email);
+
+    const invalid = validateCredentials(email, '');
+    if (invalid) {
+      await delay(300);
+      return invalid;
+    }
+
+    await delay(400);
+    const policy = getDomainLoginPolicy(email);
+    let response: DiscoverLoginResponse;
+    if (policy?.method === 'sso') {
+      response = { method: 'sso', connection: getSsoConnection(policy, new URL(request.url).origin, returnTo) };
+    } else {
+      const discoveryToken = randomToken('discovery');
+      discoveryTokenStore.set(discoveryToken, {
+        email,
+        expiresAt: Date.now() + MOCK_DISCOVERY_CONFIG.tokenTtl * 1000,
+      });
+      response = { method: policy?.method ?? 'password', discoveryToken };
+    }
+    return HttpResponse.json(response);
+  }),
 
-export const handlers = [
   // Login endpoint
   http.post('/api/auth/login', async ({ request }) => {
     const body = await request.json() as LoginCredentials;
-    const { email, password } = body;
+    const { password } = body;
+    const email = normalizeEmail(body.email);
+
+    // Malformed input isn't a failed attempt
+    const invalid = validateCredentials(email, password);
+    if (invalid) {
+      await delay(500);
+      return invalid;
+    }
+
+    // Organizations with single sign-on don't accept passwords
+    if (getDomainLoginPolicy(email)?.method === 'sso') {
+      await delay(500);
+      return ssoRequiredResponse();
+    }
+
+    // The email step must be recent and for the same address
+    if (body.discoveryToken !== undefined) {
+      const discovery = discoveryTokenStore.get(body.discoveryToken);
+      if (!discovery || discovery.email !== email || discovery.expiresAt <= Date.now()) {
+        await delay(300);
+        const errorResponse: ApiError = {
+          error: 'discovery_expired',
+          message: 'Start again with your email address.',
+        };
+        return HttpResponse.json(errorResponse, { status: 400 });
+      }
+    }
+
+    // Brute-force protection - checked before the password
+    const attemptKey = `login:${email}`;
+    const limited = checkAttemptLimit(attemptKey, email, body.challengeToken);
+    if (limited) {
+      await delay(500);
+      return limited;
+    }
 
     // Simulate slow response (3 seconds)
     if (email === TEST_USERS.slowResponse.email) {
       await delay(3000);
-      const tempToken = `temp-token-${Date.now()}`;
-      tempTokenStore.set(tempToken, { email, createdAt: Date.now() });
+      const trusted = await signInTrustedDevice(request, TEST_USERS.slowResponse, body);
+      if (trusted) return trusted;
+      const pending = issueTempToken(email, body.rememberMe);
       const response: LoginResponse = {
-        token: '',
         user: {
-          id: 2,
+          id: TEST_USERS.slowResponse.id,
           email: email,
         },
         requires2FA: true,
-        tempToken,
+        ...pending,
+        twoFactorMethods: getTwoFactorMethods(email),
       };
       return HttpResponse.json(response);
     }
@@ -90,28 +1018,83 @@ export const handlers = [
     }
 
     // Simulate invalid credentials (401)
-    if (email === TEST_USERS.valid.email && password !== TEST_USERS.valid.password) {
+    if (
+      (email === TEST_USERS.valid.email && password !== TEST_USERS.valid.password) ||
+      (email === TEST_USERS.enrollment.email && password !== TEST_USERS.enrollment.password)
+    ) {
       await delay(500);
       const errorResponse: ApiError = {
         error: 'invalid_credentials',
         message: 'Email or password is incorrect',
       };
-      return HttpResponse.json(errorResponse, { status: 401 });
+      return recordFailedAttempt(attemptKey, email, errorResponse, 401);
     }
 
     // Simulate successful login - requires 2FA
     if (email === TEST_USERS.valid.email && password === TEST_USERS.valid.password) {
       await delay(800);
-      const tempToken = `temp-token-${Date.now()}`;
-      tempTokenStore.set(tempToken, { email, createdAt: Date.now() });
+      failedAttemptStore.delete(attemptKey);
+      const trusted = await signInTrustedDevice(request, TEST_USERS.valid, body);
+      if (trusted) return trusted;
+      const pending = issueTempToken(email, body.rememberMe);
+      const response: LoginResponse = {
+        user: {
+          id: TEST_USERS.valid.id,
+          email: email,
+        },
+        requires2FA: true,
+        ...pending,
+        twoFactorMethods: getTwoFactorMethods(email),
+      };
+      return HttpResponse.json(response);
+    }
+
+    // Simulate successful login for a user without an authenticator - requires enrollment
+    if (email === TEST_USERS.enrollment.email && password === TEST_USERS.enrollment.password) {
+      await delay(800);
+      failedAttemptStore.delete(attemptKey);
+      const trusted = await signInTrustedDevice(request, TEST_USERS.enrollment, body);
+      if (trusted) return trusted;
+      const pending = issueTempToken(email, body.rememberMe);
       const response: LoginResponse = {
-        token: '',
         user: {
-          id: 1,
+          id: TEST_USERS.enrollment.id,
           email: email,
         },
         requires2FA: true,
-        tempToken,
+        ...pending,
+        // Once enrolled, the user goes through regular 2FA verification
+        enrollmentRequired: !totpEnrollmentStore.has(email),
+        twoFactorMethods: getTwoFactorMethods(email),
+      };
+      return HttpResponse.json(response);
+    }
+
+    // Accounts created through sign-up - authenticator setup on first sign-in
+    const account = findAccount(email);
+    if (account) {
+      await delay(800);
+      if (password !== account.password) {
+        const errorResponse: ApiError = {
+          error: 'invalid_credentials',
+          message: 'Email or password is incorrect',
+        };
+        return recordFailedAttempt(attemptKey, email, errorResponse, 401);
+      }
+      failedAttemptStore.delete(attemptKey);
+
+      const trusted = await signInTrustedDevice(request, account, body);
+      if (trusted) return trusted;
+      const pending = issueTempToken(email, body.rememberMe);
+      const response: LoginResponse = {
+        user: {
+          id: account.id,
+          email,
+        },
+        requires2FA: true,
+        ...pending,
+        enrollmentRequired: !totpEnrollmentStore.has(email),
+        twoFactorMethods: getTwoFactorMethods(email),
       };
       return HttpResponse.json(response);
     }
@@ -125,61 +1108,1023 @@ export const handlers = [
     return HttpResponse.json(errorResponse, { status: 404 });
   }),
 
-  // 2FA verification endpoint
-  http.post('/api/auth/verify-2fa', async ({ request }) => {
-    const body = await request.json() as Verify2FACredentials;
-    const { tempToken, code } = body;
+  // Sign-up: create a pending account and email a verification code
+  http.post('/api/auth/register', async ({ request }) => {
+    const body = await request.json() as RegisterRequest;
+    const email = normalizeEmail(body.email);
 
-    // Simulate timeout for specific code
-    if (code === TEST_2FA_CODES.timeout) {
-      await delay(30000);
-      return HttpResponse.json({ message: 'This should timeout' });
+    const invalid = validateCredentials(email, body.password);
+    if (invalid) {
+      await delay(500);
+      return invalid;
     }
 
-    // Check if temp token exists
-    const tokenData = tempTokenStore.get(tempToken);
-    if (!tokenData) {
+    if (findAccount(email)) {
       await delay(500);
       const errorResponse: ApiError = {
-        error: '2fa_expired',
-        message: '2FA session has expired. Please login again.',
+        error: 'email_taken',
+        message: 'An account with this email already exists',
       };
-      return HttpResponse.json(errorResponse, { status: 401 });
+      return HttpResponse.json(errorResponse, { status: 409 });
     }
 
-    // Simulate expired 2FA code
-    if (code === TEST_2FA_CODES.expired) {
+    // Same rules as the client-side strength meter
+    if (estimatePasswordStrength(body.password, [email]).score < MIN_PASSWORD_SCORE) {
       await delay(500);
       const errorResponse: ApiError = {
-        error: '2fa_expired',
-        message: '2FA code has expired. Please request a new code.',
+        error: 'weak_password',
+        message: 'Password is too weak',
       };
-      return HttpResponse.json(errorResponse, { status: 401 });
+      return HttpResponse.json(errorResponse, { status: 400 });
     }
 
-    // Simulate invalid 2FA code
-    if (code !== TEST_2FA_CODES.valid) {
+    await delay(800);
+    const verificationId = crypto.randomUUID();
+    sendVerificationEmail(verificationId, email, body.password);
+    const response: RegisterResponse = {
+      verificationId,
+      maskedEmail: maskEmail(email),
+      resendAvailableIn: MOCK_EMAIL_VERIFICATION_CONFIG.resendCooldown,
+    };
+    return HttpResponse.json(response, { status: 201 });
+  }),
+
+  // Sign-up: confirm the emailed code and create the account
+  http.post('/api/auth/register/verify', async ({ request }) => {
+    const body = await request.json() as VerifyEmailRequest;
+    const pending = pendingRegistrationStore.get(body.verificationId);
+
+    if (!pending) {
       await delay(500);
       const errorResponse: ApiError = {
-        error: 'invalid_2fa_code',
-        message: 'Invalid verification code. Please try again.',
+        error: 'verification_expired',
+        message: 'Verification not found. Please sign up again.',
       };
-      return HttpResponse.json(errorResponse, { status: 401 });
+      return HttpResponse.json(errorResponse, { status: 410 });
+    }
+
+    // Keyed by email so signing up again doesn't reset the count
+    const attemptKey = `verify-email:${pending.email}`;
+    const limited = checkAttemptLimit(attemptKey, pending.email, body.challengeToken);
+    if (limited) {
+      await delay(500);
+      return limited;
+    }
+
+    if (pending.code !== body.code.trim()) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'invalid_verification_code',
+        message: 'Invalid verification code',
+      };
+      return recordFailedAttempt(attemptKey, pending.email, errorResponse, 400);
+    }
+    failedAttemptStore.delete(attemptKey);
+
+    if (pending.expiresAt < Date.now()) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'verification_expired',
+        message: 'Verification code has expired',
+      };
+      return HttpResponse.json(errorResponse, { status: 410 });
+    }
+
+    // Another sign-up for the same email may have been verified first
+    if (findAccount(pending.email)) {
+      pendingRegistrationStore.delete(body.verificationId);
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'email_taken',
+        message: 'An account with this email already exists',
+      };
+      return HttpResponse.json(errorResponse, { status: 409 });
     }
 
-    // Simulate successful 2FA verification
     await delay(800);
-    tempTokenStore.delete(tempToken);
-    const response: Verify2FAResponse = {
-      token: 'fake-jwt-token-after-2fa',
+    pendingRegistrationStore.delete(body.verificationId);
+    const account: Account = {
+      id: Math.max(...ACCOUNTS.map(({ id }) => id)) + 1,
+      email: pending.email,
+      password: pending.password,
+    };
+    ACCOUNTS.push(account);
+    console.info(`[MSW] Account created for ${account.email}`);
+    const response: VerifyEmailResponse = {
       user: {
-        id: 1,
-        email: tokenData.email,
+        id: account.id,
+        email: account.email,
       },
     };
     return HttpResponse.json(response);
   }),
-];
 
-// Export test credentials for documentation
-export { TEST_USERS, TEST_2FA_CODES };
+  // Sign-up: send the verification email again
+  http.post('/api/auth/register/resend', async ({ request }) => {
+    const body = await request.json() as ResendVerificationEmailRequest;
+    const pending = pendingRegistrationStore.get(body.verificationId);
+
+    if (!pending) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'verification_expired',
+        message: 'Verification not found. Please sign up again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 410 });
+    }
+
+    const retryAt = pending.sentAt + MOCK_EMAIL_VERIFICATION_CONFIG.resendCooldown * 1000;
+    if (retryAt > Date.now()) {
+      const retryAfter = Math.ceil((retryAt - Date.now()) / 1000);
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'rate_limited',
+        message: 'Please wait before requesting another email',
+        retryAfter,
+      };
+      return HttpResponse.json(errorResponse, { status: 429, headers: { 'Retry-After': String(retryAfter) } });
+    }
+
+    await delay(500);
+    sendVerificationEmail(body.verificationId, pending.email, pending.password);
+    const response: RegisterResponse = {
+      verificationId: body.verificationId,
+      maskedEmail: maskEmail(pending.email),
+      resendAvailableIn: MOCK_EMAIL_VERIFICATION_CONFIG.resendCooldown,
+    };
+    return HttpResponse.json(response);
+  }),
+
+  // Local test challenge: a single-use token standing in for a CAPTCHA provider
+  http.post('/api/auth/challenge/local', async () => {
+    await delay(600);
+    const token = randomToken('challenge');
+    challengeTokenStore.set(token, Date.now() + MOCK_BRUTE_FORCE_CONFIG.challengeTokenTtl * 1000);
+    const response: LocalChallengeResponse = {
+      token,
+      expiresIn: MOCK_BRUTE_FORCE_CONFIG.challengeTokenTtl,
+    };
+    return HttpResponse.json(response);
+  }),
+
+  // Forgot password: email a reset link. The response never reveals whether the account exists.
+  http.post('/api/auth/password/forgot', async ({ request }) => {
+    const body = await request.json() as RequestPasswordResetRequest;
+    const account = findAccount(body.email);
+
+    await delay(800);
+    if (account) {
+      sendPasswordResetEmail(account.email);
+    } else {
+      console.info(`[MSW] Password reset requested for unknown email ${body.email}`);
+    }
+    const response: RequestPasswordResetResponse = {
+      expiresIn: MOCK_PASSWORD_RESET_CONFIG.tokenTtl,
+    };
+    return HttpResponse.json(response, { status: 202 });
+  }),
+
+  // Reset password: set a new password with the emailed token
+  http.post('/api/auth/password/reset', async ({ request }) => {
+    const body = await request.json() as ResetPasswordRequest;
+    const stored = passwordResetTokenStore.get(body.token);
+    const account = stored && findAccount(stored.email);
+
+    if (!stored || !account) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'reset_token_invalid',
+        message: 'Reset link is invalid or has already been used',
+      };
+      return HttpResponse.json(errorResponse, { status: 400 });
+    }
+
+    if (stored.expiresAt < Date.now()) {
+      passwordResetTokenStore.delete(body.token);
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'reset_token_expired',
+        message: 'Reset link has expired',
+      };
+      return HttpResponse.json(errorResponse, { status: 410 });
+    }
+
+    // Same rules as sign-up; the token stays usable for another try
+    if (estimatePasswordStrength(body.password, [account.email]).score < MIN_PASSWORD_SCORE) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'weak_password',
+        message: 'Password is too weak',
+      };
+      return HttpResponse.json(errorResponse, { status: 400 });
+    }
+
+    await delay(800);
+    passwordResetTokenStore.delete(body.token);
+    account.password = body.password;
+    revokeSessions(account.email);
+    revokeTrustedDevices(account.email);
+    forcedTwoFactorStore.add(account.email);
+    // A reset proves control of the mailbox - lift any lockout
+    accountLockStore.delete(account.email);
+    failedAttemptStore.delete(`login:${account.email}`);
+    console.info(`[MSW] Password reset for ${account.email} - all sessions and trusted devices revoked`);
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  // 2FA verification endpoint
+  http.post('/api/auth/verify-2fa', async ({ request }) => {
+    const body = await request.json() as Verify2FACredentials;
+    const { tempToken, code, method = 'totp' } = body;
+
+    // Simulate timeout for specific code
+    if (MOCK_2FA_CONFIG.enableMagicCodes && code === TEST_2FA_CODES.timeout) {
+      await delay(30000);
+      return HttpResponse.json({ message: 'This should timeout' });
+    }
+
+    // Check if temp token exists
+    const tokenData = getTempToken(tempToken);
+    const user = tokenData && findAccount(tokenData.email);
+    if (!tokenData || !user) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: '2fa_expired',
+        message: '2FA session has expired. Please login again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    // Enrollment can't be skipped by verifying some other way
+    if (!totpEnrollmentStore.has(user.email)) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'enrollment_required',
+        message: 'Set up an authenticator app to finish signing in.',
+      };
+      return HttpResponse.json(errorResponse, { status: 403 });
+    }
+
+    // Brute-force protection - counted per account, so signing in again for a
+    // fresh 2FA session doesn't reset the count
+    const attemptKey = `2fa:${user.email}`;
+    const limited = checkAttemptLimit(attemptKey, user.email, body.challengeToken);
+    if (limited) {
+      await delay(500);
+      return limited;
+    }
+
+    // Simulate an expired code - the 2FA session itself is still valid
+    if (MOCK_2FA_CONFIG.enableMagicCodes && code === TEST_2FA_CODES.expired) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'code_expired',
+        message: 'Verification code has expired. Please request a new code.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    if (method === 'sms' || method === 'email') {
+      // Validate the code against the one delivered by SMS/email
+      const deliveredCode = tokenData.deliveredCodes?.[method];
+      if (!deliveredCode || deliveredCode.code !== code) {
+        await delay(500);
+        const errorResponse: ApiError = {
+          error: 'invalid_2fa_code',
+          message: 'Invalid verification code. Please try again.',
+        };
+        return recordFailedAttempt(attemptKey, user.email, errorResponse, 401);
+      }
+      if (deliveredCode.expiresAt < Date.now()) {
+        await delay(500);
+        const errorResponse: ApiError = {
+          error: 'code_expired',
+          message: 'Verification code has expired. Please request a new code.',
+        };
+        return HttpResponse.json(errorResponse, { status: 401 });
+      }
+    } else {
+      // Validate the code against the user's TOTP secret
+      const enrollment = totpEnrollmentStore.get(user.email);
+      const drift = enrollment
+        ? await verifyTotp(enrollment.secret, code, {
+          algorithm: enrollment.algorithm,
+          digits: MOCK_2FA_CONFIG.digits,
+          period: MOCK_2FA_CONFIG.period,
+          window: MOCK_2FA_CONFIG.window,
+        })
+        : null;
+      if (drift === null) {
+        await delay(500);
+        const errorResponse: ApiError = {
+          error: 'invalid_2fa_code',
+          message: 'Invalid verification code. Please try again.',
+        };
+        return recordFailedAttempt(attemptKey, user.email, errorResponse, 401);
+      }
+      if (drift !== 0) {
+        console.info(`[MSW] TOTP accepted for ${user.email} with clock drift of ${drift} step(s)`);
+      }
+    }
+
+    // Simulate successful 2FA verification
+    await delay(800);
+    tempTokenStore.delete(tempToken);
+    failedAttemptStore.delete(attemptKey);
+    forcedTwoFactorStore.delete(user.email);
+    const session = startSession(request, user.email, tokenData.rememberMe);
+    const response: Verify2FAResponse = {
+      ...session.tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+      },
+      deviceToken: body.trustDevice ? await trustDevice(request, user.email) : undefined,
+    };
+    return HttpResponse.json(response, session.init);
+  }),
+
+  // Send a 2FA code by SMS or email
+  http.post('/api/auth/2fa/send', async ({ request }) => {
+    const body = await request.json() as Send2FACodeRequest;
+    const { tempToken, method } = body;
+
+    // Check if temp token exists
+    const tokenData = getTempToken(tempToken);
+    const user = tokenData && findAccount(tokenData.email);
+    if (!tokenData || !user) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: '2fa_expired',
+        message: '2FA session has expired. Please login again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    const destination = method === 'sms' && user.phone ? user.phone : user.email;
+    if (!getTwoFactorMethods(user.email).includes(method)) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'method_unavailable',
+        message: 'This verification method is not available for your account.',
+      };
+      return HttpResponse.json(errorResponse, { status: 400 });
+    }
+
+    // Enforce the resend cooldown and the send limit (lifted once the last code has expired)
+    const previous = tokenData.deliveredCodes?.[method];
+    const now = Date.now();
+    const cooldownEndsAt = previous ? previous.sentAt + MOCK_OTP_DELIVERY_CONFIG.resendCooldown * 1000 : 0;
+    const limitEndsAt = previous && previous.sendCount >= MOCK_OTP_DELIVERY_CONFIG.maxSends ? previous.expiresAt : 0;
+    const retryAt = Math.max(cooldownEndsAt, limitEndsAt);
+    if (retryAt > now) {
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'rate_limited',
+        message: 'Too many code requests. Please wait before trying again.',
+        retryAfter: Math.ceil((retryAt - now) / 1000),
+      };
+      return HttpResponse.json(errorResponse, {
+        status: 429,
+        headers: { 'Retry-After': String(errorResponse.retryAfter) },
+      });
+    }
+    const sendCount = limitEndsAt ? 1 : (previous?.sendCount ?? 0) + 1;
+
+    // Simulate delivery through the dev inbox
+    await delay(600);
+    const code = generateDeliveryCode();
+    tokenData.deliveredCodes = {
+      ...tokenData.deliveredCodes,
+      [method]: { code, expiresAt: now + MOCK_OTP_DELIVERY_CONFIG.codeTtl * 1000, sentAt: now, sendCount },
+    };
+    deliverToDevInbox({
+      channel: method,
+      to: destination,
+      body: `Your Entry-form verification code is ${code}. It expires in ${MOCK_OTP_DELIVERY_CONFIG.codeTtl / 60} minutes.`,
+    });
+    const response: Send2FACodeResponse = {
+      method,
+      maskedDestination: method === 'sms' ? maskPhone(destination) : maskEmail(destination),
+      resendAvailableIn: MOCK_OTP_DELIVERY_CONFIG.resendCooldown,
+    };
+    return HttpResponse.json(response);
+  }),
+
+  // Recovery code verification endpoint
+  http.post('/api/auth/verify-recovery', async ({ request }) => {
+    const body = await request.json() as VerifyRecoveryCodeCredentials;
+    const { tempToken, recoveryCode } = body;
+
+    // Check if temp token exists
+    const tokenData = getTempToken(tempToken);
+    const user = tokenData && findAccount(tokenData.email);
+    if (!tokenData || !user) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: '2fa_expired',
+        message: '2FA session has expired. Please login again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    // Recovery codes count against the same limit as 2FA codes
+    const attemptKey = `2fa:${user.email}`;
+    const limited = checkAttemptLimit(attemptKey, user.email, body.challengeToken);
+    if (limited) {
+      await delay(500);
+      return limited;
+    }
+
+    // Each recovery code can only be used once
+    const remainingCodes = recoveryCodeStore.get(user.email) ?? [];
+    const normalizedCode = normalizeRecoveryCode(recoveryCode);
+    if (!remainingCodes.includes(normalizedCode)) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'invalid_recovery_code',
+        message: 'Invalid or already used recovery code.',
+      };
+      return recordFailedAttempt(attemptKey, user.email, errorResponse, 401);
+    }
+
+    // Simulate successful verification - consume the code
+    await delay(800);
+    const unusedCodes = remainingCodes.filter((code) => code !== normalizedCode);
+    recoveryCodeStore.set(user.email, unusedCodes);
+    tempTokenStore.delete(tempToken);
+    failedAttemptStore.delete(attemptKey);
+    forcedTwoFactorStore.delete(user.email);
+    const session = startSession(request, user.email, tokenData.rememberMe);
+    const response: Verify2FAResponse = {
+      ...session.tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+      },
+      recoveryCodesRemaining: unusedCodes.length,
+    };
+    return HttpResponse.json(response, session.init);
+  }),
+
+  // Start authenticator enrollment
+  http.post('/api/auth/2fa/enroll', async ({ request }) => {
+    const body = await request.json() as Start2FAEnrollmentRequest;
+    const tokenData = getTempToken(body.tempToken);
+
+    if (!tokenData) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: '2fa_expired',
+        message: '2FA session has expired. Please login again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    if (totpEnrollmentStore.has(tokenData.email)) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'already_enrolled',
+        message: 'An authenticator is already set up for this account.',
+      };
+      return HttpResponse.json(errorResponse, { status: 409 });
+    }
+
+    // Reuse the pending secret so repeated calls show the same QR code
+    await delay(500);
+    tokenData.pendingTotpSecret ??= base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+    const response: Start2FAEnrollmentResponse = {
+      secret: tokenData.pendingTotpSecret,
+      otpauthUri: buildOtpauthUri({
+        issuer: TOTP_ISSUER,
+        accountName: tokenData.email,
+        secret: tokenData.pendingTotpSecret,
+        algorithm: 'SHA-1',
+        digits: MOCK_2FA_CONFIG.digits,
+        period: MOCK_2FA_CONFIG.period,
+      }),
+    };
+    return HttpResponse.json(response);
+  }),
+
+  // Confirm authenticator enrollment with a first code
+  http.post('/api/auth/2fa/enroll/confirm', async ({ request }) => {
+    const body = await request.json() as Confirm2FAEnrollmentCredentials;
+    const { tempToken, code } = body;
+
+    const tokenData = getTempToken(tempToken);
+    const user = tokenData && findAccount(tokenData.email);
+    if (!tokenData || !user) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: '2fa_expired',
+        message: '2FA session has expired. Please login again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    if (!tokenData.pendingTotpSecret) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'enrollment_not_started',
+        message: 'Authenticator enrollment has not been started.',
+      };
+      return HttpResponse.json(errorResponse, { status: 400 });
+    }
+
+    const drift = await verifyTotp(tokenData.pendingTotpSecret, code, {
+      algorithm: 'SHA-1',
+      digits: MOCK_2FA_CONFIG.digits,
+      period: MOCK_2FA_CONFIG.period,
+      window: MOCK_2FA_CONFIG.window,
+    });
+    if (drift === null) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'invalid_2fa_code',
+        message: 'Invalid verification code. Please try again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    // Enrollment complete - store the authenticator and issue recovery codes
+    await delay(800);
+    totpEnrollmentStore.set(user.email, { secret: tokenData.pendingTotpSecret, algorithm: 'SHA-1' });
+    const recoveryCodes = generateRecoveryCodes();
+    recoveryCodeStore.set(user.email, recoveryCodes);
+    tempTokenStore.delete(tempToken);
+    forcedTwoFactorStore.delete(user.email);
+    const session = startSession(request, user.email, tokenData.rememberMe);
+    const response: Confirm2FAEnrollmentResponse = {
+      ...session.tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+      },
+      recoveryCodes,
+    };
+    return HttpResponse.json(response, session.init);
+  }),
+
+  // Exchange a refresh token for a new token pair (rotation)
+  http.post('/api/auth/refresh', async ({ request, cookies }) => {
+    const body = await request.json() as RefreshTokenRequest;
+    // Cookie mode: the refresh token is found through the session cookie
+    const cookieToken = cookies[SESSION_COOKIE];
+    const refreshToken = body.refreshToken ?? (cookieToken ? sessionStore.get(cookieToken)?.refreshToken : undefined);
+    const stored = refreshToken ? refreshTokenStore.get(refreshToken) : undefined;
+
+    // Each refresh token is single-use
+    if (refreshToken) refreshTokenStore.delete(refreshToken);
+    if (!stored || stored.expiresAt < Date.now() || !findAccount(stored.email)) {
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'invalid_refresh_token',
+        message: 'Session has expired. Please sign in again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    await delay(300);
+    console.info(`[MSW] Access token refreshed for ${stored.email}`);
+    const session = startSession(request, stored.email, stored.rememberMe);
+    const response: AuthTokens = session.tokens;
+    return HttpResponse.json(response, session.init);
+  }),
+
+  // Current user for the session - used to restore sign-in on page load
+  http.get('/api/auth/me', async ({ request, cookies }) => {
+    const session = getSession(request, cookies);
+    if ('error' in session) {
+      await delay(300);
+      return HttpResponse.json(session.error, { status: 401 });
+    }
+
+    await delay(300);
+    const response: CurrentUserResponse = {
+      user: {
+        id: session.account.id,
+        email: session.account.email,
+      },
+    };
+    return HttpResponse.json(response);
+  }),
+
+  // Revoke the session - succeeds even if it has already expired
+  http.post('/api/auth/logout', async ({ request, cookies }) => {
+    const body = await request.json() as LogoutRequest;
+    const accessToken = getAccessToken(request, cookies);
+    const session = accessToken ? sessionStore.get(accessToken) : undefined;
+
+    if (accessToken) sessionStore.delete(accessToken);
+    if (session) refreshTokenStore.delete(session.refreshToken);
+    if (body.refreshToken) refreshTokenStore.delete(body.refreshToken);
+
+    await delay(300);
+    return new HttpResponse(null, {
+      status: 204,
+      // Clear the session cookie in cookie mode
+      headers: { 'Set-Cookie': `${SESSION_COOKIE}=; Path=/api; HttpOnly; SameSite=Strict; Max-Age=0` },
+    });
+  }),
+
+  // Trusted devices of the signed-in user. X-Device-Token marks the device asking.
+  http.get('/api/auth/devices', async ({ request, cookies }) => {
+    const session = getSession(request, cookies);
+    if ('error' in session) {
+      await delay(300);
+      return HttpResponse.json(session.error, { status: 401 });
+    }
+    const { email } = session.account;
+
+    await delay(300);
+    const currentId = await verifyDeviceToken(request.headers.get('X-Device-Token'), email);
+    const devices: TrustedDevice[] = [...trustedDeviceStore.entries()]
+      .filter(([, device]) => device.email === email && device.expiresAt > Date.now())
+      .sort(([, a], [, b]) => b.lastUsedAt - a.lastUsedAt)
+      .map(([id, device]) => ({
+        id,
+        name: device.name,
+        createdAt: new Date(device.createdAt).toISOString(),
+        lastUsedAt: new Date(device.lastUsedAt).toISOString(),
+        expiresAt: new Date(device.expiresAt).toISOString(),
+        current: id === currentId,
+      }));
+    const response: TrustedDevicesResponse = { devices };
+    return HttpResponse.json(response);
+  }),
+
+  // Stop trusting a device - succeeds even if it is already gone
+  http.delete('/api/auth/devices/:deviceId', async ({ request, cookies, params }) => {
+    const session = getSession(request, cookies);
+    if ('error' in session) {
+      await delay(300);
+      return HttpResponse.json(session.error, { status: 401 });
+    }
+
+    await delay(300);
+    const deviceId = String(params.deviceId);
+    // Only the account's own devices
+    if (trustedDeviceStore.get(deviceId)?.email === session.account.email) {
+      trustedDeviceStore.delete(deviceId);
+    }
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  // Step-up: confirm the signed-in user's identity for a short-lived elevated token
+  http.post('/api/auth/step-up', async ({ request, cookies }) => {
+    const session = getSession(request, cookies);
+    if ('error' in session) {
+      await delay(300);
+      return HttpResponse.json(session.error, { status: 401 });
+    }
+    const { email } = session.account;
+    const body = await request.json() as StepUpRequest;
+
+    // Failures count towards the same lockout as sign-in
+    const attemptKey = `step-up:${email}`;
+    const limited = checkAttemptLimit(attemptKey, email, body.challengeToken);
+    if (limited) {
+      await delay(500);
+      return limited;
+    }
+
+    if (body.method === 'totp') {
+      const enrollment = totpEnrollmentStore.get(email);
+      const drift = enrollment
+        ? await verifyTotp(enrollment.secret, body.code, {
+          algorithm: enrollment.algorithm,
+          digits: MOCK_2FA_CONFIG.digits,
+          period: MOCK_2FA_CONFIG.period,
+          window: MOCK_2FA_CONFIG.window,
+        })
+        : null;
+      if (drift === null) {
+        await delay(500);
+        const errorResponse: ApiError = {
+          error: 'invalid_2fa_code',
+          message: 'Invalid verification code. Please try again.',
+        };
+        return recordFailedAttempt(attemptKey, email, errorResponse, 401);
+      }
+    } else if (body.password !== session.account.password) {
+      await delay(500);
+      const errorResponse: ApiError = {
+        error: 'invalid_credentials',
+        message: 'Password is incorrect',
+      };
+      return recordFailedAttempt(attemptKey, email, errorResponse, 401);
+    }
+
+    await delay(500);
+    failedAttemptStore.delete(attemptKey);
+    const stepUpToken = randomToken('step-up');
+    stepUpTokenStore.set(stepUpToken, { email, expiresAt: Date.now() + MOCK_STEP_UP_CONFIG.tokenTtl * 1000 });
+    const response: StepUpResponse = { stepUpToken, expiresIn: MOCK_STEP_UP_CONFIG.tokenTtl };
+    return HttpResponse.json(response);
+  }),
+
+  // Replace the recovery codes - a sensitive request, so it demands a step-up
+  http.post('/api/auth/2fa/recovery-codes', async ({ request, cookies }) => {
+    const session = getSession(request, cookies);
+    if ('error' in session) {
+      await delay(300);
+      return HttpResponse.json(session.error, { status: 401 });
+    }
+    const { email } = session.account;
+
+    const stepUpRequired = checkStepUp(request, email);
+    if (stepUpRequired) {
+      await delay(300);
+      return stepUpRequired;
+    }
+
+    if (!totpEnrollmentStore.has(email)) {
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'method_unavailable',
+        message: 'Set up an authenticator app first.',
+      };
+      return HttpResponse.json(errorResponse, { status: 400 });
+    }
+
+    await delay(500);
+    const recoveryCodes = generateRecoveryCodes();
+    recoveryCodeStore.set(email, recoveryCodes);
+    console.info(`[MSW] New recovery codes for ${email}`);
+    const response: RegenerateRecoveryCodesResponse = { recoveryCodes };
+    return HttpResponse.json(response);
+  }),
+
+  // Passkey sign-in: issue a challenge for a discoverable credential
+  http.post('/api/auth/passkey/login/options', async ({ request }) => {
+    await delay(300);
+    const { challengeId, challenge } = createWebAuthnChallenge('authentication');
+    const response: PasskeyAuthenticationOptions = {
+      challengeId,
+      challenge,
+      rpId: new URL(request.url).hostname,
+      timeout: WEBAUTHN_TIMEOUT,
+      userVerification: 'required',
+    };
+    return HttpResponse.json(response);
+  }),
+
+  // Passkey sign-in: verify the assertion and sign the user in
+  http.post('/api/auth/passkey/login', async ({ request }) => {
+    const body = await request.json() as PasskeyLoginRequest;
+    const { challengeId, credential } = body;
+    const url = new URL(request.url);
+
+    const challenge = consumeWebAuthnChallenge(challengeId, 'authentication');
+    if (!challenge) {
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'passkey_challenge_expired',
+        message: 'Passkey challenge has expired. Please try again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 400 });
+    }
+
+    const storedCredential = passkeyStore.get(credential.id);
+    const user = storedCredential && findAccount(storedCredential.email);
+    if (!storedCredential || !user) {
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'passkey_not_found',
+        message: 'This passkey is not registered.',
+      };
+      return HttpResponse.json(errorResponse, { status: 404 });
+    }
+
+    try {
+      storedCredential.signCount = await verifyAuthentication(credential, storedCredential, {
+        challenge: challenge.challenge,
+        origin: url.origin,
+        rpId: url.hostname,
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      if (!(error instanceof WebAuthnVerificationError)) throw error;
+      console.warn(`[MSW] Passkey assertion rejected: ${error.message}`);
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'passkey_invalid',
+        message: 'Passkey verification failed.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    // Right after a password reset, even a passkey sign-in goes through 2FA
+    if (forcedTwoFactorStore.has(user.email)) {
+      await delay(500);
+      const pending = issueTempToken(user.email, body.rememberMe);
+      const response: LoginResponse = {
+        user: {
+          id: user.id,
+          email: user.email,
+        },
+        requires2FA: true,
+        ...pending,
+        enrollmentRequired: !totpEnrollmentStore.has(user.email),
+        twoFactorMethods: getTwoFactorMethods(user.email),
+      };
+      return HttpResponse.json(response);
+    }
+
+    // Passkeys are multi-factor by themselves - no 2FA step
+    await delay(500);
+    const session = startSession(request, user.email, body.rememberMe);
+    const response: LoginResponse = {
+      ...session.tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+      },
+      requires2FA: false,
+    };
+    return HttpResponse.json(response, session.init);
+  }),
+
+  // OpenID Connect sign-in: an ID token from one of the mock identity providers.
+  // Accounts are matched by verified email; the provider's own MFA stands in for 2FA.
+  http.post('/api/auth/oidc/login', async ({ request }) => {
+    const body = await request.json() as OidcLoginRequest;
+
+    let email: string;
+    try {
+      const claims = await verifyMockIdToken(body.idToken, body.provider, new URL(request.url).origin);
+      email = normalizeEmail(claims.email ?? '');
+    } catch (error) {
+      if (!(error instanceof IdTokenVerificationError)) throw error;
+      console.warn(`[MSW] ID token rejected: ${error.message}`);
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'oidc_invalid_token',
+        message: 'The ID token could not be verified.',
+      };
+      return HttpResponse.json(errorResponse, { status: 401 });
+    }
+
+    // Organizations with single sign-on only accept their own identity provider
+    const policy = getDomainLoginPolicy(email);
+    if (policy?.method === 'sso' && (policy.protocol !== 'oidc' || policy.provider !== body.provider)) {
+      await delay(300);
+      return ssoRequiredResponse();
+    }
+
+    const user = findAccount(email);
+    if (!user) {
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'user_not_found',
+        message: `No account for ${email}.`,
+      };
+      return HttpResponse.json(errorResponse, { status: 404 });
+    }
+
+    // Right after a password reset, provider sign-in goes through 2FA too
+    if (forcedTwoFactorStore.has(user.email)) {
+      await delay(500);
+      const pending = issueTempToken(user.email, body.rememberMe);
+      const response: LoginResponse = {
+        user: {
+          id: user.id,
+          email: user.email,
+        },
+        requires2FA: true,
+        ...pending,
+        enrollmentRequired: !totpEnrollmentStore.has(user.email),
+        twoFactorMethods: getTwoFactorMethods(user.email),
+      };
+      return HttpResponse.json(response);
+    }
+
+    await delay(500);
+    const session = startSession(request, user.email, body.rememberMe);
+    const response: CompletedLoginResponse = {
+      ...session.tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+      },
+      requires2FA: false,
+    };
+    return HttpResponse.json(response, session.init);
+  }),
+
+  // Passkey registration: creation options for the signed-in user
+  http.post('/api/auth/passkey/register/options', async ({ request, cookies }) => {
+    const session = getSession(request, cookies);
+    if ('error' in session) {
+      await delay(300);
+      return HttpResponse.json(session.error, { status: 401 });
+    }
+    const user = session.account;
+
+    await delay(300);
+    const { challengeId, challenge } = createWebAuthnChallenge('registration', user.email);
+    const response: PasskeyRegistrationOptions = {
+      challengeId,
+      challenge,
+      rp: {
+        id: new URL(request.url).hostname,
+        name: WEBAUTHN_RP_NAME,
+      },
+      user: {
+        id: base64UrlEncode(new TextEncoder().encode(String(user.id))),
+        name: user.email,
+        displayName: user.email,
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: COSE_ALGORITHMS.ES256 },
+        { type: 'public-key', alg: COSE_ALGORITHMS.RS256 },
+      ],
+      excludeCredentials: [...passkeyStore.entries()]
+        .filter(([, passkey]) => passkey.email === user.email)
+        .map(([id]) => ({ type: 'public-key', id })),
+      timeout: WEBAUTHN_TIMEOUT,
+      userVerification: 'required',
+    };
+    return HttpResponse.json(response);
+  }),
+
+  // Passkey registration: verify and store the new credential
+  http.post('/api/auth/passkey/register', async ({ request, cookies }) => {
+    const session = getSession(request, cookies);
+    if ('error' in session) {
+      await delay(300);
+      return HttpResponse.json(session.error, { status: 401 });
+    }
+    const user = session.account;
+
+    const body = await request.json() as PasskeyRegistrationRequest;
+    const { challengeId, credential } = body;
+    const url = new URL(request.url);
+
+    const challenge = consumeWebAuthnChallenge(challengeId, 'registration');
+    if (!challenge || challenge.email !== user.email) {
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'passkey_challenge_expired',
+        message: 'Passkey challenge has expired. Please try again.',
+      };
+      return HttpResponse.json(errorResponse, { status: 400 });
+    }
+
+    try {
+      const verified = await verifyRegistration(credential, {
+        challenge: challenge.challenge,
+        origin: url.origin,
+        rpId: url.hostname,
+        requireUserVerification: true,
+      });
+      const createdAt = new Date().toISOString();
+      passkeyStore.set(credential.id, { email: user.email, ...verified, createdAt });
+
+      await delay(500);
+      const response: PasskeyRegistrationResponse = {
+        credentialId: credential.id,
+        createdAt,
+      };
+      return HttpResponse.json(response);
+    } catch (error) {
+      if (!(error instanceof WebAuthnVerificationError)) throw error;
+      console.warn(`[MSW] Passkey registration rejected: ${error.message}`);
+      await delay(300);
+      const errorResponse: ApiError = {
+        error: 'passkey_invalid',
+        message: 'Passkey verification failed.',
+      };
+      return HttpResponse.json(errorResponse, { status: 400 });
+    }
+  }),
+];
+
+// The identity providers are separate servers - not part of the scenario panel
+export const handlers = [scenarioHandler, ...endpointHandlers, ...identityProviderHandlers];
+
+registerMockEndpoints(
+  endpointHandlers.map(({ info }) => {
+    const method = String(info.method);
+    const path = String(info.path);
+    const key = endpointKey(method, path);
+    return { key, method, path, supportsSuccess: key in SCENARIO_SUCCESS };
+  })
+);
+
+// Export test credentials for documentation
+export {
+  TEST_USERS,
+  TEST_2FA_CODES,
+  MOCK_2FA_CONFIG,
+  MOCK_OTP_DELIVERY_CONFIG,
+  MOCK_SESSION_CONFIG,
+  MOCK_EMAIL_VERIFICATION_CONFIG,
+  MOCK_PASSWORD_RESET_CONFIG,
+  MOCK_BRUTE_FORCE_CONFIG,
+  MOCK_DOMAIN_LOGIN_POLICIES,
+  MOCK_DISCOVERY_CONFIG,
+  MOCK_TRUSTED_DEVICE_CONFIG,
+  MOCK_STEP_UP_CONFIG,
+};
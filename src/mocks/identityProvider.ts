@@ -0,0 +1,289 @@
+// Mock OpenID Connect identity providers, so provider sign-in runs offline.
+// Each provider gets an issuer at /mock-idp/<provider> with discovery, authorize,
+// token and JWKS endpoints. ID tokens are RS256 JWTs signed with a key generated
+// per page load. The authorize endpoint's login page is a dev-only app route
+// (DevIdentityProvider) - the service worker doesn't see page navigations.
+import { http, HttpResponse, delay } from 'msw';
+import { base64UrlDecode, base64UrlEncode } from '../api/webauthn';
+import {
+  createCodeChallenge,
+  type IdTokenClaims,
+  type OidcDiscoveryDocument,
+  type OidcJsonWebKeySet,
+  type OidcTokenResponse,
+} from '../api/oidc';
+
+// Provider ids and display names
+export const MOCK_IDP_PROVIDERS: Record<string, string> = {
+  google: 'Google',
+  microsoft: 'Microsoft',
+  okta: 'Okta',
+};
+
+// The app's client registration, the same at every provider
+export const MOCK_IDP_CLIENT = {
+  clientId: 'entry-form-web',
+  redirectPath: '/auth/callback',
+};
+
+export const MOCK_IDP_CONFIG = {
+  // Seconds an authorization code can be redeemed
+  codeTtl: 60,
+  // Seconds an ID token stays valid - tests may make it negative to issue expired tokens
+  idTokenTtl: 5 * 60,
+};
+
+// Accounts every mock provider can sign in. stranger@example.com has no app account;
+// alex@acme.test belongs to an organization that signs in with Okta.
+export const MOCK_IDP_USERS = [
+  { sub: '1001', email: 'test@example.com', name: 'Test User' },
+  { sub: '1002', email: 'stranger@example.com', name: 'Sam Stranger' },
+  { sub: '1003', email: 'alex@acme.test', name: 'Alex Acme' },
+];
+
+// Sent by the provider's login page; no `sub` means the user cancelled
+export interface MockAuthorizeRequest {
+  params: Record<string, string>;
+  sub?: string;
+}
+
+export interface MockAuthorizeResponse {
+  // The client's redirect_uri with either code and state or an error
+  redirectTo: string;
+}
+
+// OAuth 2.0 error body (RFC 6749 5.2)
+interface OAuthError {
+  error: string;
+  error_description: string;
+}
+
+export class IdTokenVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdTokenVerificationError';
+  }
+}
+
+const SIGNING_KEY_ID = 'mock-idp-key-1';
+const SIGNING_ALGORITHM = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+
+export const getMockIssuer = (origin: string, provider: string): string => `${origin}/mock-idp/${provider}`;
+
+let signingKeyPair: Promise<CryptoKeyPair> | undefined;
+
+const getSigningKeyPair = (): Promise<CryptoKeyPair> => {
+  signingKeyPair ??= crypto.subtle.generateKey(
+    { ...SIGNING_ALGORITHM, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) },
+    true,
+    ['sign', 'verify']
+  );
+  return signingKeyPair;
+};
+
+// Issued codes, redeemable once
+const authorizationCodeStore = new Map<
+  string,
+  {
+    provider: string;
+    redirectUri: string;
+    codeChallenge: string;
+    nonce?: string;
+    user: (typeof MOCK_IDP_USERS)[number];
+    expiresAt: number;
+  }
+>();
+
+const encodeJson = (value: unknown): string => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+const signIdToken = async (claims: IdTokenClaims): Promise<string> => {
+  const { privateKey } = await getSigningKeyPair();
+  const signingInput = `${encodeJson({ alg: 'RS256', typ: 'JWT', kid: SIGNING_KEY_ID })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign(SIGNING_ALGORITHM, privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+};
+
+const oauthError = (error: string, description: string, status = 400) => {
+  const body: OAuthError = { error, error_description: description };
+  return HttpResponse.json(body, { status });
+};
+
+// Checks that come before the user's choice. Failures are shown on the provider's
+// page - redirecting to an unchecked redirect_uri would make it an open redirect.
+const checkAuthorizationRequest = (params: Record<string, string>, origin: string): string | undefined => {
+  if (params.client_id !== MOCK_IDP_CLIENT.clientId) return `Unknown client_id ${params.client_id}`;
+  if (params.redirect_uri !== `${origin}${MOCK_IDP_CLIENT.redirectPath}`) {
+    return `redirect_uri ${params.redirect_uri} is not registered for this client`;
+  }
+  return undefined;
+};
+
+// Problems reported back to the client on its redirect_uri
+const checkAuthorizationParams = (params: Record<string, string>): OAuthError | undefined => {
+  if (params.response_type !== 'code') {
+    return { error: 'unsupported_response_type', error_description: 'Only the code flow is supported' };
+  }
+  if (!params.scope?.split(' ').includes('openid')) {
+    return { error: 'invalid_scope', error_description: 'The openid scope is required' };
+  }
+  if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+    return { error: 'invalid_request', error_description: 'PKCE with S256 is required' };
+  }
+  return undefined;
+};
+
+export const identityProviderHandlers = [
+  // Discovery document (OpenID Connect Discovery 1.0)
+  http.get('/mock-idp/:provider/.well-known/openid-configuration', async ({ request, params }) => {
+    const provider = String(params.provider);
+    if (!MOCK_IDP_PROVIDERS[provider]) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    await delay(200);
+    const issuer = getMockIssuer(new URL(request.url).origin, provider);
+    const document = {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+      token_endpoint_auth_methods_supported: ['none'],
+      grant_types_supported: ['authorization_code'],
+    } satisfies OidcDiscoveryDocument & Record<string, unknown>;
+    return HttpResponse.json(document);
+  }),
+
+  // Consent from the provider's login page - answers with where to send the browser
+  http.post('/mock-idp/:provider/authorize', async ({ request, params: routeParams }) => {
+    const provider = String(routeParams.provider);
+    const { params, sub } = await request.json() as MockAuthorizeRequest;
+    const origin = new URL(request.url).origin;
+
+    await delay(300);
+    const invalid = MOCK_IDP_PROVIDERS[provider] ? checkAuthorizationRequest(params, origin) : 'Unknown provider';
+    if (invalid) {
+      return oauthError('invalid_request', invalid);
+    }
+
+    // The user is sent back with a code, or with the reason there is none
+    const redirect = new URL(params.redirect_uri);
+    const user = MOCK_IDP_USERS.find((candidate) => candidate.sub === sub);
+    const error: OAuthError | undefined = user
+      ? checkAuthorizationParams(params)
+      : { error: 'access_denied', error_description: 'The user cancelled sign-in' };
+    if (!user || error) {
+      redirect.search = new URLSearchParams({ ...error }).toString();
+    } else {
+      const code = base64UrlEncode(crypto.getRandomValues(new Uint8Array(24)));
+      authorizationCodeStore.set(code, {
+        provider,
+        redirectUri: params.redirect_uri,
+        codeChallenge: params.code_challenge,
+        nonce: params.nonce,
+        user,
+        expiresAt: Date.now() + MOCK_IDP_CONFIG.codeTtl * 1000,
+      });
+      redirect.search = new URLSearchParams({ code }).toString();
+      console.info(`[MSW] ${MOCK_IDP_PROVIDERS[provider]} signed in ${user.email}`);
+    }
+    if (params.state) {
+      redirect.searchParams.set('state', params.state);
+    }
+    const response: MockAuthorizeResponse = { redirectTo: redirect.href };
+    return HttpResponse.json(response);
+  }),
+
+  // Token endpoint: redeem a code with its PKCE verifier (public client, no secret)
+  http.post('/mock-idp/:provider/token', async ({ request, params: routeParams }) => {
+    const provider = String(routeParams.provider);
+    const form = new URLSearchParams(await request.text());
+    const origin = new URL(request.url).origin;
+
+    await delay(300);
+    if (form.get('grant_type') !== 'authorization_code') {
+      return oauthError('unsupported_grant_type', 'Only authorization_code is supported');
+    }
+    if (form.get('client_id') !== MOCK_IDP_CLIENT.clientId) {
+      return oauthError('invalid_client', 'Unknown client', 401);
+    }
+
+    const code = form.get('code') ?? '';
+    const issued = authorizationCodeStore.get(code);
+    authorizationCodeStore.delete(code);
+    if (!issued || issued.provider !== provider || issued.expiresAt <= Date.now()) {
+      return oauthError('invalid_grant', 'The authorization code is invalid, expired or already used');
+    }
+    if (form.get('redirect_uri') !== issued.redirectUri) {
+      return oauthError('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    const verifier = form.get('code_verifier');
+    if (!verifier || (await createCodeChallenge(verifier)) !== issued.codeChallenge) {
+      return oauthError('invalid_grant', 'PKCE verification failed');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = await signIdToken({
+      iss: getMockIssuer(origin, provider),
+      sub: issued.user.sub,
+      aud: MOCK_IDP_CLIENT.clientId,
+      exp: now + MOCK_IDP_CONFIG.idTokenTtl,
+      iat: now,
+      nonce: issued.nonce,
+      email: issued.user.email,
+      email_verified: true,
+      name: issued.user.name,
+    });
+    const response: OidcTokenResponse = {
+      access_token: base64UrlEncode(crypto.getRandomValues(new Uint8Array(24))),
+      token_type: 'Bearer',
+      expires_in: 3600,
+      id_token: idToken,
+    };
+    return HttpResponse.json(response, { headers: { 'Cache-Control': 'no-store' } });
+  }),
+
+  // Public signing keys
+  http.get('/mock-idp/:provider/jwks', async ({ params }) => {
+    if (!MOCK_IDP_PROVIDERS[String(params.provider)]) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    const { publicKey } = await getSigningKeyPair();
+    const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+    const response: OidcJsonWebKeySet = {
+      keys: [{ kty: jwk.kty, n: jwk.n, e: jwk.e, alg: 'RS256', use: 'sig', kid: SIGNING_KEY_ID }],
+    };
+    return HttpResponse.json(response);
+  }),
+];
+
+// ID token check for the mock backend: the backend trusts the mock providers'
+// key directly instead of fetching it
+export const verifyMockIdToken = async (idToken: string, provider: string, origin: string): Promise<IdTokenClaims> => {
+  const [encodedHeader, encodedClaims, encodedSignature = ''] = idToken.split('.');
+  const { publicKey } = await getSigningKeyPair();
+  const signed = new TextEncoder().encode(`${encodedHeader}.${encodedClaims}`);
+  let valid = false;
+  let claims: IdTokenClaims | undefined;
+  try {
+    valid = await crypto.subtle.verify(SIGNING_ALGORITHM, publicKey, base64UrlDecode(encodedSignature), signed);
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedClaims)));
+  } catch {
+    throw new IdTokenVerificationError('Malformed ID token');
+  }
+
+  if (!valid || !claims) throw new IdTokenVerificationError('Invalid signature');
+  if (!MOCK_IDP_PROVIDERS[provider] || claims.iss !== getMockIssuer(origin, provider)) {
+    throw new IdTokenVerificationError(`Unexpected issuer ${claims.iss}`);
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(MOCK_IDP_CLIENT.clientId)) throw new IdTokenVerificationError('Unexpected audience');
+  if (claims.exp <= Date.now() / 1000) throw new IdTokenVerificationError('Expired');
+  if (!claims.email || !claims.email_verified) throw new IdTokenVerificationError('No verified email');
+  return claims;
+};
@@ -0,0 +1,5 @@
+import { setupServer } from 'msw/node';
+import { handlers } from './handlers';
+
+// Setup MSW server for tests running in Node
+export const server = setupServer(...handlers);
@@ -0,0 +1,164 @@
+// RFC 6238 (TOTP) / RFC 4226 (HOTP) implementation for the mock backend.
+// Uses Web Crypto so it runs both in the browser worker setup and in Node.
+
+export type TotpAlgorithm = 'SHA-1' | 'SHA-256';
+
+export interface TotpOptions {
+  algorithm: TotpAlgorithm;
+  digits: number;
+  // Time step in seconds
+  period: number;
+}
+
+export interface TotpVerifyOptions extends TotpOptions {
+  // Number of time steps accepted before/after the current one (clock drift)
+  window: number;
+}
+
+export const DEFAULT_TOTP_OPTIONS: TotpOptions = {
+  algorithm: 'SHA-1',
+  digits: 6,
+  period: 30,
+};
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Decode an RFC 4648 base32 string (padding and whitespace are ignored)
+export const base32Decode = (input: string): Uint8Array<ArrayBuffer> => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes = new Uint8Array(Math.floor((cleaned.length * 5) / 8));
+
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (const char of cleaned) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return bytes;
+};
+
+// Encode bytes as an unpadded RFC 4648 base32 string
+export const base32Encode = (bytes: Uint8Array): string => {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+
+  return output;
+};
+
+// 8-byte big-endian counter as required by RFC 4226
+// (a typed array rather than a bare ArrayBuffer, which Node's Web Crypto rejects
+// when it comes from another realm such as jsdom)
+const counterToBytes = (counter: number): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter % 2 ** 32);
+  return bytes;
+};
+
+// Generate an HOTP value for the given counter
+export const generateHotp = async (
+  secret: string,
+  counter: number,
+  options: TotpOptions = DEFAULT_TOTP_OPTIONS
+): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: options.algorithm },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, counterToBytes(counter)));
+
+  // Dynamic truncation
+  const offset = signature[signature.length - 1] & 0x0f;
+  const binary =
+    ((signature[offset] & 0x7f) << 24) |
+    (signature[offset + 1] << 16) |
+    (signature[offset + 2] << 8) |
+    signature[offset + 3];
+
+  return (binary % 10 ** options.digits).toString().padStart(options.digits, '0');
+};
+
+// Time step counter for a timestamp (milliseconds)
+export const getTimeStep = (timestamp: number, period: number): number => {
+  return Math.floor(timestamp / 1000 / period);
+};
+
+// Generate the TOTP value valid at the given timestamp
+export const generateTotp = (
+  secret: string,
+  options: TotpOptions = DEFAULT_TOTP_OPTIONS,
+  timestamp: number = Date.now()
+): Promise<string> => {
+  return generateHotp(secret, getTimeStep(timestamp, options.period), options);
+};
+
+// Verify a TOTP code within the drift window.
+// Returns the matched step offset (e.g. -1 for the previous step) or null if the code is invalid.
+export const verifyTotp = async (
+  secret: string,
+  code: string,
+  options: TotpVerifyOptions,
+  timestamp: number = Date.now()
+): Promise<number | null> => {
+  if (!new RegExp(`^\\d{${options.digits}}$`).test(code)) {
+    return null;
+  }
+
+  const currentStep = getTimeStep(timestamp, options.period);
+
+  for (let offset = -options.window; offset <= options.window; offset++) {
+    const candidate = await generateHotp(secret, currentStep + offset, options);
+    if (candidate === code) {
+      return offset;
+    }
+  }
+
+  return null;
+};
+
+// Build a Key URI (otpauth://) understood by authenticator apps
+export const buildOtpauthUri = ({
+  issuer,
+  accountName,
+  secret,
+  ...options
+}: TotpOptions & { issuer: string; accountName: string; secret: string }): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: options.algorithm.replace('-', ''),
+    digits: String(options.digits),
+    period: String(options.period),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,219 @@
+// Minimal WebAuthn relying-party verifier for the mock backend.
+// Supports "none" attestation with ES256/RS256 credentials, which covers
+// platform authenticators and Chrome's virtual authenticator (CDP WebAuthn domain).
+import { base64UrlDecode, base64UrlEncode } from '../api/webauthn';
+import type { PasskeyAssertionCredential, PasskeyAttestationCredential } from '../api/types';
+
+// COSE algorithm identifiers
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  RS256: -257,
+} as const;
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+export class WebAuthnVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnVerificationError';
+  }
+}
+
+interface ExpectedCeremony {
+  challenge: string;
+  origin: string;
+  rpId: string;
+  requireUserVerification: boolean;
+}
+
+interface StoredCredential {
+  // SubjectPublicKeyInfo, base64url
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+}
+
+const sha256 = async (data: BufferSource): Promise<Uint8Array> => {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+};
+
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+};
+
+// Parse the fixed part of authenticator data (and the credential id when attested)
+const parseAuthenticatorData = (data: Uint8Array) => {
+  if (data.length < 37) {
+    throw new WebAuthnVerificationError('Authenticator data is too short');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const flags = data[32];
+  let credentialId: Uint8Array | undefined;
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // 16-byte AAGUID followed by a 2-byte credential id length
+    const idLength = view.getUint16(53);
+    credentialId = data.slice(55, 55 + idLength);
+  }
+
+  return {
+    rpIdHash: data.slice(0, 32),
+    flags,
+    signCount: view.getUint32(33),
+    credentialId,
+  };
+};
+
+// Check client data type, challenge and origin
+const verifyClientData = (clientDataJSON: Uint8Array, type: string, expected: ExpectedCeremony) => {
+  const clientData = JSON.parse(new TextDecoder().decode(clientDataJSON)) as {
+    type: string;
+    challenge: string;
+    origin: string;
+  };
+
+  if (clientData.type !== type) {
+    throw new WebAuthnVerificationError(`Unexpected client data type: ${clientData.type}`);
+  }
+  if (clientData.challenge !== expected.challenge) {
+    throw new WebAuthnVerificationError('Challenge mismatch');
+  }
+  if (clientData.origin !== expected.origin) {
+    throw new WebAuthnVerificationError(`Unexpected origin: ${clientData.origin}`);
+  }
+};
+
+// Check RP id hash and user presence/verification flags
+const verifyAuthenticatorFlags = async (
+  authData: ReturnType<typeof parseAuthenticatorData>,
+  expected: ExpectedCeremony
+) => {
+  const expectedRpIdHash = await sha256(new TextEncoder().encode(expected.rpId));
+  if (!bytesEqual(authData.rpIdHash, expectedRpIdHash)) {
+    throw new WebAuthnVerificationError('RP ID hash mismatch');
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw new WebAuthnVerificationError('User presence flag not set');
+  }
+  if (expected.requireUserVerification && !(authData.flags & FLAG_USER_VERIFIED)) {
+    throw new WebAuthnVerificationError('User verification flag not set');
+  }
+};
+
+// Convert an ASN.1 DER ECDSA signature to the raw r||s form WebCrypto expects
+const derToRawSignature = (der: Uint8Array, size = 32): Uint8Array<ArrayBuffer> => {
+  if (der[0] !== 0x30) {
+    throw new WebAuthnVerificationError('Malformed ECDSA signature');
+  }
+
+  const raw = new Uint8Array(size * 2);
+  let offset = 2;
+  for (let part = 0; part < 2; part++) {
+    if (der[offset] !== 0x02) {
+      throw new WebAuthnVerificationError('Malformed ECDSA signature');
+    }
+    const length = der[offset + 1];
+    let integer = der.slice(offset + 2, offset + 2 + length);
+    // Strip the sign padding byte
+    while (integer.length > size && integer[0] === 0) {
+      integer = integer.slice(1);
+    }
+    raw.set(integer, part * size + (size - integer.length));
+    offset += 2 + length;
+  }
+
+  return raw;
+};
+
+const verifySignature = async (
+  credential: StoredCredential,
+  signature: Uint8Array<ArrayBuffer>,
+  data: Uint8Array<ArrayBuffer>
+): Promise<boolean> => {
+  const spki = base64UrlDecode(credential.publicKey);
+
+  if (credential.algorithm === COSE_ALGORITHMS.ES256) {
+    const key = await crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRawSignature(signature), data);
+  }
+
+  if (credential.algorithm === COSE_ALGORITHMS.RS256) {
+    const key = await crypto.subtle.importKey('spki', spki, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+    return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+  }
+
+  throw new WebAuthnVerificationError(`Unsupported algorithm: ${credential.algorithm}`);
+};
+
+// Verify a registration (navigator.credentials.create) response
+export const verifyRegistration = async (
+  credential: PasskeyAttestationCredential,
+  expected: ExpectedCeremony
+): Promise<StoredCredential> => {
+  const { response } = credential;
+
+  verifyClientData(base64UrlDecode(response.clientDataJSON), 'webauthn.create', expected);
+
+  const authData = parseAuthenticatorData(base64UrlDecode(response.authenticatorData));
+  await verifyAuthenticatorFlags(authData, expected);
+
+  if (!authData.credentialId || base64UrlEncode(authData.credentialId) !== credential.id) {
+    throw new WebAuthnVerificationError('Credential ID mismatch');
+  }
+
+  const supportedAlgorithms: number[] = Object.values(COSE_ALGORITHMS);
+  if (!supportedAlgorithms.includes(response.publicKeyAlgorithm)) {
+    throw new WebAuthnVerificationError(`Unsupported algorithm: ${response.publicKeyAlgorithm}`);
+  }
+
+  return {
+    publicKey: response.publicKey,
+    algorithm: response.publicKeyAlgorithm,
+    signCount: authData.signCount,
+  };
+};
+
+// Verify an authentication (navigator.credentials.get) response.
+// Returns the new signature counter to store.
+export const verifyAuthentication = async (
+  credential: PasskeyAssertionCredential,
+  storedCredential: StoredCredential,
+  expected: ExpectedCeremony
+): Promise<number> => {
+  const { response } = credential;
+  const clientDataJSON = base64UrlDecode(response.clientDataJSON);
+  const authenticatorData = base64UrlDecode(response.authenticatorData);
+
+  verifyClientData(clientDataJSON, 'webauthn.get', expected);
+
+  const authData = parseAuthenticatorData(authenticatorData);
+  await verifyAuthenticatorFlags(authData, expected);
+
+  // Signature is over authenticatorData || SHA-256(clientDataJSON)
+  const signedData = concatBytes(authenticatorData, await sha256(clientDataJSON));
+  const isValid = await verifySignature(storedCredential, base64UrlDecode(response.signature), signedData);
+  if (!isValid) {
+    throw new WebAuthnVerificationError('Invalid signature');
+  }
+
+  // A non-increasing counter suggests a cloned authenticator (0 means unsupported)
+  if (
+    (authData.signCount !== 0 || storedCredential.signCount !== 0) &&
+    authData.signCount <= storedCredential.signCount
+  ) {
+    throw new WebAuthnVerificationError('Signature counter did not increase');
+  }
+
+  return authData.signCount;
+};
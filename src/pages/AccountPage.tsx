@@ -0,0 +1,76 @@
+import { useState, useCallback } from 'react';
+import { useLocation } from 'react-router';
+import { PasskeyPrompt } from '../components/PasskeyPrompt';
+import { RecoveryCodes } from '../components/RecoveryCodes';
+import { TrustedDevices } from '../components/TrustedDevices';
+import { useAuth } from '../app/authContext';
+import type { SignedInRouteState } from '../app/routes';
+import { useI18n } from '../i18n';
+
+// Landing page for signed-in users
+export const AccountPage = () => {
+  const { user, logout } = useAuth();
+  const { t, rich } = useI18n();
+  const location = useLocation();
+  // Offer passkey creation to users who just signed in with password + 2FA
+  const showPasskeyPrompt = !!(location.state as SignedInRouteState | null)?.offerPasskey;
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const handleSignOut = useCallback(async () => {
+    setIsSigningOut(true);
+    await logout();
+  }, [logout]);
+
+  return (
+    <main className="auth-form-container">
+      <div className="auth-form-card" style={{ textAlign: 'center' }}>
+        <div style={{ marginBottom: '1.5rem' }}>
+          <svg
+            aria-hidden="true"
+            width="64"
+            height="64"
+            viewBox="0 0 64 64"
+            fill="none"
+            xmlns="http://www.w3.org/2000/svg"
+          >
+            <circle cx="32" cy="32" r="32" fill="#10B981" />
+            <path
+              d="M20 32L28 40L44 24"
+              stroke="white"
+              strokeWidth="4"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </svg>
+        </div>
+        <h1 style={{ fontSize: '1.5rem', fontWeight: 600, color: '#111827', marginBottom: '0.5rem' }}>
+          {t('account.title')}
+        </h1>
+        <p style={{ color: '#6b7280', marginBottom: '1.5rem' }}>
+          {rich('account.signedInAs', { email: user?.email })}
+        </p>
+        {showPasskeyPrompt && <PasskeyPrompt />}
+        {user && <TrustedDevices email={user.email} />}
+        <RecoveryCodes />
+        <button
+          onClick={handleSignOut}
+          disabled={isSigningOut}
+          style={{
+            padding: '0.75rem 1.5rem',
+            fontSize: '0.875rem',
+            fontWeight: 500,
+            color: '#4f46e5',
+            backgroundColor: '#eef2ff',
+            border: 'none',
+            borderRadius: '8px',
+            cursor: 'pointer',
+          }}
+        >
+          {isSigningOut ? t('account.signingOut') : t('account.signOut')}
+        </button>
+      </div>
+    </main>
+  );
+};
+
+export default AccountPage;
@@ -0,0 +1,23 @@
+import { Navigate, useLocation } from 'react-router';
+import { ForgotPasswordForm } from '../components/ForgotPasswordForm';
+import { PageLoader } from '../components/PageLoader';
+import { useAuth } from '../app/authContext';
+import { DEFAULT_RETURN_TO, type ForgotPasswordRouteState } from '../app/routes';
+
+export const ForgotPasswordPage = () => {
+  const { status } = useAuth();
+  const location = useLocation();
+  const state = location.state as ForgotPasswordRouteState | null;
+
+  if (status === 'loading') {
+    return <PageLoader />;
+  }
+
+  if (status === 'authenticated') {
+    return <Navigate to={DEFAULT_RETURN_TO} replace />;
+  }
+
+  return <ForgotPasswordForm initialEmail={state?.email} />;
+};
+
+export default ForgotPasswordPage;
@@ -0,0 +1,469 @@
+import { afterEach, beforeEach, describe, expect, it, onTestFinished, vi } from 'vitest';
+import { screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { requestPasswordReset, resetPassword } from '../api/auth';
+import { AppRoutes } from '../app/AppRoutes';
+import { MOCK_2FA_CONFIG, MOCK_DISCOVERY_CONFIG, TEST_2FA_CODES, TEST_USERS } from '../mocks/handlers';
+import { clearDevInbox, getDevInboxMessages } from '../mocks/devInbox';
+import { generateTotp } from '../mocks/totp';
+import { renderWithProviders } from '../test/render';
+import { redirectTo } from '../utils/redirect';
+
+// Leaving the app for an identity provider is recorded instead of followed
+vi.mock('../utils/redirect', () => ({ redirectTo: vi.fn() }));
+
+// The README scenario tables, played through the real routes against the mock API.
+// Timers are fake but keep running, so the mock's response delays pass on their own
+// and the long ones (slow@, timeout@, 999999) can be skipped ahead.
+
+const setup = () => {
+  const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+  renderWithProviders(<AppRoutes />, { initialEntries: ['/login'] });
+  return user;
+};
+
+// Identifier-first: the email step decides how the user signs in
+const enterEmail = async (user: ReturnType<typeof setup>, email: string) => {
+  await user.type(screen.getByLabelText('Email'), email);
+  await user.click(screen.getByRole('button', { name: 'Continue' }));
+};
+
+const signIn = async (user: ReturnType<typeof setup>, email: string, password: string) => {
+  await enterEmail(user, email);
+  await user.type(await screen.findByLabelText('Password'), password);
+  await user.click(screen.getByRole('button', { name: 'Log in' }));
+};
+
+const enterCode = async (user: ReturnType<typeof setup>, code: string) => {
+  await user.click(screen.getByRole('textbox', { name: 'Character 1 of 6' }));
+  await user.paste(code);
+};
+
+// Steps are reached by navigation, which moves focus to the heading once rendered
+const findStep = async (name: string) => {
+  const heading = await screen.findByRole('heading', { name });
+  await waitFor(() => expect(heading).toHaveFocus());
+  return heading;
+};
+
+const findTwoFactorStep = () => findStep('Two-Factor Authentication');
+
+const findLoginStep = () => findStep('Sign in to your account to continue');
+
+// Login form after the 2FA step ran out, ready for the same email
+const expectTwoFactorExpiredNotice = () => {
+  expect(screen.getByRole('status')).toHaveTextContent(
+    'Your verification session timed out. Sign in again to continue.'
+  );
+  expect(screen.getByLabelText('Email')).toHaveValue(TEST_USERS.valid.email);
+  expect(screen.queryByLabelText('Password')).not.toBeInTheDocument();
+};
+
+const findAccountPage = () => screen.findByRole('heading', { name: 'Welcome!' });
+
+beforeEach(() => {
+  vi.useFakeTimers({ shouldAdvanceTime: true });
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  clearDevInbox();
+  MOCK_2FA_CONFIG.enableMagicCodes = false;
+  MOCK_DISCOVERY_CONFIG.tokenTtl = 10 * 60;
+  vi.unstubAllGlobals();
+});
+
+describe('login scenarios', () => {
+  it('asks for 2FA after the right password', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+
+    expect(await findTwoFactorStep()).toBeInTheDocument();
+    expect(screen.getByText(TEST_USERS.valid.email)).toBeInTheDocument();
+  });
+
+  it('rejects a wrong password', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, 'wrongpassword');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Incorrect email or password.');
+    expect(screen.getByRole('status')).toHaveTextContent('4 attempts left');
+  });
+
+  it.each([
+    [TEST_USERS.notFound.email, 'User not found.'],
+    [TEST_USERS.serverError.email, 'Server error. Please try again later.'],
+    [TEST_USERS.offline.email, 'Connection problem. Please check your network.'],
+    ['someone@example.com', 'User not found.'],
+  ])('shows the error for %s', async (email, message) => {
+    const user = setup();
+    await signIn(user, email, 'any-password');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(message);
+  });
+
+  it('waits out a slow response', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.slowResponse.email, TEST_USERS.slowResponse.password);
+
+    expect(screen.getByRole('button', { name: 'Signing in...' })).toBeDisabled();
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(screen.getByRole('button', { name: 'Signing in...' })).toBeDisabled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await findTwoFactorStep()).toBeInTheDocument();
+  });
+
+  it('gives up after the request timeout', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.timeout.email, 'any-password');
+
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Request timed out. Please try again.');
+  });
+
+  it('sends users without an authenticator to setup', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.enrollment.email, TEST_USERS.enrollment.password);
+
+    expect(await findStep('Set up two-factor authentication')).toBeInTheDocument();
+  });
+});
+
+describe('2FA scenarios', () => {
+  it('signs in with an authenticator code', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+
+    await enterCode(user, await generateTotp(TEST_USERS.valid.totp.secret));
+
+    expect(await findAccountPage()).toBeInTheDocument();
+    expect(screen.getByText(TEST_USERS.valid.email)).toBeInTheDocument();
+  });
+
+  it('accepts SHA-256 authenticator codes', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.slowResponse.email, TEST_USERS.slowResponse.password);
+    await vi.advanceTimersByTimeAsync(3000);
+    await findTwoFactorStep();
+
+    const code = await generateTotp(TEST_USERS.slowResponse.totp.secret, {
+      algorithm: TEST_USERS.slowResponse.totp.algorithm,
+      digits: MOCK_2FA_CONFIG.digits,
+      period: MOCK_2FA_CONFIG.period,
+    });
+    await enterCode(user, code);
+
+    expect(await findAccountPage()).toBeInTheDocument();
+  });
+
+  it('accepts a code from the previous time step', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+
+    const previousStep = Date.now() - MOCK_2FA_CONFIG.period * 1000;
+    await enterCode(user, await generateTotp(TEST_USERS.valid.totp.secret, undefined, previousStep));
+
+    expect(await findAccountPage()).toBeInTheDocument();
+  });
+
+  it('rejects a wrong code', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+
+    const code = await generateTotp(TEST_USERS.valid.totp.secret);
+    await enterCode(user, code === '123456' ? '654321' : '123456');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid verification code. Please try again.');
+    expect(screen.getByRole('group', { name: 'Verification code' })).toBeInTheDocument();
+  });
+
+  it('reports an expired code and stays on the 2FA step (000000)', async () => {
+    MOCK_2FA_CONFIG.enableMagicCodes = true;
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+
+    await enterCode(user, TEST_2FA_CODES.expired);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('This code has expired. Please request a new one.');
+    expect(screen.getByRole('group', { name: 'Verification code' })).toBeInTheDocument();
+  });
+
+  it('times out for 999999', async () => {
+    MOCK_2FA_CONFIG.enableMagicCodes = true;
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+
+    await enterCode(user, TEST_2FA_CODES.timeout);
+    expect(screen.getByRole('button', { name: 'Verifying...' })).toBeDisabled();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Request timed out. Please try again.');
+  });
+
+  it('ignores the magic codes unless they are enabled', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+
+    await enterCode(user, TEST_2FA_CODES.expired);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid verification code. Please try again.');
+  });
+
+  it('signs in with a code sent by SMS', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+
+    const methods = screen.getByRole('group', { name: 'Verification method' });
+    await user.click(within(methods).getByRole('button', { name: 'Text message' }));
+    expect(await screen.findByText(/Enter the 6-digit code we sent to/)).toBeInTheDocument();
+
+    const [message] = getDevInboxMessages();
+    expect(message.channel).toBe('sms');
+    await enterCode(user, message.body.match(/\d{6}/)![0]);
+
+    expect(await findAccountPage()).toBeInTheDocument();
+  });
+
+  it('skips 2FA on a trusted device until it is removed', { timeout: 20_000 }, async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+    await user.click(screen.getByRole('checkbox', { name: 'Trust this device for 30 days' }));
+    await enterCode(user, await generateTotp(TEST_USERS.valid.totp.secret));
+    await findAccountPage();
+
+    await user.click(screen.getByRole('button', { name: 'Sign out' }));
+    await findLoginStep();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    expect(await findAccountPage()).toBeInTheDocument();
+
+    const devices = await screen.findByRole('region', { name: 'Trusted devices' });
+    const current = (await within(devices).findByText('This device')).closest('li')!;
+    await user.click(within(current).getByRole('button', { name: /^Remove/ }));
+    expect(await within(devices).findByText(/removed\. It will ask for a verification code/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Sign out' }));
+    await findLoginStep();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    expect(await findTwoFactorStep()).toBeInTheDocument();
+  });
+});
+
+describe('2FA session expiry', () => {
+  it('counts down and returns to the login form when the session runs out', async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+    expect(screen.getByText(/^Time left to verify: [45]:\d\d$/)).toBeInTheDocument();
+
+    await vi.advanceTimersByTimeAsync((MOCK_2FA_CONFIG.sessionTtl - 30) * 1000);
+    expect(screen.getByRole('alert')).toHaveTextContent('Less than a minute left.');
+
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    await findLoginStep();
+    expectTwoFactorExpiredNotice();
+  });
+});
+
+describe('identifier-first sign-in', () => {
+  beforeEach(() => {
+    vi.mocked(redirectTo).mockClear();
+  });
+
+  it('asks for the password after the email', async () => {
+    const user = setup();
+    await enterEmail(user, TEST_USERS.valid.email);
+
+    expect(await screen.findByLabelText('Password')).toBeInTheDocument();
+    expect(screen.getByText(TEST_USERS.valid.email)).toBeInTheDocument();
+    expect(screen.queryByLabelText('Email')).not.toBeInTheDocument();
+  });
+
+  it('goes back to the email step without the typed password', async () => {
+    const user = setup();
+    await enterEmail(user, TEST_USERS.valid.email);
+    await user.type(await screen.findByLabelText('Password'), 'password123');
+    await user.click(screen.getByRole('button', { name: 'Use a different email' }));
+
+    expect(await findLoginStep()).toBeInTheDocument();
+    expect(screen.getByLabelText('Email')).toHaveValue(TEST_USERS.valid.email);
+    await user.click(screen.getByRole('button', { name: 'Continue' }));
+    expect(await screen.findByLabelText('Password')).toHaveValue('');
+  });
+
+  it('sends SSO domains to their OpenID Connect provider with the email as a hint', async () => {
+    const user = setup();
+    await enterEmail(user, TEST_USERS.sso.email);
+
+    await waitFor(() => expect(redirectTo).toHaveBeenCalledOnce());
+    const authorizationUrl = new URL(vi.mocked(redirectTo).mock.calls[0][0]);
+    expect(authorizationUrl.pathname).toBe('/mock-idp/okta/authorize');
+    expect(authorizationUrl.searchParams.get('login_hint')).toBe(TEST_USERS.sso.email);
+    expect(screen.getByRole('button', { name: 'Redirecting to Okta...' })).toBeDisabled();
+    expect(screen.queryByLabelText('Password')).not.toBeInTheDocument();
+  });
+
+  it('sends SAML domains to the SSO URL from the server', async () => {
+    const user = setup();
+    await enterEmail(user, 'pat@initech.test');
+
+    await waitFor(() =>
+      expect(redirectTo).toHaveBeenCalledWith('https://sso.initech.test/saml2/idp/SSOService?RelayState=%2Faccount')
+    );
+    expect(screen.getByRole('button', { name: 'Redirecting to Initech SSO...' })).toBeDisabled();
+  });
+
+  it('offers a passkey first for passkey domains', async () => {
+    // jsdom has no WebAuthn - make the browser look passkey-capable
+    vi.stubGlobal('PublicKeyCredential', class {});
+    Object.defineProperty(navigator, 'credentials', { value: {}, configurable: true });
+    onTestFinished(() => {
+      Reflect.deleteProperty(navigator, 'credentials');
+    });
+    const user = setup();
+    await enterEmail(user, 'sam@passkey.test');
+
+    expect(await screen.findByText('Your organization recommends signing in with a passkey.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Sign in with a passkey' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Use your password instead' }));
+    expect(await screen.findByLabelText('Password')).toBeInTheDocument();
+  });
+
+  it('starts over at the email step when the password step took too long', async () => {
+    MOCK_DISCOVERY_CONFIG.tokenTtl = 60;
+    const user = setup();
+    await enterEmail(user, TEST_USERS.valid.email);
+    await user.type(await screen.findByLabelText('Password'), TEST_USERS.valid.password);
+    await vi.advanceTimersByTimeAsync(61_000);
+    await user.click(screen.getByRole('button', { name: 'Log in' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Your sign-in took too long. Please enter your email again.'
+    );
+    expect(screen.getByLabelText('Email')).toHaveValue(TEST_USERS.valid.email);
+  });
+});
+
+describe('identity provider sign-in', () => {
+  beforeEach(() => {
+    vi.mocked(redirectTo).mockClear();
+  });
+
+  // Click a provider button and open the provider's login page it redirects to
+  const continueWithProvider = async (name: string, initialEntry = '/login') => {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    const { unmount } = renderWithProviders(<AppRoutes />, { initialEntries: [initialEntry] });
+    await user.click(screen.getByRole('button', { name: `Continue with ${name}` }));
+    await waitFor(() => expect(redirectTo).toHaveBeenCalledOnce());
+
+    const authorizationUrl = new URL(vi.mocked(redirectTo).mock.calls[0][0]);
+    unmount();
+    renderWithProviders(<AppRoutes />, { initialEntries: [`${authorizationUrl.pathname}${authorizationUrl.search}`] });
+    await screen.findByRole('heading', { name: `Sign in with ${name}` });
+    return user;
+  };
+
+  it('signs in through the provider and returns to the requested page', async () => {
+    const user = await continueWithProvider('Microsoft', '/login?returnTo=%2Faccount%3Ftab%3Dsecurity');
+    await user.click(screen.getByRole('button', { name: /Test User/ }));
+
+    // Provider round trips: authorize, token, keys, then the app's own sign-in
+    expect(await screen.findByRole('heading', { name: 'Welcome!' }, { timeout: 5000 })).toBeInTheDocument();
+    expect(screen.getByText(TEST_USERS.valid.email)).toBeInTheDocument();
+  });
+
+  it('explains a sign-in cancelled at the provider', async () => {
+    const user = await continueWithProvider('Okta');
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(await screen.findByRole('heading', { name: 'Sign-in failed' }, { timeout: 3000 })).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('Sign-in with your identity provider was cancelled.');
+    expect(screen.getByRole('link', { name: 'Back to sign in' })).toBeInTheDocument();
+  });
+
+  it('rejects a callback that does not belong to a sign-in', async () => {
+    renderWithProviders(<AppRoutes />, { initialEntries: ['/auth/callback?code=stolen&state=forged'] });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'This sign-in attempt is no longer valid. Please start again from the login page.'
+    );
+  });
+
+  it('asks for 2FA after a password reset', { timeout: 20_000 }, async () => {
+    await requestPasswordReset({ email: TEST_USERS.valid.email });
+    const [message] = getDevInboxMessages();
+    const password = 'Correct horse battery staple 42';
+    const originalPassword = TEST_USERS.valid.password;
+    onTestFinished(() => {
+      TEST_USERS.valid.password = originalPassword;
+    });
+    const token = new URLSearchParams(message.link?.split('?')[1]).get('token') ?? '';
+    await resetPassword({ token, password });
+
+    const user = await continueWithProvider('Google');
+    await user.click(screen.getByRole('button', { name: /Test User/ }));
+    // Provider round trips, then the app's sign-in stops at 2FA
+    await screen.findByRole('heading', { name: 'Two-Factor Authentication' }, { timeout: 5000 });
+    await findTwoFactorStep();
+    await enterCode(user, await generateTotp(TEST_USERS.valid.totp.secret));
+
+    expect(await findAccountPage()).toBeInTheDocument();
+  });
+});
+
+describe('step-up', () => {
+  it('asks for the authenticator again before new recovery codes are made', { timeout: 20_000 }, async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+    await enterCode(user, await generateTotp(TEST_USERS.valid.totp.secret));
+    await findAccountPage();
+
+    await user.click(screen.getByRole('button', { name: 'Generate new recovery codes' }));
+    const dialog = await screen.findByRole('dialog', { name: "Confirm it's you" });
+    await user.click(within(dialog).getByRole('button', { name: 'Use your password instead' }));
+    await user.type(within(dialog).getByLabelText('Password'), 'wrong-password');
+    await user.click(within(dialog).getByRole('button', { name: 'Confirm' }));
+    expect(await within(dialog).findByRole('alert')).toHaveTextContent('Incorrect password.');
+
+    await user.click(within(dialog).getByRole('button', { name: 'Use your authenticator app instead' }));
+    await enterCode(user, await generateTotp(TEST_USERS.valid.totp.secret));
+
+    const recoveryCodes = screen.getByRole('region', { name: 'Recovery codes' });
+    // The step-up, then the retried request
+    expect(await within(recoveryCodes).findByRole('status', {}, { timeout: 3000 })).toHaveTextContent(
+      /Save these codes/
+    );
+    expect(within(recoveryCodes).getAllByRole('listitem')).toHaveLength(10);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('leaves the request failed when the dialog is cancelled', { timeout: 20_000 }, async () => {
+    const user = setup();
+    await signIn(user, TEST_USERS.valid.email, TEST_USERS.valid.password);
+    await findTwoFactorStep();
+    await enterCode(user, await generateTotp(TEST_USERS.valid.totp.secret));
+    await findAccountPage();
+
+    await user.click(screen.getByRole('button', { name: 'Generate new recovery codes' }));
+    await screen.findByRole('dialog', { name: "Confirm it's you" });
+    await user.keyboard('{Escape}');
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    const recoveryCodes = screen.getByRole('region', { name: 'Recovery codes' });
+    expect(await within(recoveryCodes).findByRole('alert')).toHaveTextContent("Please confirm it's you to continue.");
+  });
+});
@@ -1,107 +1,66 @@
-import { useState, useCallback } from 'react';
+import { useCallback } from 'react';
+import { Navigate, useLocation, useNavigate, useSearchParams } from 'react-router';
 import { AuthForm } from '../components/AuthForm';
-import { TwoFactorForm } from '../components/TwoFactorForm';
-import type { LoginResponse, Verify2FAResponse } from '../api/types';
+import { PageLoader } from '../components/PageLoader';
+import { useAuth, type SessionEndedReason } from '../app/authContext';
+import { ROUTES, getSafeReturnTo, type LoginRouteState, type TwoFactorRouteState } from '../app/routes';
+import type { LoginResponse } from '../api/types';
+import { useI18n, type MessageId } from '../i18n';
 
-interface TwoFactorState {
-  tempToken: string;
-  userEmail: string;
-}
+// Notice on the login form explaining why the user was signed out
+const SESSION_ENDED_NOTICES: Record<SessionEndedReason, MessageId> = {
+  expired: 'login.notice.sessionExpired',
+  signedOutElsewhere: 'login.notice.signedOutElsewhere',
+};
 
 export const LoginPage = () => {
-  const [twoFactorState, setTwoFactorState] = useState<TwoFactorState | null>(null);
-  const [isFullyAuthenticated, setIsFullyAuthenticated] = useState(false);
+  const { status, sessionEndedReason, signIn } = useAuth();
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'));
 
   const handleLoginSuccess = useCallback((response: LoginResponse) => {
-    console.log('Login successful:', response);
-    
-    if (response.requires2FA && response.tempToken) {
-      // Show 2FA form
-      setTwoFactorState({
+    if (response.requires2FA) {
+      // Show 2FA form, or authenticator setup if the user hasn't enrolled yet.
+      // The query string carries returnTo through the 2FA step.
+      const state: TwoFactorRouteState = {
         tempToken: response.tempToken,
         userEmail: response.user.email,
-      });
+        expiresAt: response.tempTokenExpiresAt,
+        methods: response.twoFactorMethods,
+      };
+      const path = response.enrollmentRequired ? ROUTES.twoFactorSetup : ROUTES.twoFactor;
+      navigate(`${path}${location.search}`, { state });
     } else {
-      // Direct login without 2FA (if ever needed)
-      setIsFullyAuthenticated(true);
+      // Passkey sign-in completes without 2FA
+      signIn(response.user);
+      navigate(returnTo, { replace: true });
     }
-  }, []);
-
-  const handle2FASuccess = useCallback((response: Verify2FAResponse) => {
-    console.log('2FA verification successful:', response);
-    setIsFullyAuthenticated(true);
-  }, []);
+  }, [signIn, navigate, location.search, returnTo]);
 
-  const handleBackToLogin = useCallback(() => {
-    setTwoFactorState(null);
-  }, []);
-
-  // Show success screen after full authentication
-  if (isFullyAuthenticated) {
-    return (
-      <div className="auth-form-container">
-        <div className="auth-form-card" style={{ textAlign: 'center' }}>
-          <div style={{ marginBottom: '1.5rem' }}>
-            <svg
-              width="64"
-              height="64"
-              viewBox="0 0 64 64"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
-            >
-              <circle cx="32" cy="32" r="32" fill="#10B981" />
-              <path
-                d="M20 32L28 40L44 24"
-                stroke="white"
-                strokeWidth="4"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-          </div>
-          <h1 style={{ fontSize: '1.5rem', fontWeight: 600, color: '#111827', marginBottom: '0.5rem' }}>
-            Welcome!
-          </h1>
-          <p style={{ color: '#6b7280', marginBottom: '1.5rem' }}>
-            You have successfully signed in.
-          </p>
-          <button
-            onClick={() => {
-              setIsFullyAuthenticated(false);
-              setTwoFactorState(null);
-            }}
-            style={{
-              padding: '0.75rem 1.5rem',
-              fontSize: '0.875rem',
-              fontWeight: 500,
-              color: '#4f46e5',
-              backgroundColor: '#eef2ff',
-              border: 'none',
-              borderRadius: '8px',
-              cursor: 'pointer',
-            }}
-          >
-            Sign out (demo)
-          </button>
-        </div>
-      </div>
-    );
+  // Wait for a stored session to be restored
+  if (status === 'loading') {
+    return <PageLoader />;
   }
 
-  // Show 2FA form if login was successful and requires 2FA
-  if (twoFactorState) {
-    return (
-      <TwoFactorForm
-        tempToken={twoFactorState.tempToken}
-        userEmail={twoFactorState.userEmail}
-        onSuccess={handle2FASuccess}
-        onBack={handleBackToLogin}
-      />
-    );
+  // Already signed in
+  if (status === 'authenticated') {
+    return <Navigate to={returnTo} replace />;
   }
 
-  // Show login form
-  return <AuthForm onSuccess={handleLoginSuccess} />;
+  const routeState = location.state as LoginRouteState | null;
+  const notice = routeState?.notice ?? (sessionEndedReason ? SESSION_ENDED_NOTICES[sessionEndedReason] : undefined);
+
+  return (
+    <AuthForm
+      onSuccess={handleLoginSuccess}
+      notice={notice && t(notice)}
+      initialEmail={routeState?.email}
+      returnTo={returnTo}
+    />
+  );
 };
 
 export default LoginPage;
@@ -0,0 +1,38 @@
+import { useCallback } from 'react';
+import { useLocation, useNavigate } from 'react-router';
+import { OidcCallback } from '../components/OidcCallback';
+import { useAuth } from '../app/authContext';
+import { DEFAULT_RETURN_TO, ROUTES, getSafeReturnTo, type TwoFactorRouteState } from '../app/routes';
+import type { OidcLoginResult } from '../api/types';
+
+// Redirect URI for identity provider sign-in (/auth/callback?code=...&state=...)
+export const OidcCallbackPage = () => {
+  const { signIn } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Replace the callback entry so back doesn't replay a used code
+  const handleSignedIn = useCallback(({ response, returnTo }: OidcLoginResult) => {
+    const safeReturnTo = getSafeReturnTo(returnTo);
+    if (response.requires2FA) {
+      // Same 2FA step as a password sign-in; the query string carries returnTo through it
+      const state: TwoFactorRouteState = {
+        tempToken: response.tempToken,
+        userEmail: response.user.email,
+        expiresAt: response.tempTokenExpiresAt,
+        methods: response.twoFactorMethods,
+      };
+      const path = response.enrollmentRequired ? ROUTES.twoFactorSetup : ROUTES.twoFactor;
+      const search = safeReturnTo === DEFAULT_RETURN_TO ? '' : `?${new URLSearchParams({ returnTo: safeReturnTo })}`;
+      navigate(`${path}${search}`, { replace: true, state });
+      return;
+    }
+
+    signIn(response.user);
+    navigate(safeReturnTo, { replace: true });
+  }, [signIn, navigate]);
+
+  return <OidcCallback search={location.search} onSuccess={handleSignedIn} />;
+};
+
+export default OidcCallbackPage;
@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import { Navigate, useLocation, useNavigate, useSearchParams } from 'react-router';
+import { ResetPasswordForm } from '../components/ResetPasswordForm';
+import { useAuth } from '../app/authContext';
+import { ROUTES, type LoginRouteState, type ResetPasswordRouteState } from '../app/routes';
+
+// Reached from the link in the password reset email (?token=...)
+export const ResetPasswordPage = () => {
+  const { status, logout } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const urlToken = searchParams.get('token');
+  const token = (location.state as ResetPasswordRouteState | null)?.token;
+
+  const handleReset = useCallback(async () => {
+    // The server ended every session - forget this tab's too
+    if (status !== 'unauthenticated') {
+      await logout();
+    }
+    const loginState: LoginRouteState = {
+      notice: 'login.notice.passwordChanged',
+    };
+    navigate(ROUTES.login, { replace: true, state: loginState });
+  }, [status, logout, navigate]);
+
+  // Move the token out of the address bar before rendering the form
+  if (urlToken) {
+    const state: ResetPasswordRouteState = { token: urlToken };
+    return <Navigate to={ROUTES.resetPassword} replace state={state} />;
+  }
+
+  if (!token) {
+    return <Navigate to={ROUTES.forgotPassword} replace />;
+  }
+
+  return <ResetPasswordForm key={token} token={token} onSuccess={handleReset} />;
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import { Navigate, useNavigate } from 'react-router';
+import { SignUpForm } from '../components/SignUpForm';
+import { PageLoader } from '../components/PageLoader';
+import { useAuth } from '../app/authContext';
+import { DEFAULT_RETURN_TO, ROUTES, type VerifyEmailRouteState } from '../app/routes';
+import type { RegisterResponse } from '../api/types';
+
+export const SignUpPage = () => {
+  const { status } = useAuth();
+  const navigate = useNavigate();
+
+  const handleSignUpSuccess = useCallback((response: RegisterResponse) => {
+    const state: VerifyEmailRouteState = {
+      maskedEmail: response.maskedEmail,
+      resendAvailableIn: response.resendAvailableIn,
+    };
+    navigate(`${ROUTES.verifyEmail}?${new URLSearchParams({ id: response.verificationId })}`, { state });
+  }, [navigate]);
+
+  if (status === 'loading') {
+    return <PageLoader />;
+  }
+
+  if (status === 'authenticated') {
+    return <Navigate to={DEFAULT_RETURN_TO} replace />;
+  }
+
+  return <SignUpForm onSuccess={handleSignUpSuccess} />;
+};
+
+export default SignUpPage;
@@ -0,0 +1,86 @@
+import { useCallback } from 'react';
+import { Navigate, useLocation, useNavigate, useSearchParams } from 'react-router';
+import { TwoFactorForm } from '../components/TwoFactorForm';
+import { TwoFactorEnrollForm } from '../components/TwoFactorEnrollForm';
+import { isPasskeySupported } from '../api/webauthn';
+import { useAuth } from '../app/authContext';
+import {
+  ROUTES,
+  getSafeReturnTo,
+  type LoginRouteState,
+  type SignedInRouteState,
+  type TwoFactorRouteState,
+} from '../app/routes';
+import type { Verify2FAResponse } from '../api/types';
+
+interface TwoFactorPageProps {
+  // Authenticator setup for users who haven't enrolled yet
+  setup?: boolean;
+}
+
+// Second sign-in step. The temp token lives in history state, so back/forward
+// move between this step and the login form; opening the URL directly starts over.
+export const TwoFactorPage = ({ setup = false }: TwoFactorPageProps) => {
+  const { status, signIn } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'));
+  const twoFactorState = location.state as TwoFactorRouteState | null;
+
+  const handle2FASuccess = useCallback((response: Verify2FAResponse) => {
+    signIn(response.user);
+    // Replace the 2FA entry so back doesn't return to a used temp token
+    const state: SignedInRouteState = { offerPasskey: isPasskeySupported() };
+    navigate(returnTo, { replace: true, state });
+  }, [signIn, navigate, returnTo]);
+
+  const handleBackToLogin = useCallback(() => {
+    navigate(-1);
+  }, [navigate]);
+
+  // The temp token is dead - replace this step with the login form, email kept
+  const handleExpired = useCallback(() => {
+    const state: LoginRouteState = {
+      notice: 'login.notice.twoFactorExpired',
+      email: twoFactorState?.userEmail,
+    };
+    navigate(`${ROUTES.login}${location.search}`, { replace: true, state });
+  }, [navigate, location.search, twoFactorState?.userEmail]);
+
+  if (status === 'authenticated') {
+    return <Navigate to={returnTo} replace />;
+  }
+
+  if (!twoFactorState) {
+    return <Navigate to={`${ROUTES.login}${location.search}`} replace />;
+  }
+
+  // Show authenticator setup if the user must enroll before 2FA
+  if (setup) {
+    return (
+      <TwoFactorEnrollForm
+        tempToken={twoFactorState.tempToken}
+        userEmail={twoFactorState.userEmail}
+        expiresAt={twoFactorState.expiresAt}
+        onSuccess={handle2FASuccess}
+        onBack={handleBackToLogin}
+        onExpired={handleExpired}
+      />
+    );
+  }
+
+  return (
+    <TwoFactorForm
+      tempToken={twoFactorState.tempToken}
+      userEmail={twoFactorState.userEmail}
+      expiresAt={twoFactorState.expiresAt}
+      methods={twoFactorState.methods}
+      onSuccess={handle2FASuccess}
+      onBack={handleBackToLogin}
+      onExpired={handleExpired}
+    />
+  );
+};
+
+export default TwoFactorPage;
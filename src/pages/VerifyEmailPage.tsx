@@ -0,0 +1,39 @@
+import { useCallback } from 'react';
+import { Navigate, useLocation, useNavigate, useSearchParams } from 'react-router';
+import { VerifyEmailForm } from '../components/VerifyEmailForm';
+import { ROUTES, type LoginRouteState, type VerifyEmailRouteState } from '../app/routes';
+
+// Reached right after sign-up, or from the link in the verification email (?id=...&code=...)
+export const VerifyEmailPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const verificationId = searchParams.get('id');
+  const code = searchParams.get('code') ?? undefined;
+  const state = location.state as VerifyEmailRouteState | null;
+
+  const handleVerified = useCallback(() => {
+    const loginState: LoginRouteState = {
+      notice: 'login.notice.emailVerified',
+    };
+    navigate(ROUTES.login, { replace: true, state: loginState });
+  }, [navigate]);
+
+  if (!verificationId) {
+    return <Navigate to={ROUTES.signUp} replace />;
+  }
+
+  return (
+    <VerifyEmailForm
+      // A newer link starts a fresh verification attempt
+      key={`${verificationId}:${code ?? ''}`}
+      verificationId={verificationId}
+      maskedEmail={state?.maskedEmail}
+      initialCode={code}
+      resendAvailableIn={state?.resendAvailableIn}
+      onSuccess={handleVerified}
+    />
+  );
+};
+
+export default VerifyEmailPage;
@@ -0,0 +1,19 @@
+import axe from 'axe-core';
+import { expect } from 'vitest';
+
+// Components are checked on their own, outside the page layout, so landmark
+// rules don't apply. jsdom doesn't render, so colour contrast isn't checked either.
+const RULES: axe.RunOptions['rules'] = {
+  region: { enabled: false },
+  'color-contrast': { enabled: false },
+};
+
+// Fails with the rule ids and offending markup of any WCAG 2.2 A/AA violations
+export const expectNoAxeViolations = async (container: Element) => {
+  const { violations } = await axe.run(container, {
+    runOnly: { type: 'tag', values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'wcag22aa', 'best-practice'] },
+    rules: RULES,
+  });
+  const summary = violations.map(({ id, nodes }) => `${id}: ${nodes.map((node) => node.html).join(', ')}`);
+  expect(summary).toEqual([]);
+};
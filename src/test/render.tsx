@@ -0,0 +1,29 @@
+import type { ReactElement } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter, type InitialEntry } from 'react-router';
+import { render } from '@testing-library/react';
+import { AuthProvider } from '../app/AuthProvider';
+import { I18nProvider } from '../i18n';
+
+interface RenderOptions {
+  // Router history, '/' by default
+  initialEntries?: InitialEntry[];
+}
+
+// Render with the providers the app wraps every page in, and a fresh query
+// cache so tests don't share results
+export const renderWithProviders = (ui: ReactElement, { initialEntries = ['/'] }: RenderOptions = {}) => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+
+  return render(
+    <I18nProvider>
+      <QueryClientProvider client={queryClient}>
+        <MemoryRouter initialEntries={initialEntries}>
+          <AuthProvider>{ui}</AuthProvider>
+        </MemoryRouter>
+      </QueryClientProvider>
+    </I18nProvider>
+  );
+};
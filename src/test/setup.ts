@@ -0,0 +1,21 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import axios from 'axios';
+import { afterAll, afterEach, beforeAll } from 'vitest';
+import { server } from '../mocks/node';
+
+// MSW answers XMLHttpRequests itself and never fires their timeout, so the API
+// clients (created after this runs) use Node's http module, where `timeout` works
+axios.defaults.adapter = 'http';
+
+// Every request goes to the mock API; anything it doesn't handle is a test bug
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+
+afterEach(() => {
+  cleanup();
+  server.resetHandlers();
+  localStorage.clear();
+  sessionStorage.clear();
+});
+
+afterAll(() => server.close());
@@ -0,0 +1,138 @@
+// Local password strength estimate. Rough entropy from length and character
+// classes, with penalties for the patterns people actually guess first.
+
+import type { MessageId } from '../i18n';
+
+export type PasswordStrengthScore = 0 | 1 | 2 | 3 | 4;
+
+// Messages are catalog ids; `passwordStrength.warningShort` takes `minLength`
+export interface PasswordStrength {
+  score: PasswordStrengthScore;
+  label: MessageId;
+  // The main problem, if any
+  warning?: MessageId;
+  // What would make the password stronger
+  suggestions: MessageId[];
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Lowest score accepted for new passwords
+export const MIN_PASSWORD_SCORE: PasswordStrengthScore = 2;
+
+const SCORE_LABELS: Record<PasswordStrengthScore, MessageId> = {
+  0: 'passwordStrength.score0',
+  1: 'passwordStrength.score1',
+  2: 'passwordStrength.score2',
+  3: 'passwordStrength.score3',
+  4: 'passwordStrength.score4',
+};
+
+// Frequently leaked passwords, compared case-insensitively
+const COMMON_PASSWORDS = new Set([
+  'password',
+  'password1',
+  'password12',
+  'password123',
+  'passw0rd',
+  '123456',
+  '12345678',
+  '123456789',
+  '1234567890',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'abc123',
+  'abcd1234',
+  '111111',
+  '000000',
+  'iloveyou',
+  'letmein',
+  'welcome',
+  'welcome1',
+  'admin',
+  'admin123',
+  'monkey',
+  'dragon',
+  'football',
+  'baseball',
+  'sunshine',
+  'princess',
+  'trustno1',
+  'superman',
+]);
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm', '1234567890', 'abcdefghijklmnopqrstuvwxyz'];
+
+// Characters that continue a run of repeats or sequences (aaa, abc, 321, qwe)
+const countPatternCharacters = (password: string): number => {
+  const lower = password.toLowerCase();
+  let count = 0;
+  for (let i = 2; i < lower.length; i++) {
+    const [a, b, c] = [lower[i - 2], lower[i - 1], lower[i]];
+    const isRepeat = a === b && b === c;
+    const isSequence = KEYBOARD_ROWS.some((row) => {
+      const run = a + b + c;
+      return row.includes(run) || row.includes([...run].reverse().join(''));
+    });
+    if (isRepeat || isSequence) count++;
+  }
+  return count;
+};
+
+const scoreForBits = (bits: number): PasswordStrengthScore => {
+  if (bits < 28) return 0;
+  if (bits < 40) return 1;
+  if (bits < 60) return 2;
+  if (bits < 80) return 3;
+  return 4;
+};
+
+// `userInputs` are values the password shouldn't contain, e.g. the email address
+export const estimatePasswordStrength = (password: string, userInputs: string[] = []): PasswordStrength => {
+  const suggestions: MessageId[] = [];
+  const lower = password.toLowerCase();
+
+  const hasLower = /[a-z]/.test(password);
+  const hasUpper = /[A-Z]/.test(password);
+  const hasDigit = /\d/.test(password);
+  const hasSymbol = /[^a-zA-Z\d]/.test(password);
+
+  const charsetSize = (hasLower ? 26 : 0) + (hasUpper ? 26 : 0) + (hasDigit ? 10 : 0) + (hasSymbol ? 33 : 0);
+  // Repeats and sequences add almost nothing an attacker has to guess
+  const effectiveLength = password.length - countPatternCharacters(password) * 0.75;
+  let bits = charsetSize > 0 ? effectiveLength * Math.log2(charsetSize) : 0;
+  let warning: MessageId | undefined;
+
+  const personalInput = userInputs
+    .map((input) => input.toLowerCase().split('@')[0])
+    .find((input) => input.length >= 3 && lower.includes(input));
+
+  if (COMMON_PASSWORDS.has(lower)) {
+    bits = 0;
+    warning = 'passwordStrength.warningCommon';
+  } else if (password.length < MIN_PASSWORD_LENGTH) {
+    bits = Math.min(bits, 27);
+    warning = 'passwordStrength.warningShort';
+  } else if (personalInput) {
+    bits -= personalInput.length * Math.log2(charsetSize);
+    warning = 'passwordStrength.warningPersonal';
+  } else if (countPatternCharacters(password) >= 2) {
+    // A single three-character run is usually accidental ("flower" contains "wer")
+    warning = 'passwordStrength.warningPattern';
+  }
+
+  if (password.length < 12) suggestions.push('passwordStrength.suggestLength');
+  if (!hasUpper || !hasLower) suggestions.push('passwordStrength.suggestMixedCase');
+  if (!hasDigit) suggestions.push('passwordStrength.suggestDigit');
+  if (!hasSymbol) suggestions.push('passwordStrength.suggestSymbol');
+
+  const score = scoreForBits(bits);
+  return {
+    score,
+    label: SCORE_LABELS[score],
+    warning,
+    // A strong password needs no further advice
+    suggestions: score === 4 ? [] : suggestions,
+  };
+};
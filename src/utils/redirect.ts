@@ -0,0 +1,5 @@
+// Full-page navigation away from the app, e.g. to an identity provider.
+// Kept in its own module so tests can replace it.
+export const redirectTo = (url: string): void => {
+  window.location.assign(url);
+};